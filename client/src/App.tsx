@@ -7,6 +7,7 @@ import Home from "@/pages/home";
 import SpeciesGuide from "@/pages/species-guide";
 import MyFinds from "@/pages/my-finds";
 import Profile from "@/pages/profile";
+import AuthPage from "@/pages/auth";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -16,6 +17,7 @@ function Router() {
       <Route path="/species" component={SpeciesGuide} />
       <Route path="/finds" component={MyFinds} />
       <Route path="/profile" component={Profile} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -15,12 +15,12 @@ import {
 
 interface WeatherData {
   temperature: number;
-  humidity: number;
-  soilTemperature?: number;
-  precipitation?: number;
-  windSpeed?: number;
-  pressure?: number;
-  lastRainfall: number;
+  humidity: number | null;
+  soilTemperature?: number | null;
+  precipitation?: number | null;
+  windSpeed?: number | null;
+  pressure?: number | null;
+  lastRainfall: number | null;
   location: {
     lat: number;
     lng: number;
@@ -31,14 +31,24 @@ interface WeatherData {
   municipality?: string;
   dataSource?: string;
   timestamp?: string;
+  // Provenance
+  source: string;
+  observedAt: string;
+  isFallback: boolean;
 }
 
 interface EnvironmentalConditionsProps {
   weather: WeatherData;
 }
 
+// Stations report every 10 minutes and models hourly, so older data has stopped updating
+const STALE_AFTER_HOURS = 3;
+
 export default function EnvironmentalConditions({ weather }: EnvironmentalConditionsProps) {
-  
+  const ageHours = (Date.now() - new Date(weather.observedAt).getTime()) / (60 * 60 * 1000);
+  const isStale = ageHours > STALE_AFTER_HOURS;
+  const isEstimate = weather.source === "interpolated";
+
   const getConditionStatus = () => {
     let score = 0;
     let factors = [];
@@ -55,7 +65,9 @@ export default function EnvironmentalConditions({ weather }: EnvironmentalCondit
     }
 
     // Humidity assessment (optimal 80%+)
-    if (weather.humidity >= 80) {
+    if (weather.humidity === null) {
+      factors.push("Humidity unknown");
+    } else if (weather.humidity >= 80) {
       score += 25;
       factors.push("Excellent humidity");
     } else if (weather.humidity >= 70) {
@@ -66,7 +78,9 @@ export default function EnvironmentalConditions({ weather }: EnvironmentalCondit
     }
 
     // Recent rainfall assessment
-    if (weather.lastRainfall <= 3) {
+    if (weather.lastRainfall === null) {
+      factors.push("Recent rainfall unknown");
+    } else if (weather.lastRainfall <= 3) {
       score += 25;
       factors.push("Recent rainfall ideal");
     } else if (weather.lastRainfall <= 7) {
@@ -151,6 +165,27 @@ export default function EnvironmentalConditions({ weather }: EnvironmentalCondit
           </CardTitle>
         </CardHeader>
 
+        {/* Fallback and stale data warnings */}
+        {(weather.isFallback || isStale) && (
+          <Alert className="mb-4 bg-amber-50 border-amber-200" data-testid="weather-data-warning">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="text-amber-800 text-xs">
+              {weather.isFallback && (
+                <p className="font-medium">
+                  {isEstimate
+                    ? "Estimated from nearby stations: live weather sources are unavailable."
+                    : "Fallback data: the preferred weather source is unavailable."}
+                </p>
+              )}
+              {isStale && (
+                <p>
+                  Last observation is {ageHours < 48 ? `${Math.round(ageHours)} hours` : `${Math.round(ageHours / 24)} days`} old.
+                </p>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Swiss Data Source Attribution */}
         {weather.dataSource && (
           <div className="mb-4 p-2 bg-blue-50 rounded-lg border border-blue-200">
@@ -161,11 +196,9 @@ export default function EnvironmentalConditions({ weather }: EnvironmentalCondit
             {weather.station && (
               <p className="text-xs text-blue-600 mt-1">Station: {weather.station}</p>
             )}
-            {weather.timestamp && (
-              <p className="text-xs text-blue-600">
-                Updated: {new Date(weather.timestamp).toLocaleString('de-CH')}
-              </p>
-            )}
+            <p className="text-xs text-blue-600">
+              Observed: {new Date(weather.observedAt).toLocaleString('de-CH')}
+            </p>
           </div>
         )}
         
@@ -197,10 +230,12 @@ export default function EnvironmentalConditions({ weather }: EnvironmentalCondit
                 <Droplets className="h-4 w-4 text-blue-600" />
               </div>
               <p className="text-xl font-bold text-gray-900" data-testid="current-humidity">
-                {Math.round(weather.humidity)}%
+                {weather.humidity === null ? "–" : `${Math.round(weather.humidity)}%`}
               </p>
               <p className="text-xs text-forest-600">
-                {weather.humidity >= 80 
+                {weather.humidity === null
+                  ? "Not reported"
+                  : weather.humidity >= 80 
                   ? "Excellent conditions" 
                   : weather.humidity >= 70
                   ? "Good conditions"
@@ -237,10 +272,14 @@ export default function EnvironmentalConditions({ weather }: EnvironmentalCondit
                 <CloudRain className="h-4 w-4 text-blue-600" />
               </div>
               <p className="text-xl font-bold text-gray-900" data-testid="last-rainfall">
-                {weather.lastRainfall} {weather.lastRainfall === 1 ? 'day' : 'days'}
+                {weather.lastRainfall === null
+                  ? "–"
+                  : `${weather.lastRainfall} ${weather.lastRainfall === 1 ? 'day' : 'days'}`}
               </p>
               <p className="text-xs text-forest-600">
-                {weather.lastRainfall <= 3 
+                {weather.lastRainfall === null
+                  ? "Not reported"
+                  : weather.lastRainfall <= 3 
                   ? "Perfect timing" 
                   : weather.lastRainfall <= 7
                   ? "Good moisture"
@@ -265,7 +304,7 @@ export default function EnvironmentalConditions({ weather }: EnvironmentalCondit
                 <span data-testid="pressure">{Math.round(weather.pressure)} hPa</span>
               </div>
             )}
-            {weather.precipitation !== undefined && (
+            {weather.precipitation != null && (
               <div className="flex items-center space-x-1 text-gray-600">
                 <CloudRain className="h-3 w-3" />
                 <span data-testid="precipitation">{weather.precipitation.toFixed(1)} mm</span>
@@ -0,0 +1,345 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Camera, Crosshair, Loader2, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useGeolocation } from "@/hooks/use-geolocation";
+import type { UserFind, MushroomSpecies, ForagingLocation } from "@shared/schema";
+import { formatSwissGrid, parseSwissGrid, toWgs84, wgs84ToLv95 } from "@shared/swiss-coordinates";
+
+interface FindPosition {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  elevation: number | null;
+}
+
+interface FindFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  species?: MushroomSpecies[];
+  locations?: ForagingLocation[];
+  // When set the dialog edits this find instead of recording a new one
+  find?: UserFind | null;
+}
+
+export default function FindFormDialog({ open, onOpenChange, species, locations, find }: FindFormDialogProps) {
+  const { toast } = useToast();
+  const [speciesId, setSpeciesId] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [notes, setNotes] = useState("");
+  const [photo, setPhoto] = useState<{ photoUrl: string; thumbnailUrl: string | null } | null>(null);
+  const [keepPhotoLocation, setKeepPhotoLocation] = useState(false);
+  const [position, setPosition] = useState<FindPosition | null>(null);
+  const [gridInput, setGridInput] = useState("");
+
+  const isEditing = !!find;
+  const geolocation = useGeolocation({ watch: false, enabled: open });
+
+  const currentPosition: FindPosition | null = geolocation.location
+    ? {
+        latitude: geolocation.location.latitude,
+        longitude: geolocation.location.longitude,
+        accuracy: geolocation.accuracy,
+        elevation: geolocation.altitude,
+      }
+    : null;
+
+  // Reset the form whenever the dialog opens for a different find
+  useEffect(() => {
+    if (!open) return;
+    setSpeciesId(find?.speciesId ?? "");
+    setLocationId(find?.locationId ?? "");
+    setQuantity(find?.quantity != null ? String(find.quantity) : "");
+    setNotes(find?.notes ?? "");
+    setPhoto(find?.photoUrl ? { photoUrl: find.photoUrl, thumbnailUrl: find.thumbnailUrl } : null);
+    setKeepPhotoLocation(false);
+    setGridInput("");
+    setPosition(
+      find?.latitude != null && find.longitude != null
+        ? { latitude: find.latitude, longitude: find.longitude, accuracy: find.accuracy, elevation: find.elevation }
+        : null,
+    );
+  }, [open, find]);
+
+  // New finds pick up the device position as soon as it is known
+  useEffect(() => {
+    if (!open || isEditing || !currentPosition) return;
+    setPosition((prev) => prev ?? currentPosition);
+  }, [open, isEditing, geolocation.location]);
+
+  // Positions typed from a Swiss map or spot list, in LV95 or LV03
+  const applyGridInput = () => {
+    const grid = parseSwissGrid(gridInput);
+    if (!grid) {
+      toast({
+        title: "Unrecognised coordinates",
+        description: "Enter Swiss grid coordinates as east / north, e.g. 2'683'250 / 1'247'980",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { lat, lng } = toWgs84(grid.crs, grid.east, grid.north);
+    setPosition({ latitude: lat, longitude: lng, accuracy: null, elevation: null });
+    setGridInput("");
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("photo", file);
+      formData.append("keepLocation", String(keepPhotoLocation));
+      const res = await fetch("/api/finds/photos", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json() as Promise<{ photoUrl: string; thumbnailUrl: string }>;
+    },
+    onSuccess: setPhoto,
+    onError: (error: Error) => {
+      toast({ title: "Photo upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        speciesId: speciesId || null,
+        locationId: locationId || null,
+        quantity: quantity ? parseInt(quantity, 10) : null,
+        notes: notes.trim() || null,
+        photoUrl: photo?.photoUrl ?? null,
+        thumbnailUrl: photo?.thumbnailUrl ?? null,
+        latitude: position?.latitude ?? null,
+        longitude: position?.longitude ?? null,
+        accuracy: position?.accuracy ?? null,
+        elevation: position?.elevation ?? null,
+      };
+      const res = isEditing
+        ? await apiRequest("PATCH", `/api/finds/${find!.id}`, payload)
+        : await apiRequest("POST", "/api/finds", payload);
+      return res.json() as Promise<UserFind>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/finds"] });
+      toast({ title: isEditing ? "Find updated" : "Find recorded" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save find", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Find" : "Record New Find"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-medium text-gray-700">Species</label>
+            <select
+              className="w-full mt-1 p-2 border border-gray-300 rounded-md"
+              value={speciesId}
+              onChange={(e) => setSpeciesId(e.target.value)}
+              data-testid="select-species"
+            >
+              <option value="">Select species...</option>
+              {species?.map((specie) => (
+                <option key={specie.id} value={specie.id}>
+                  {specie.name} ({specie.scientificName})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700">Location</label>
+            <select
+              className="w-full mt-1 p-2 border border-gray-300 rounded-md"
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+              data-testid="select-location"
+            >
+              <option value="">Select location...</option>
+              {locations?.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700">GPS Position</label>
+            <div className="mt-1 flex items-center justify-between p-2 border border-gray-300 rounded-md text-sm">
+              <span className="text-gray-600" data-testid="text-find-position">
+                {position
+                  ? `${position.latitude.toFixed(5)}, ${position.longitude.toFixed(5)}` +
+                    (position.accuracy != null ? ` (±${Math.round(position.accuracy)} m)` : "") +
+                    (position.elevation != null ? ` · ${Math.round(position.elevation)} m` : "")
+                  : geolocation.isLoading
+                    ? "Locating..."
+                    : "Not recorded"}
+              </span>
+              {position ? (
+                <button
+                  type="button"
+                  onClick={() => setPosition(null)}
+                  data-testid="button-clear-position"
+                >
+                  <X className="h-4 w-4 text-gray-500" />
+                </button>
+              ) : (
+                currentPosition && (
+                  <button
+                    type="button"
+                    onClick={() => setPosition(currentPosition)}
+                    data-testid="button-use-current-position"
+                  >
+                    <Crosshair className="h-4 w-4 text-forest-600" />
+                  </button>
+                )
+              )}
+            </div>
+            {position && (
+              <p className="text-xs text-gray-500 mt-1" data-testid="text-find-position-lv95">
+                LV95 {formatSwissGrid(wgs84ToLv95(position.latitude, position.longitude))}
+              </p>
+            )}
+            <div className="mt-2 flex gap-2">
+              <Input
+                value={gridInput}
+                onChange={(e) => setGridInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    applyGridInput();
+                  }
+                }}
+                placeholder="Swiss grid, e.g. 2'683'250 / 1'247'980"
+                data-testid="input-swiss-grid"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={applyGridInput}
+                disabled={!gridInput.trim()}
+                data-testid="button-apply-swiss-grid"
+              >
+                Set
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Finds without a selected location are attached to the nearest known spot, if one is close by.
+            </p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700">Quantity</label>
+            <Input
+              type="number"
+              min={0}
+              placeholder="How many did you find?"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              data-testid="input-quantity"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Enter 0 if you searched and found nothing; without a species it counts for all of them.
+            </p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700">Notes</label>
+            <Textarea
+              placeholder="Add any notes about your find..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              data-testid="textarea-notes"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700">Photo</label>
+            {photo ? (
+              <div className="relative mt-1 w-24 h-24">
+                <img
+                  src={photo.thumbnailUrl ?? photo.photoUrl}
+                  alt="Find photo"
+                  className="w-24 h-24 object-cover rounded"
+                  data-testid="img-photo-preview"
+                />
+                <button
+                  type="button"
+                  className="absolute -top-2 -right-2 bg-white rounded-full shadow p-1"
+                  onClick={() => setPhoto(null)}
+                  data-testid="button-remove-photo"
+                >
+                  <X className="h-3 w-3 text-gray-600" />
+                </button>
+              </div>
+            ) : (
+              <label className="mt-1 flex items-center justify-center w-full h-20 border-2 border-dashed border-gray-300 rounded-md cursor-pointer text-sm text-gray-600 hover:bg-gray-50">
+                {uploadMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Camera className="h-4 w-4 mr-2" />
+                )}
+                {uploadMutation.isPending ? "Uploading..." : "Take or choose a photo"}
+                <input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  className="hidden"
+                  disabled={uploadMutation.isPending}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) uploadMutation.mutate(file);
+                    e.target.value = "";
+                  }}
+                  data-testid="input-photo"
+                />
+              </label>
+            )}
+            <label className="flex items-center space-x-2 mt-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={keepPhotoLocation}
+                onChange={(e) => setKeepPhotoLocation(e.target.checked)}
+                disabled={!!photo}
+                data-testid="checkbox-keep-photo-location"
+              />
+              <span>Keep GPS location embedded in the photo</span>
+            </label>
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => onOpenChange(false)}
+              data-testid="button-cancel-find"
+            >
+              Cancel
+            </Button>
+            <Button
+              className="flex-1 bg-forest-600 hover:bg-forest-700"
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || uploadMutation.isPending}
+              data-testid="button-save-find"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEditing ? "Save Changes" : "Save Find"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+import { useQuery } from "@tanstack/react-query";
+import type { LocationForecast } from "@shared/schema";
+
+interface ForecastSparklineProps {
+  locationId: string;
+  width?: number;
+  height?: number;
+}
+
+const WEEKDAY_FORMAT = new Intl.DateTimeFormat("en-GB", { weekday: "short" });
+
+export default function ForecastSparkline({ locationId, width = 140, height = 32 }: ForecastSparklineProps) {
+  const { data: forecast, isLoading } = useQuery<LocationForecast>({
+    queryKey: ["/api/locations", locationId, "forecast"],
+  });
+
+  if (isLoading) {
+    return <div className="text-xs text-gray-400">Loading forecast...</div>;
+  }
+  if (!forecast || forecast.days.length === 0) {
+    return null;
+  }
+
+  const { days } = forecast;
+  const padding = 3;
+  const step = days.length > 1 ? (width - padding * 2) / (days.length - 1) : 0;
+  const points = days.map((day, i) => ({
+    day,
+    x: padding + i * step,
+    y: padding + (1 - day.probability / 100) * (height - padding * 2),
+  }));
+  const bestDay = days.reduce((best, day) => (day.probability > best.probability ? day : best), days[0]);
+  const weekday = (date: string) => WEEKDAY_FORMAT.format(new Date(`${date}T12:00:00`));
+
+  return (
+    <div data-testid={`forecast-sparkline-${locationId}`}>
+      <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+        <span className="font-medium">7-day outlook</span>
+        <span data-testid={`text-best-day-${locationId}`}>
+          Best: {weekday(bestDay.date)} ({Math.round(bestDay.probability)}%)
+        </span>
+      </div>
+      <svg width={width} height={height} className="overflow-visible">
+        <polyline
+          fill="none"
+          stroke="var(--forest-600)"
+          strokeWidth={1.5}
+          points={points.map(p => `${p.x},${p.y}`).join(" ")}
+        />
+        {points.map(({ day, x, y }) => (
+          <circle
+            key={day.date}
+            cx={x}
+            cy={y}
+            r={day === bestDay ? 3 : 2}
+            fill={day === bestDay ? "var(--forest-700)" : "var(--forest-500)"}
+          >
+            <title>
+              {`${weekday(day.date)} ${day.date}: ${Math.round(day.probability)}%` +
+                (day.topSpecies.length > 0 ? ` - ${day.topSpecies.join(", ")}` : "")}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-400" style={{ width }}>
+        {days.map(day => (
+          <span key={day.date}>{weekday(day.date).charAt(0)}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { MapPin, Mountain, Clock, Navigation, Car, TreePine } from "lucide-react";
+import ForecastSparkline from "@/components/forecast-sparkline";
 import type { LocationWithProbability } from "@shared/schema";
 
 interface LocationCardProps {
@@ -156,8 +157,18 @@ export default function LocationCard({ location }: LocationCardProps) {
                     {Math.round(location.currentConditions.humidity)}% humidity
                   </span>
                 )}
+                {location.currentConditions.isFallback && (
+                  <span className="ml-1 text-amber-700" data-testid={`text-conditions-fallback-${location.id}`}>
+                    (estimated)
+                  </span>
+                )}
               </div>
             )}
+
+            {/* Fruiting Forecast */}
+            <div className="mt-3">
+              <ForecastSparkline locationId={location.id} />
+            </div>
           </div>
           
           {/* Navigation Button */}
@@ -24,7 +24,7 @@ export default function MobileHeader() {
 
   // Fetch current weather for location
   const { data: weather } = useQuery<WeatherData>({
-    queryKey: ["/api/weather/current", location?.latitude, location?.longitude],
+    queryKey: [`/api/weather/current?lat=${location?.latitude}&lng=${location?.longitude}`],
     enabled: !!location && isOnline,
   });
 
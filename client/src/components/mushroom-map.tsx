@@ -3,9 +3,12 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Plus, Minus, Layers, Navigation, AlertTriangle, Loader2 } from "lucide-react";
-import { MapContainer, TileLayer, Marker, Popup, CircleMarker, Circle, useMap } from 'react-leaflet';
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { MapContainer, TileLayer, Marker, Popup, CircleMarker, Circle, GeoJSON, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import type { LocationWithProbability } from "@shared/schema";
+import ForecastSparkline from "@/components/forecast-sparkline";
+import type { ForagingLocation, LocationWithProbability, ProbabilityGrid } from "@shared/schema";
+import { formatSwissGrid, wgs84ToLv95 } from "@shared/swiss-coordinates";
 
 // Fix Leaflet default markers issue in webpack
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -78,6 +81,7 @@ interface OverlayState {
   forestTypes: boolean;
   elevationContours: boolean;
   weatherOverlay: boolean;
+  probabilityHeatMap: boolean;
 }
 
 // Overlay loading state
@@ -161,6 +165,54 @@ function WMSLayer({
   return null;
 }
 
+// Reports the visible bounds on mount and whenever the map settles after a pan or zoom
+function ViewportWatcher({ onChange }: { onChange: (bbox: string) => void }) {
+  const map = useMapEvents({
+    moveend: () => onChange(toBbox(map.getBounds())),
+  });
+
+  useEffect(() => {
+    onChange(toBbox(map.getBounds()));
+  }, [map, onChange]);
+
+  return null;
+}
+
+// minLng,minLat,maxLng,maxLat as the locations API expects; rounded to ~100 m so
+// sub-pixel moves hit the query cache
+function toBbox(bounds: L.LatLngBounds): string {
+  const clampLng = (lng: number) => Math.min(Math.max(lng, -180), 180);
+  const clampLat = (lat: number) => Math.min(Math.max(lat, -90), 90);
+  return [
+    clampLng(bounds.getWest()),
+    clampLat(bounds.getSouth()),
+    clampLng(bounds.getEast()),
+    clampLat(bounds.getNorth()),
+  ].map(value => value.toFixed(3)).join(",");
+}
+
+// Heat-map cell edges in metres. About 40 cells span the viewport's longer side, snapped
+// to these sizes so nearby zoom levels share the server's cached tiles
+const HEAT_MAP_RESOLUTIONS = [250, 500, 1000, 2000, 5000];
+const HEAT_MAP_CELLS_ACROSS = 40;
+
+function heatMapResolution(bbox: string): number {
+  const [minLng, minLat, maxLng, maxLat] = bbox.split(",").map(parseFloat);
+  const widthMetres = (maxLng - minLng) * 111320 * Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const heightMetres = (maxLat - minLat) * 111320;
+  const target = Math.max(widthMetres, heightMetres) / HEAT_MAP_CELLS_ACROSS;
+  return HEAT_MAP_RESOLUTIONS.find(resolution => resolution >= target) ??
+    HEAT_MAP_RESOLUTIONS[HEAT_MAP_RESOLUTIONS.length - 1];
+}
+
+// Same bands as the location markers
+function heatMapColor(probability: number): string {
+  if (probability >= 90) return "#16a34a";
+  if (probability >= 70) return "#eab308";
+  if (probability >= 50) return "#a3665b";
+  return "#9ca3af";
+}
+
 // Zoom Control Component
 function ZoomControl({ onZoomIn, onZoomOut }: { onZoomIn: () => void; onZoomOut: () => void }) {
   return (
@@ -196,6 +248,7 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
     forestTypes: false,
     elevationContours: false,
     weatherOverlay: false,
+    probabilityHeatMap: false,
   });
   const [overlayLoading, setOverlayLoading] = useState<OverlayLoadingState>({
     forestTypes: false,
@@ -208,6 +261,28 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
     weatherOverlay: false,
   });
   const mapRef = useRef<L.Map | null>(null);
+  const [viewport, setViewport] = useState<string | null>(null);
+
+  // Every location in view; only those in the nearby search carry a probability
+  const { data: viewportLocations } = useQuery<ForagingLocation[]>({
+    queryKey: [`/api/locations?bbox=${viewport}`],
+    enabled: overlays.foragingLocations && viewport !== null,
+    placeholderData: keepPreviousData,
+  });
+  const scoredLocations = new Map(locations.map(location => [location.id, location]));
+  const visibleLocations: Array<ForagingLocation & Partial<LocationWithProbability>> =
+    (viewportLocations ?? locations).map(location => scoredLocations.get(location.id) ?? location);
+
+  const gridResolution = viewport ? heatMapResolution(viewport) : null;
+  const {
+    data: probabilityGrid,
+    isFetching: probabilityGridLoading,
+    isError: probabilityGridError,
+  } = useQuery<ProbabilityGrid>({
+    queryKey: [`/api/probability/grid?bbox=${viewport}&resolution=${gridResolution}`],
+    enabled: overlays.probabilityHeatMap && viewport !== null,
+    placeholderData: keepPreviousData,
+  });
 
   // Handle overlay toggle
   const toggleOverlay = (overlayName: keyof OverlayState) => {
@@ -218,7 +293,7 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
       };
 
       // Set loading state when enabling overlay
-      if (!prev[overlayName] && overlayName !== 'foragingLocations') {
+      if (!prev[overlayName] && overlayName !== 'foragingLocations' && overlayName !== 'probabilityHeatMap') {
         setOverlayLoading(loadingPrev => ({
           ...loadingPrev,
           [overlayName]: true
@@ -263,7 +338,16 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
   const currentBaseLayer = BASE_LAYERS.find(layer => layer.id === selectedBaseLayer) || BASE_LAYERS[0];
 
   // Create custom markers for different probability levels
-  const createProbabilityIcon = (probability: number) => {
+  const createProbabilityIcon = (probability: number | undefined) => {
+    if (probability === undefined) {
+      return L.divIcon({
+        html: `<div class="w-4 h-4 rounded-full border-2 border-white shadow" style="background-color: #6b7280"></div>`,
+        className: 'custom-marker',
+        iconSize: [16, 16],
+        iconAnchor: [8, 8],
+      });
+    }
+
     const color = getProbabilityColor(probability);
     const htmlColor = color === "bg-forest-600" ? "#16a34a" : 
                      color === "bg-yellow-500" ? "#eab308" :
@@ -373,6 +457,29 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
           />
         )}
         
+        {/* Probability Heat Map - forest cells scored by the probability engine */}
+        {overlays.probabilityHeatMap && probabilityGrid && (
+          <GeoJSON
+            key={`${probabilityGrid.resolution}:${viewport}:${probabilityGrid.weatherObservedAt}`}
+            data={probabilityGrid}
+            style={(feature) => ({
+              color: heatMapColor(feature?.properties.probability ?? 0),
+              fillColor: heatMapColor(feature?.properties.probability ?? 0),
+              fillOpacity: 0.45,
+              weight: 0,
+            })}
+            onEachFeature={(feature, layer) => {
+              const { probability, elevation, forestType, forestShare, topSpecies } = feature.properties;
+              layer.bindTooltip(
+                `<strong>${Math.round(probability)}% - ${getProbabilityLabel(probability)}</strong><br/>` +
+                `${forestType ?? `${Math.round(forestShare * 100)}% forest`}${elevation !== null ? `, ${elevation}m` : ""}` +
+                (topSpecies.length > 0 ? `<br/>${topSpecies.join(", ")}` : ""),
+                { sticky: true },
+              );
+            }}
+          />
+        )}
+
         {/* User Location Marker */}
         <Marker 
           position={[center.latitude, center.longitude]} 
@@ -382,6 +489,8 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
             <div className="text-sm">
               <strong>Your Location</strong>
               <br />
+              <span className="text-gray-600">LV95 {formatSwissGrid(wgs84ToLv95(center.latitude, center.longitude))}</span>
+              <br />
               Searching within {radius} km radius
             </div>
           </Popup>
@@ -400,8 +509,10 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
           }}
         />
 
+        <ViewportWatcher onChange={setViewport} />
+
         {/* Foraging Location Markers - Conditionally rendered */}
-        {overlays.foragingLocations && locations.map((location) => (
+        {overlays.foragingLocations && visibleLocations.map((location) => (
           <Marker
             key={location.id}
             position={[location.latitude, location.longitude]}
@@ -411,13 +522,19 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
               <div className="text-sm">
                 <strong>{location.name}</strong>
                 <br />
-                <span className="text-gray-600">Probability: {Math.round(location.probability)}% - {getProbabilityLabel(location.probability)}</span>
+                {location.probability !== undefined ? (
+                  <span className="text-gray-600">Probability: {Math.round(location.probability)}% - {getProbabilityLabel(location.probability)}</span>
+                ) : (
+                  <span className="text-gray-600">Outside your search radius</span>
+                )}
                 <br />
                 {location.elevation && <span className="text-gray-600">Elevation: {location.elevation}m</span>}
                 <br />
                 {location.forestType && <span className="text-gray-600">Forest: {location.forestType}</span>}
                 <br />
-                {location.suitableSpecies.length > 0 && (
+                <span className="text-gray-600">LV95 {formatSwissGrid(wgs84ToLv95(location.latitude, location.longitude))}</span>
+                <br />
+                {location.suitableSpecies && location.suitableSpecies.length > 0 && (
                   <div className="mt-2">
                     <strong>Species found:</strong>
                     <br />
@@ -425,6 +542,9 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
                     {location.suitableSpecies.length > 3 && "..."}
                   </div>
                 )}
+                <div className="mt-2">
+                  <ForecastSparkline locationId={location.id} width={160} />
+                </div>
               </div>
             </Popup>
           </Marker>
@@ -463,6 +583,10 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
             <div className="w-3 h-3 bg-earth-600 rounded-full"></div>
             <span>50-69% Fair</span>
           </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-3 h-3 bg-gray-500 rounded-full"></div>
+            <span>Outside search radius</span>
+          </div>
         </div>
         <div className="mt-2 pt-2 border-t border-gray-200">
           <div className="flex items-center space-x-2">
@@ -471,7 +595,7 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
           </div>
         </div>
         {/* Overlay Legend */}
-        {(overlays.forestTypes || overlays.elevationContours || overlays.weatherOverlay) && (
+        {(overlays.forestTypes || overlays.elevationContours || overlays.weatherOverlay || overlays.probabilityHeatMap) && (
           <div className="mt-2 pt-2 border-t border-gray-200">
             <h5 className="font-medium text-gray-900 mb-1">Active Overlays</h5>
             {overlays.forestTypes && (
@@ -495,6 +619,13 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
                 {overlayErrors.weatherOverlay && <AlertTriangle className="h-3 w-3 text-red-500" />}
               </div>
             )}
+            {overlays.probabilityHeatMap && (
+              <div className="flex items-center space-x-1">
+                <span className="text-forest-600">🍄 Probability Heat Map</span>
+                {probabilityGridLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+                {probabilityGridError && <AlertTriangle className="h-3 w-3 text-red-500" />}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -576,6 +707,19 @@ export default function MushroomMap({ center, locations, radius }: MushroomMapPr
                   {overlayErrors.weatherOverlay && <AlertTriangle className="h-3 w-3 text-red-500" title="Failed to load overlay" />}
                 </span>
               </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={overlays.probabilityHeatMap}
+                  onChange={() => toggleOverlay('probabilityHeatMap')}
+                  className="rounded" 
+                />
+                <span className="flex items-center space-x-1">
+                  <span>Probability Heat Map</span>
+                  {probabilityGridLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {probabilityGridError && <AlertTriangle className="h-3 w-3 text-red-500" />}
+                </span>
+              </label>
             </div>
           </div>
 
@@ -0,0 +1,44 @@
+import type { MushroomSpecies } from "@shared/schema";
+import { MONTH_LABELS, monthWeight } from "@shared/phenology";
+
+interface PhenologyStripProps {
+  species: MushroomSpecies;
+}
+
+const MONTH_NAME_FORMAT = new Intl.DateTimeFormat("en-GB", { month: "long" });
+
+// One cell per month, shaded by how often the species fruits then; peak months are
+// ringed and the current month is underlined
+export default function PhenologyStrip({ species }: PhenologyStripProps) {
+  const currentMonth = new Date().getMonth();
+  const peakMonths = species.peakMonths ?? [];
+
+  return (
+    <div data-testid={`phenology-strip-${species.id}`}>
+      <div className="grid grid-cols-12 gap-0.5">
+        {MONTH_LABELS.map((label, month) => {
+          const weight = monthWeight(species, month);
+          const isPeak = peakMonths.indexOf(month + 1) >= 0;
+          const monthName = MONTH_NAME_FORMAT.format(new Date(2000, month, 1));
+          return (
+            <div key={month} className="flex flex-col items-center">
+              <div
+                className="h-3 w-full rounded-sm"
+                style={{
+                  backgroundColor: "var(--forest-600)",
+                  opacity: 0.1 + weight * 0.9,
+                  boxShadow: isPeak ? "0 0 0 1.5px var(--forest-800)" : undefined,
+                }}
+                title={`${monthName}: ${Math.round(weight * 100)}%${isPeak ? " (peak)" : ""}`}
+                data-testid={`phenology-month-${species.id}-${month + 1}`}
+              />
+              <span className={`text-[10px] ${month === currentMonth ? "font-bold text-gray-900 underline" : "text-gray-500"}`}>
+                {label}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Calendar, Mountain, TreePine, AlertTriangle, ImageIcon } from "lucide-react";
+import PhenologyStrip from "@/components/phenology-strip";
 import type { MushroomSpecies } from "@shared/schema";
+import { monthWeight } from "@shared/phenology";
 
 interface SpeciesCardProps {
   species: MushroomSpecies;
@@ -70,18 +72,13 @@ export default function SpeciesCard({ species, detailed = false }: SpeciesCardPr
     }
   };
 
-  const getSeasonStatus = (season: string) => {
-    const currentMonth = new Date().getMonth();
-    
-    if (season === "All Year") return "Available";
-    
-    let isInSeason = false;
-    if (season === "Spring" && currentMonth >= 2 && currentMonth <= 5) isInSeason = true;
-    if (season === "Summer" && currentMonth >= 5 && currentMonth <= 8) isInSeason = true;
-    if (season === "Fall" && currentMonth >= 8 && currentMonth <= 11) isInSeason = true;
-    if (season === "Winter" && (currentMonth >= 11 || currentMonth <= 2)) isInSeason = true;
-    
-    return isInSeason ? "Peak Season" : "Out of Season";
+  const getSeasonStatus = (species: MushroomSpecies) => {
+    if (species.season === "All Year") return "Available";
+
+    const weight = monthWeight(species, new Date().getMonth());
+    if (weight >= 1) return "Peak Season";
+    if (weight >= 0.5) return "In Season";
+    return "Out of Season";
   };
 
   const mushroomEmoji = getMushroomEmoji(species);
@@ -119,7 +116,7 @@ export default function SpeciesCard({ species, detailed = false }: SpeciesCardPr
             className={`text-xs px-2 py-1 ${getSeasonColor(species.season)} shadow-sm`}
             data-testid={`badge-season-${species.id}`}
           >
-            {getSeasonStatus(species.season)}
+            {getSeasonStatus(species)}
           </Badge>
         </div>
       </div>
@@ -158,6 +155,15 @@ export default function SpeciesCard({ species, detailed = false }: SpeciesCardPr
                   {species.description}
                 </p>
               )}
+
+              {/* Phenology */}
+              <div>
+                <div className="flex items-center space-x-1 mb-1">
+                  <Calendar className="h-3 w-3 text-gray-500" />
+                  <span className="text-xs font-medium text-gray-700">Fruiting Months:</span>
+                </div>
+                <PhenologyStrip species={species} />
+              </div>
               
               {/* Environmental Info Grid */}
               <div className="grid grid-cols-2 gap-2 text-xs">
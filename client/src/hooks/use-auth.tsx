@@ -0,0 +1,59 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { InsertUser, PublicUser } from "@shared/schema";
+
+export function useAuth() {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (authenticatedUser: PublicUser) => {
+    queryClient.setQueryData(["/api/auth/me"], authenticatedUser);
+    queryClient.invalidateQueries({ queryKey: ["/api/finds"] });
+  };
+
+  const onAuthError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser): Promise<PublicUser> => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return res.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: onAuthError("Login failed"),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser): Promise<PublicUser> => {
+      const res = await apiRequest("POST", "/api/auth/register", credentials);
+      return res.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: onAuthError("Registration failed"),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/auth/me"], null);
+      queryClient.removeQueries({ queryKey: ["/api/finds"] });
+    },
+    onError: onAuthError("Logout failed"),
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
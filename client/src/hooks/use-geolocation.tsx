@@ -6,6 +6,7 @@ interface GeolocationState {
     longitude: number;
   } | null;
   accuracy: number | null;
+  altitude: number | null; // meters, only reported by some devices
   error: string | null;
   isLoading: boolean;
 }
@@ -15,6 +16,7 @@ interface GeolocationOptions {
   timeout?: number;
   maximumAge?: number;
   watch?: boolean;
+  enabled?: boolean;
 }
 
 export function useGeolocation(options: GeolocationOptions = {}) {
@@ -23,16 +25,20 @@ export function useGeolocation(options: GeolocationOptions = {}) {
     timeout = 15000,
     maximumAge = 60000,
     watch = true,
+    enabled = true,
   } = options;
 
   const [state, setState] = useState<GeolocationState>({
     location: null,
     accuracy: null,
+    altitude: null,
     error: null,
-    isLoading: true,
+    isLoading: enabled,
   });
 
   useEffect(() => {
+    if (!enabled) return;
+
     let watchId: number | null = null;
     let mounted = true;
 
@@ -40,6 +46,7 @@ export function useGeolocation(options: GeolocationOptions = {}) {
       setState({
         location: null,
         accuracy: null,
+        altitude: null,
         error: "Geolocation is not supported by this browser",
         isLoading: false,
       });
@@ -55,6 +62,7 @@ export function useGeolocation(options: GeolocationOptions = {}) {
           longitude: position.coords.longitude,
         },
         accuracy: position.coords.accuracy,
+        altitude: position.coords.altitude,
         error: null,
         isLoading: false,
       });
@@ -83,6 +91,7 @@ export function useGeolocation(options: GeolocationOptions = {}) {
       setState({
         location: null,
         accuracy: null,
+        altitude: null,
         error: errorMessage,
         isLoading: false,
       });
@@ -116,7 +125,7 @@ export function useGeolocation(options: GeolocationOptions = {}) {
         navigator.geolocation.clearWatch(watchId);
       }
     };
-  }, [enableHighAccuracy, timeout, maximumAge, watch]);
+  }, [enableHighAccuracy, timeout, maximumAge, watch, enabled]);
 
   const refreshLocation = () => {
     setState(prev => ({ ...prev, isLoading: true, error: null }));
@@ -129,6 +138,7 @@ export function useGeolocation(options: GeolocationOptions = {}) {
             longitude: position.coords.longitude,
           },
           accuracy: position.coords.accuracy,
+          altitude: position.coords.altitude,
           error: null,
           isLoading: false,
         });
@@ -154,6 +164,7 @@ export function useGeolocation(options: GeolocationOptions = {}) {
         setState({
           location: null,
           accuracy: null,
+          altitude: null,
           error: errorMessage,
           isLoading: false,
         });
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import MobileHeader from "@/components/mobile-header";
+import BottomNavigation from "@/components/bottom-navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, User } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return <Redirect to="/finds" />;
+  }
+
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+
+  const credentialFields = (
+    <>
+      <div>
+        <label className="text-sm font-medium text-gray-700">Username</label>
+        <Input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          data-testid="input-username"
+        />
+      </div>
+      <div>
+        <label className="text-sm font-medium text-gray-700">Password</label>
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          data-testid="input-password"
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-forest-50 pb-20">
+      <MobileHeader />
+
+      <div className="p-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <User className="h-5 w-5 text-forest-600 mr-2" />
+              Your Forager Account
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="login">
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+                <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login">
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    loginMutation.mutate({ username, password });
+                  }}
+                >
+                  {credentialFields}
+                  <Button
+                    type="submit"
+                    className="w-full bg-forest-600 hover:bg-forest-700"
+                    disabled={isPending}
+                    data-testid="button-login"
+                  >
+                    {loginMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Sign In
+                  </Button>
+                </form>
+              </TabsContent>
+
+              <TabsContent value="register">
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    registerMutation.mutate({ username, password });
+                  }}
+                >
+                  {credentialFields}
+                  <p className="text-xs text-gray-500">
+                    Usernames need at least 3 characters, passwords at least 8.
+                  </p>
+                  <Button
+                    type="submit"
+                    className="w-full bg-forest-600 hover:bg-forest-700"
+                    disabled={isPending}
+                    data-testid="button-register"
+                  >
+                    {registerMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Create Account
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+
+      <BottomNavigation currentPage="profile" />
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { MapPin, Navigation, Clock, AlertTriangle } from "lucide-react";
 import type { LocationWithProbability, MushroomSpecies } from "@shared/schema";
+import type { WeatherData as CurrentWeather } from "@/lib/weather-api";
 
 export default function Home() {
   const [searchRadius, setSearchRadius] = useState(5); // km
@@ -30,8 +31,8 @@ export default function Home() {
   });
 
   // Fetch current weather
-  const { data: currentWeather } = useQuery({
-    queryKey: ["/api/weather/current", location?.latitude, location?.longitude],
+  const { data: currentWeather, isError: weatherUnavailable } = useQuery<CurrentWeather>({
+    queryKey: [`/api/weather/current?lat=${location?.latitude}&lng=${location?.longitude}`],
     enabled: !!location,
   });
 
@@ -133,6 +134,16 @@ export default function Home() {
 
       {/* Environmental Conditions */}
       {currentWeather && <EnvironmentalConditions weather={currentWeather} />}
+      {weatherUnavailable && (
+        <div className="bg-white border-b border-forest-200 p-4">
+          <Alert className="border-amber-200 bg-amber-50">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="text-amber-800" data-testid="weather-unavailable">
+              No weather data is available for your position right now.
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
 
       {/* Nearby Locations */}
       <div className="bg-white">
@@ -1,26 +1,44 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import MobileHeader from "@/components/mobile-header";
 import BottomNavigation from "@/components/bottom-navigation";
+import FindFormDialog from "@/components/find-form-dialog";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Calendar, MapPin, Camera, Plus, Search, BookmarkCheck } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Calendar, MapPin, Camera, Plus, Search, BookmarkCheck, User, Pencil, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { UserFind, MushroomSpecies, ForagingLocation } from "@shared/schema";
 
 export default function MyFinds() {
   const [searchTerm, setSearchTerm] = useState("");
   const [isAddingFind, setIsAddingFind] = useState(false);
+  const [editingFind, setEditingFind] = useState<UserFind | null>(null);
+  const [deletingFind, setDeletingFind] = useState<UserFind | null>(null);
+  const { toast } = useToast();
 
-  // Mock user ID for demo
-  const userId = "demo-user";
+  const { user, isLoading: userLoading } = useAuth();
 
-  const { data: finds, isLoading } = useQuery<UserFind[]>({
-    queryKey: ["/api/finds", userId],
+  // Finds are scoped to the logged-in forager by the server session
+  const { data: finds, isLoading: findsLoading } = useQuery<UserFind[]>({
+    queryKey: ["/api/finds"],
+    enabled: !!user,
   });
+  const isLoading = userLoading || findsLoading;
 
   const { data: species } = useQuery<MushroomSpecies[]>({
     queryKey: ["/api/species"],
@@ -30,6 +48,20 @@ export default function MyFinds() {
     queryKey: ["/api/locations"],
   });
 
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/finds/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/finds"] });
+      toast({ title: "Find deleted" });
+      setDeletingFind(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete find", description: error.message, variant: "destructive" });
+    },
+  });
+
   const getSpeciesName = (speciesId: string | null) => {
     if (!speciesId || !species) return "Unknown Species";
     const specie = species.find(s => s.id === speciesId);
@@ -61,6 +93,29 @@ export default function MyFinds() {
     });
   };
 
+  if (!userLoading && !user) {
+    return (
+      <div className="min-h-screen bg-forest-50 pb-20">
+        <MobileHeader />
+        <div className="p-4">
+          <Card className="p-8 text-center">
+            <User className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Sign In to See Your Finds</h3>
+            <p className="text-gray-600 mb-4">
+              Your foraging journal is private to your account.
+            </p>
+            <Link href="/auth">
+              <Button className="bg-forest-600 hover:bg-forest-700" data-testid="button-sign-in">
+                Sign In or Register
+              </Button>
+            </Link>
+          </Card>
+        </div>
+        <BottomNavigation currentPage="finds" />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-forest-50 pb-20">
       <MobileHeader />
@@ -97,77 +152,14 @@ export default function MyFinds() {
         <div className="p-4">
           <div className="flex items-center justify-between mb-4">
             <h1 className="text-xl font-bold text-gray-900">My Mushroom Finds</h1>
-            <Dialog open={isAddingFind} onOpenChange={setIsAddingFind}>
-              <DialogTrigger asChild>
-                <Button 
-                  className="bg-forest-600 hover:bg-forest-700"
-                  data-testid="button-add-find"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Find
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="sm:max-w-md">
-                <DialogHeader>
-                  <DialogTitle>Record New Find</DialogTitle>
-                </DialogHeader>
-                <div className="space-y-4">
-                  <div>
-                    <label className="text-sm font-medium text-gray-700">Species</label>
-                    <select className="w-full mt-1 p-2 border border-gray-300 rounded-md" data-testid="select-species">
-                      <option value="">Select species...</option>
-                      {species?.map((specie) => (
-                        <option key={specie.id} value={specie.id}>
-                          {specie.name} ({specie.scientificName})
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium text-gray-700">Location</label>
-                    <select className="w-full mt-1 p-2 border border-gray-300 rounded-md" data-testid="select-location">
-                      <option value="">Select location...</option>
-                      {locations?.map((location) => (
-                        <option key={location.id} value={location.id}>
-                          {location.name}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium text-gray-700">Quantity</label>
-                    <Input 
-                      type="number" 
-                      placeholder="How many did you find?" 
-                      data-testid="input-quantity"
-                    />
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium text-gray-700">Notes</label>
-                    <Textarea 
-                      placeholder="Add any notes about your find..." 
-                      data-testid="textarea-notes"
-                    />
-                  </div>
-                  <div className="flex space-x-2">
-                    <Button 
-                      variant="outline" 
-                      className="flex-1"
-                      onClick={() => setIsAddingFind(false)}
-                      data-testid="button-cancel-find"
-                    >
-                      Cancel
-                    </Button>
-                    <Button 
-                      className="flex-1 bg-forest-600 hover:bg-forest-700"
-                      data-testid="button-save-find"
-                    >
-                      Save Find
-                    </Button>
-                  </div>
-                </div>
-              </DialogContent>
-            </Dialog>
+            <Button 
+              className="bg-forest-600 hover:bg-forest-700"
+              onClick={() => setIsAddingFind(true)}
+              data-testid="button-add-find"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Find
+            </Button>
           </div>
 
           {/* Search Bar */}
@@ -236,11 +228,11 @@ export default function MyFinds() {
                             {formatDate(find.foundAt)}
                           </span>
                         </div>
-                        {find.quantity && (
+                        {find.quantity != null && (
                           <div className="flex items-center">
                             <span className="font-medium">Quantity: </span>
                             <span data-testid={`text-quantity-${find.id}`}>
-                              {find.quantity}
+                              {find.quantity === 0 ? "Nothing found" : find.quantity}
                             </span>
                           </div>
                         )}
@@ -256,7 +248,7 @@ export default function MyFinds() {
                     <div className="ml-4">
                       {find.photoUrl ? (
                         <img 
-                          src={find.photoUrl} 
+                          src={find.thumbnailUrl ?? find.photoUrl} 
                           alt="Mushroom find" 
                           className="w-16 h-16 object-cover rounded"
                           data-testid={`img-photo-${find.id}`}
@@ -266,6 +258,26 @@ export default function MyFinds() {
                           <Camera className="h-6 w-6 text-gray-400" />
                         </div>
                       )}
+                      <div className="flex justify-end space-x-1 mt-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-gray-500 hover:text-forest-700"
+                          onClick={() => setEditingFind(find)}
+                          data-testid={`button-edit-find-${find.id}`}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-gray-500 hover:text-red-600"
+                          onClick={() => setDeletingFind(find)}
+                          data-testid={`button-delete-find-${find.id}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
                     </div>
                   </div>
                 </CardContent>
@@ -305,6 +317,42 @@ export default function MyFinds() {
         )}
       </div>
 
+      <FindFormDialog
+        open={isAddingFind}
+        onOpenChange={setIsAddingFind}
+        species={species}
+        locations={locations}
+      />
+
+      <FindFormDialog
+        open={!!editingFind}
+        onOpenChange={(open) => !open && setEditingFind(null)}
+        species={species}
+        locations={locations}
+        find={editingFind}
+      />
+
+      <AlertDialog open={!!deletingFind} onOpenChange={(open) => !open && setDeletingFind(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this find?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingFind && `${getSpeciesName(deletingFind.speciesId)} from ${formatDate(deletingFind.foundAt)} will be removed from your journal.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deletingFind && deleteMutation.mutate(deletingFind.id)}
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <BottomNavigation currentPage="finds" />
     </div>
   );
@@ -1,3 +1,5 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import MobileHeader from "@/components/mobile-header";
 import BottomNavigation from "@/components/bottom-navigation";
 import { SwissFungiPanel } from "@/components/SwissFungiPanel";
@@ -5,9 +7,30 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
-import { User, Settings, Award, MapPin, Bell, Download, Wifi, WifiOff } from "lucide-react";
+import { User, Settings, Award, MapPin, Bell, Download, Wifi, WifiOff, LogOut } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { UserFind } from "@shared/schema";
 
 export default function Profile() {
+  const { user, logoutMutation } = useAuth();
+
+  const { data: finds } = useQuery<UserFind[]>({
+    queryKey: ["/api/finds"],
+    enabled: !!user,
+  });
+
+  const stats = {
+    totalFinds: finds?.length ?? 0,
+    speciesFound: new Set(finds?.map(f => f.speciesId).filter(Boolean)).size,
+    locationsVisited: new Set(finds?.map(f => f.locationId).filter(Boolean)).size,
+    verifiedFinds: finds?.filter(f => f.verified).length ?? 0,
+  };
+
+  const formatMemberSince = (date: Date | string | null) => {
+    if (!date) return "recently";
+    return new Date(date).toLocaleDateString("en-US", { year: "numeric", month: "long" });
+  };
+
   return (
     <div className="min-h-screen bg-forest-50 pb-20">
       <MobileHeader />
@@ -54,22 +77,43 @@ export default function Profile() {
               <div className="w-16 h-16 bg-forest-600 rounded-full flex items-center justify-center">
                 <User className="h-8 w-8 text-white" />
               </div>
-              <div className="flex-1">
-                <h2 className="text-xl font-bold text-gray-900" data-testid="text-username">
-                  Demo Forager
-                </h2>
-                <p className="text-gray-600" data-testid="text-member-since">
-                  Member since December 2024
-                </p>
-                <div className="flex items-center space-x-2 mt-2">
-                  <Badge className="bg-forest-100 text-forest-700">
-                    Intermediate Forager
-                  </Badge>
-                  <Badge variant="outline">
-                    Zurich Region
-                  </Badge>
+              {user ? (
+                <div className="flex-1">
+                  <h2 className="text-xl font-bold text-gray-900" data-testid="text-username">
+                    {user.username}
+                  </h2>
+                  <p className="text-gray-600" data-testid="text-member-since">
+                    Member since {formatMemberSince(user.createdAt)}
+                  </p>
+                  <div className="flex items-center space-x-2 mt-2">
+                    <Badge className="bg-forest-100 text-forest-700">
+                      {stats.totalFinds} recorded finds
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => logoutMutation.mutate()}
+                      disabled={logoutMutation.isPending}
+                      data-testid="button-logout"
+                    >
+                      <LogOut className="h-3 w-3 mr-1" />
+                      Sign Out
+                    </Button>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <div className="flex-1">
+                  <h2 className="text-xl font-bold text-gray-900" data-testid="text-username">
+                    Guest Forager
+                  </h2>
+                  <p className="text-gray-600 mb-2">Sign in to keep a private foraging journal.</p>
+                  <Link href="/auth">
+                    <Button size="sm" className="bg-forest-600 hover:bg-forest-700" data-testid="button-sign-in">
+                      Sign In or Register
+                    </Button>
+                  </Link>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -85,19 +129,19 @@ export default function Profile() {
           <CardContent>
             <div className="grid grid-cols-2 gap-4">
               <div className="text-center">
-                <div className="text-2xl font-bold text-forest-600" data-testid="stat-total-finds">0</div>
+                <div className="text-2xl font-bold text-forest-600" data-testid="stat-total-finds">{stats.totalFinds}</div>
                 <div className="text-sm text-gray-600">Total Finds</div>
               </div>
               <div className="text-center">
-                <div className="text-2xl font-bold text-forest-600" data-testid="stat-species-found">0</div>
+                <div className="text-2xl font-bold text-forest-600" data-testid="stat-species-found">{stats.speciesFound}</div>
                 <div className="text-sm text-gray-600">Species Found</div>
               </div>
               <div className="text-center">
-                <div className="text-2xl font-bold text-forest-600" data-testid="stat-locations-visited">0</div>
+                <div className="text-2xl font-bold text-forest-600" data-testid="stat-locations-visited">{stats.locationsVisited}</div>
                 <div className="text-sm text-gray-600">Locations Visited</div>
               </div>
               <div className="text-center">
-                <div className="text-2xl font-bold text-forest-600" data-testid="stat-verified-finds">0</div>
+                <div className="text-2xl font-bold text-forest-600" data-testid="stat-verified-finds">{stats.verifiedFinds}</div>
                 <div className="text-sm text-gray-600">Verified Finds</div>
               </div>
             </div>
@@ -0,0 +1,59 @@
+import { writeFile } from "fs/promises";
+import { parseArgs } from "util";
+import { initializeStorage } from "./storage";
+import { renderBacktestHtml, runBacktest } from "./backtest";
+
+/**
+ * Backtest the probability engine against recorded finds from the command line:
+ *
+ *   npm run backtest -- --format html --out backtest.html --since 2024-08-01 --species <id>,<id>
+ *
+ * Without --out the report is written to stdout.
+ */
+
+const USAGE = "Usage: npm run backtest -- [--format json|html] [--out file] [--since date] [--until date] [--species id,id]";
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      format: { type: "string", default: "json" },
+      out: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      species: { type: "string" },
+    },
+  });
+
+  const since = values.since ? new Date(values.since) : undefined;
+  const until = values.until ? new Date(values.until) : undefined;
+  if ((values.format !== "json" && values.format !== "html") ||
+    (since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  await initializeStorage();
+  const report = await runBacktest({
+    since,
+    until,
+    speciesIds: values.species ? values.species.split(",").map(id => id.trim()).filter(Boolean) : undefined,
+  });
+  const output = values.format === "html" ? renderBacktestHtml(report) : JSON.stringify(report, null, 2);
+
+  if (values.out) {
+    await writeFile(values.out, output);
+    console.error(`Backtested ${report.samples} predictions from ${report.visits} visits into ${values.out}`);
+  } else {
+    process.stdout.write(output + "\n");
+  }
+  return 0;
+}
+
+// The storage pool and weather services keep the process alive, so exit explicitly
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error("Backtest failed:", error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,121 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { roundTo } from "@shared/math";
+import { calculateSpeciesProbability } from "@shared/probability";
+import type { ForagingLocation, MushroomSpecies } from "@shared/schema";
+import { brierScore, reliabilityCurve, runBacktest } from "./backtest";
+import { storage } from "./storage";
+import { getWeatherConditions } from "./weather-derivation";
+import { interpolateWeatherForLocation } from "./weather-interpolation";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("brierScore", () => {
+  it("is 0 for certain, right predictions and 1 for certain, wrong ones", () => {
+    expect(brierScore([{ predicted: 1, found: true }, { predicted: 0, found: false }])).toBe(0);
+    expect(brierScore([{ predicted: 0, found: true }, { predicted: 1, found: false }])).toBe(1);
+  });
+
+  it("averages the squared errors", () => {
+    expect(brierScore([{ predicted: 0.9, found: true }, { predicted: 0.2, found: false }])).toBeCloseTo(0.025, 10);
+  });
+});
+
+describe("reliabilityCurve", () => {
+  it("buckets predictions and reports how many in each were finds", () => {
+    const curve = reliabilityCurve([
+      { predicted: 0.05, found: false },
+      { predicted: 0.15, found: true },
+      { predicted: 0.12, found: false },
+      { predicted: 0.25, found: true },
+      { predicted: 1, found: true },
+    ], 4);
+
+    expect(curve).toEqual([
+      { from: 0, to: 0.25, samples: 3, meanPredicted: 0.107, observedRate: 0.333 },
+      { from: 0.25, to: 0.5, samples: 1, meanPredicted: 0.25, observedRate: 1 },
+      { from: 0.5, to: 0.75, samples: 0, meanPredicted: null, observedRate: null },
+      { from: 0.75, to: 1, samples: 1, meanPredicted: 1, observedRate: 1 },
+    ]);
+  });
+
+  it("returns empty buckets without samples", () => {
+    expect(reliabilityCurve([], 2).map(bin => bin.samples)).toEqual([0, 0]);
+  });
+});
+
+describe("runBacktest", () => {
+  const visitedAt = new Date("2025-09-18T10:00:00Z");
+  let sihlwald: ForagingLocation;
+  let uetliberg: ForagingLocation;
+  let chanterelle: MushroomSpecies;
+
+  beforeAll(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(visitedAt);
+
+    chanterelle = (await storage.getMushroomSpeciesById("chanterelle"))!;
+    sihlwald = await storage.createForagingLocation({
+      name: "Backtest Sihlwald", latitude: 47.2667, longitude: 8.55, elevation: 600, forestType: "Mixed", treeSpecies: ["Beech", "Spruce"],
+    });
+    uetliberg = await storage.createForagingLocation({ name: "Backtest Uetliberg", latitude: 47.35, longitude: 8.49, elevation: 800 });
+    for (let hour = 1; hour <= 72; hour++) {
+      await storage.createWeatherData(
+        { locationId: sihlwald.id, temperature: 14, humidity: 90, precipitation: hour === 20 ? 8 : 0 },
+        new Date(visitedAt.getTime() - hour * HOUR_MS),
+      );
+    }
+    // Stored after the visit, so the replay must not see it
+    await storage.createWeatherData({ locationId: sihlwald.id, temperature: 30, humidity: 20 }, new Date(visitedAt.getTime() + HOUR_MS));
+    await storage.createWeatherData({ stationId: "SMA", temperature: 12, humidity: 85, precipitation: 0 }, new Date(visitedAt.getTime() - HOUR_MS));
+
+    const user = await storage.createUser({ username: "backtester", password: "hash.salt" });
+    await storage.createUserFind({ userId: user.id, speciesId: "chanterelle", locationId: sihlwald.id, quantity: 4 });
+    await storage.createUserFind({ userId: user.id, locationId: uetliberg.id, quantity: 0 });
+    await storage.createUserFind({ userId: user.id, speciesId: "chanterelle", latitude: 47.378, longitude: 8.566, elevation: 556, quantity: 1 });
+    await storage.createUserFind({ userId: user.id, speciesId: "chanterelle", quantity: 2 });
+    vi.useRealTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("replays every visit with a fixed number of storage queries", async () => {
+    const byIds = vi.spyOn(storage, "getForagingLocationsByIds");
+    const byId = vi.spyOn(storage, "getForagingLocationById");
+    const histories = vi.spyOn(storage, "getWeatherHistoryForLocations");
+    const stationHistory = vi.spyOn(storage, "getStationWeatherHistory");
+    const single = vi.spyOn(storage, "getLatestWeatherForLocation");
+    const stationReadings = vi.spyOn(storage, "getLatestStationReadings");
+
+    const allSpecies = await storage.getMushroomSpecies();
+    const report = await runBacktest({ since: visitedAt });
+
+    // The find with neither a location nor coordinates cannot be placed
+    expect(report).toMatchObject({ visits: 3, skipped: 1, samples: allSpecies.length + 2 });
+    expect(byIds).toHaveBeenCalledTimes(1);
+    expect(histories).toHaveBeenCalledTimes(1);
+    expect(stationHistory).toHaveBeenCalledTimes(1);
+    expect(byId).not.toHaveBeenCalled();
+    expect(single).not.toHaveBeenCalled();
+    expect(stationReadings).not.toHaveBeenCalled();
+  });
+
+  it("scores visits with the weather that stood at the time, like a single lookup would", async () => {
+    const report = await runBacktest({ since: visitedAt, speciesIds: ["chanterelle"] });
+
+    const stored = calculateSpeciesProbability(chanterelle, sihlwald, await getWeatherConditions(sihlwald.id, visitedAt), visitedAt);
+    const empty = calculateSpeciesProbability(chanterelle, uetliberg, await getWeatherConditions(uetliberg.id, visitedAt), visitedAt);
+    const spot = { ...sihlwald, id: "find-spot", latitude: 47.378, longitude: 8.566, elevation: 556, forestType: null, treeSpecies: [] };
+    const interpolated = await interpolateWeatherForLocation(spot, visitedAt);
+    expect(interpolated).toBeDefined();
+    const atSpot = calculateSpeciesProbability(chanterelle, spot, interpolated, visitedAt);
+
+    expect(report.species).toEqual([expect.objectContaining({
+      speciesId: "chanterelle",
+      finds: 2,
+      emptyVisits: 1,
+      meanPredicted: roundTo((stored.probability + empty.probability + atSpot.probability) / 300, 3),
+    })]);
+  });
+});
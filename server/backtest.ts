@@ -0,0 +1,293 @@
+import { storage } from "./storage";
+import { getWeatherConditionsAtTimes } from "./weather-derivation";
+import {
+  PROBABILITY_ENGINE_VERSION,
+  SUITABLE_SPECIES_THRESHOLD,
+  calculateSpeciesProbability,
+} from "@shared/probability";
+import { mean, roundTo } from "@shared/math";
+import type { ForagingLocation, MushroomSpecies, UserFind } from "@shared/schema";
+
+/**
+ * Replays recorded finds and empty visits through the probability engine with the
+ * weather stored for their place and time, and measures how well the predicted
+ * probabilities match what foragers actually found.
+ *
+ * A find of a species is a positive outcome for that species. A visit recorded with
+ * quantity 0 is an empty visit: a negative outcome for its species, or for every
+ * species when it names none. Finds say nothing about the species that were not
+ * reported, so those are not counted either way.
+ */
+
+export interface BacktestOptions {
+  since?: Date;
+  until?: Date;
+  speciesIds?: string[];
+  bins?: number; // reliability curve buckets over 0-1
+}
+
+export interface ReliabilityBin {
+  from: number; // predicted probability, 0-1
+  to: number;
+  samples: number;
+  meanPredicted: number | null;
+  observedRate: number | null; // share of samples that were finds
+}
+
+export interface SpeciesBacktest {
+  speciesId: string;
+  name: string;
+  samples: number;
+  finds: number;
+  emptyVisits: number;
+  meanPredicted: number;
+  brierScore: number;
+  hitRate: number | null; // finds the engine called suitable
+  falseAlarmRate: number | null; // empty visits the engine called suitable
+}
+
+export interface BacktestReport {
+  generatedAt: string;
+  engineVersion: number;
+  period: { since: string | null; until: string | null };
+  visits: number; // finds and empty visits replayed
+  skipped: number; // no date, or neither a location nor coordinates
+  samples: number; // species predictions scored, several per empty visit without a species
+  baseRate: number | null; // share of samples that were finds
+  brierScore: number | null; // mean squared error of the predicted probabilities, 0 is perfect
+  suitableThreshold: number; // probability (0-1) at which a species counts as predicted
+  reliability: ReliabilityBin[];
+  species: SpeciesBacktest[];
+}
+
+interface Sample {
+  species: MushroomSpecies;
+  predicted: number; // 0-1
+  found: boolean;
+}
+
+const DEFAULT_BINS = 10;
+
+export async function runBacktest(options: BacktestOptions = {}): Promise<BacktestReport> {
+  const [finds, allSpecies] = await Promise.all([storage.getUserFinds(), storage.getMushroomSpecies()]);
+  const species = options.speciesIds
+    ? allSpecies.filter(s => options.speciesIds!.indexOf(s.id) >= 0)
+    : allSpecies;
+  const speciesById = new Map(species.map(s => [s.id, s]));
+
+  const candidates: Array<{ find: UserFind; foundAt: Date; targets: MushroomSpecies[] }> = [];
+  let skipped = 0;
+
+  for (const find of finds) {
+    if (!find.foundAt) {
+      skipped++;
+      continue;
+    }
+    if ((options.since && find.foundAt < options.since) || (options.until && find.foundAt > options.until)) {
+      continue;
+    }
+
+    // A find of a species outside the backtest, or with none named, says nothing here
+    const targets = find.speciesId
+      ? (speciesById.has(find.speciesId) ? [speciesById.get(find.speciesId)!] : [])
+      : (find.quantity === 0 ? species : []);
+    if (targets.length > 0) {
+      candidates.push({ find, foundAt: find.foundAt, targets });
+    }
+  }
+
+  const locationIds = Array.from(new Set(candidates.map(c => c.find.locationId).filter((id): id is string => !!id)));
+  const locations = new Map((await storage.getForagingLocationsByIds(locationIds)).map(l => [l.id, l]));
+
+  const visits: Array<{ find: UserFind; foundAt: Date; targets: MushroomSpecies[]; location: ForagingLocation }> = [];
+  for (const candidate of candidates) {
+    const location = locationOf(candidate.find, locations);
+    if (location) {
+      visits.push({ ...candidate, location });
+    } else {
+      skipped++;
+    }
+  }
+
+  // Weather as it stood when each find was made; readings stored later are not used
+  const weather = await getWeatherConditionsAtTimes(visits.map(v => ({ location: v.location, at: v.foundAt })));
+
+  const samples: Sample[] = [];
+  visits.forEach((visit, i) => {
+    for (const target of visit.targets) {
+      const { probability } = calculateSpeciesProbability(target, visit.location, weather[i], visit.foundAt);
+      samples.push({ species: target, predicted: probability / 100, found: visit.find.quantity !== 0 });
+    }
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    engineVersion: PROBABILITY_ENGINE_VERSION,
+    period: {
+      since: options.since?.toISOString() ?? null,
+      until: options.until?.toISOString() ?? null,
+    },
+    visits: visits.length,
+    skipped,
+    samples: samples.length,
+    baseRate: samples.length > 0 ? roundTo(samples.filter(s => s.found).length / samples.length, 3) : null,
+    brierScore: samples.length > 0 ? roundTo(brierScore(samples), 4) : null,
+    suitableThreshold: SUITABLE_SPECIES_THRESHOLD / 100,
+    reliability: reliabilityCurve(samples, options.bins ?? DEFAULT_BINS),
+    species: species
+      .map(s => speciesBacktest(s, samples.filter(sample => sample.species.id === s.id)))
+      .filter((result): result is SpeciesBacktest => result !== null),
+  };
+}
+
+// The foraging location a find was attached to, or its own coordinates scored as one
+function locationOf(find: UserFind, locations: Map<string, ForagingLocation>): ForagingLocation | undefined {
+  const attached = find.locationId ? locations.get(find.locationId) : undefined;
+  if (attached) {
+    return attached;
+  }
+  if (find.latitude === null || find.longitude === null) {
+    return undefined;
+  }
+
+  return {
+    id: `find-${find.id}`,
+    name: "",
+    latitude: find.latitude,
+    longitude: find.longitude,
+    elevation: find.elevation === null ? null : Math.round(find.elevation),
+    forestType: null,
+    treeSpecies: [],
+    accessibility: null,
+    parkingAvailable: null,
+    description: null,
+    municipality: null,
+    canton: find.canton,
+    createdAt: null,
+  };
+}
+
+/**
+ * Mean squared difference between predicted probabilities and outcomes, 0 when every
+ * prediction was certain and right
+ */
+export function brierScore(samples: Array<Pick<Sample, "predicted" | "found">>): number {
+  return samples.reduce((sum, s) => sum + Math.pow(s.predicted - (s.found ? 1 : 0), 2), 0) / samples.length;
+}
+
+/**
+ * Samples bucketed by predicted probability, with the share in each bucket that were finds
+ */
+export function reliabilityCurve(samples: Array<Pick<Sample, "predicted" | "found">>, bins: number): ReliabilityBin[] {
+  return Array.from({ length: bins }, (_, i) => {
+    const from = i / bins;
+    const to = (i + 1) / bins;
+    // The last bin includes a prediction of exactly 1
+    const inBin = samples.filter(s => s.predicted >= from && (s.predicted < to || (i === bins - 1 && s.predicted <= to)));
+    return {
+      from: roundTo(from, 3),
+      to: roundTo(to, 3),
+      samples: inBin.length,
+      meanPredicted: inBin.length > 0 ? roundTo(mean(inBin.map(s => s.predicted)), 3) : null,
+      observedRate: inBin.length > 0 ? roundTo(inBin.filter(s => s.found).length / inBin.length, 3) : null,
+    };
+  });
+}
+
+function speciesBacktest(species: MushroomSpecies, samples: Sample[]): SpeciesBacktest | null {
+  if (samples.length === 0) {
+    return null;
+  }
+
+  const threshold = SUITABLE_SPECIES_THRESHOLD / 100;
+  const finds = samples.filter(s => s.found);
+  const empty = samples.filter(s => !s.found);
+  return {
+    speciesId: species.id,
+    name: species.name,
+    samples: samples.length,
+    finds: finds.length,
+    emptyVisits: empty.length,
+    meanPredicted: roundTo(mean(samples.map(s => s.predicted)), 3),
+    brierScore: roundTo(brierScore(samples), 4),
+    hitRate: finds.length > 0 ? roundTo(finds.filter(s => s.predicted >= threshold).length / finds.length, 3) : null,
+    falseAlarmRate: empty.length > 0 ? roundTo(empty.filter(s => s.predicted >= threshold).length / empty.length, 3) : null,
+  };
+}
+
+/**
+ * The report as a standalone HTML page with a reliability chart
+ */
+export function renderBacktestHtml(report: BacktestReport): string {
+  const percent = (value: number | null) => (value === null ? "–" : `${Math.round(value * 100)}%`);
+  const size = 240;
+  const points = report.reliability
+    .filter(bin => bin.meanPredicted !== null)
+    .map(bin => `${(bin.meanPredicted! * size).toFixed(1)},${((1 - bin.observedRate!) * size).toFixed(1)}`)
+    .join(" ");
+
+  const speciesRows = report.species.map(s => `
+      <tr>
+        <td>${escapeHtml(s.name)}</td>
+        <td>${s.samples}</td>
+        <td>${s.finds}</td>
+        <td>${s.emptyVisits}</td>
+        <td>${percent(s.meanPredicted)}</td>
+        <td>${s.brierScore.toFixed(3)}</td>
+        <td>${percent(s.hitRate)}</td>
+        <td>${percent(s.falseAlarmRate)}</td>
+      </tr>`).join("");
+
+  const binRows = report.reliability.map(bin => `
+      <tr>
+        <td>${percent(bin.from)}–${percent(bin.to)}</td>
+        <td>${bin.samples}</td>
+        <td>${percent(bin.meanPredicted)}</td>
+        <td>${percent(bin.observedRate)}</td>
+      </tr>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Probability backtest</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+    table { border-collapse: collapse; margin: 1rem 0 2rem; }
+    th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.75rem; text-align: right; }
+    th:first-child, td:first-child { text-align: left; }
+    svg { border: 1px solid #d1d5db; }
+  </style>
+</head>
+<body>
+  <h1>Probability backtest</h1>
+  <p>Engine version ${report.engineVersion}, generated ${escapeHtml(report.generatedAt)}.
+    ${report.visits} visits replayed (${report.skipped} skipped), ${report.samples} predictions scored.</p>
+  <p>Brier score: <strong>${report.brierScore === null ? "–" : report.brierScore.toFixed(4)}</strong>
+    (base rate ${percent(report.baseRate)}; a species counts as predicted at ${percent(report.suitableThreshold)}).</p>
+
+  <h2>Reliability</h2>
+  <svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
+    <line x1="0" y1="${size}" x2="${size}" y2="0" stroke="#9ca3af" stroke-dasharray="4 4" />
+    <polyline points="${points}" fill="none" stroke="#16a34a" stroke-width="2" />
+  </svg>
+  <table>
+    <tr><th>Predicted</th><th>Samples</th><th>Mean predicted</th><th>Observed</th></tr>${binRows}
+  </table>
+
+  <h2>Species</h2>
+  <table>
+    <tr><th>Species</th><th>Samples</th><th>Finds</th><th>Empty visits</th><th>Mean predicted</th><th>Brier</th><th>Hit rate</th><th>False alarms</th></tr>${speciesRows}
+  </table>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
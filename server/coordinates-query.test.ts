@@ -0,0 +1,32 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, type TestServer } from "./fixtures/test-server";
+
+// Keep elevation lookups offline; the elevation service reads this when first imported
+process.env.SWISS_HEIGHT_URL = "off";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+describe("coordinate queries", () => {
+  const nearby = (query: string) => server.send("", "GET", `/api/locations/nearby?${query}`);
+
+  it("uses the default radius when none is given", async () => {
+    const res = await nearby("lat=47.3769&lng=8.5417");
+    expect(res.status).toBe(200);
+  });
+
+  it("reads a point in LV95", async () => {
+    const res = await nearby("crs=lv95&e=2683250&n=1247980&radius=5");
+    expect(res.status).toBe(200);
+  });
+
+  it.each(["-5", "0", "abc", "5km", "", "51"])("refuses radius=%j", async radius => {
+    const res = await nearby(`lat=47.3769&lng=8.5417&radius=${radius}`);
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,32 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Postgres driver Drizzle supports; DbStorage only uses the common query builder
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Create a Drizzle client for the given Postgres connection string. Neon databases
+ * are reached over its serverless websocket driver, anything else (a local or
+ * self-hosted Postgres) over node-postgres.
+ */
+export function createDb(connectionString: string): Database {
+  if (isNeonUrl(connectionString)) {
+    return drizzleNeon({ client: new NeonPool({ connectionString }), schema });
+  }
+  return drizzleNodePg({ client: new pg.Pool({ connectionString }), schema });
+}
+
+function isNeonUrl(connectionString: string): boolean {
+  try {
+    return new URL(connectionString).hostname.endsWith(".neon.tech");
+  } catch {
+    return false;
+  }
+}
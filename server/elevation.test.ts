@@ -0,0 +1,142 @@
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { writeArrayBuffer } from "geotiff";
+import { afterAll, describe, expect, it } from "vitest";
+import { lv95ToWgs84, wgs84ToLv95 } from "@shared/swiss-coordinates";
+import { ElevationService, SwissHeightClient } from "./elevation";
+import { StubHeightClient } from "./fixtures/height-service";
+
+const demDir = fs.mkdtempSync(path.join(os.tmpdir(), "pilztastic-dem-"));
+afterAll(() => fs.rmSync(demDir, { recursive: true, force: true }));
+
+// A 5x5 tile of 25 m cells around Sihlwald, rising 5 m per cell to the east
+const sihlwald = { lat: 47.2667, lng: 8.55 };
+const centre = wgs84ToLv95(sihlwald.lat, sihlwald.lng);
+const xll = Math.round(centre.east) - 62.5;
+const yll = Math.round(centre.north) - 62.5;
+const rows = Array.from({ length: 5 }, () => [0, 1, 2, 3, 4].map(col => 500 + col * 5).join(" "));
+fs.writeFileSync(
+  path.join(demDir, "sihlwald.asc"),
+  `ncols 5\nnrows 5\nxllcorner ${xll}\nyllcorner ${yll}\ncellsize 25\nNODATA_value -9999\n${rows.join("\n")}\n`,
+);
+
+// The same tile as a GeoTIFF around Uetliberg, rising 5 m per cell to the north, with
+// its south-west cell missing
+const uetliberg = { lat: 47.35, lng: 8.49 };
+const uetlibergCentre = wgs84ToLv95(uetliberg.lat, uetliberg.lng);
+const tiffWest = Math.round(uetlibergCentre.east) - 62.5;
+const tiffTop = Math.round(uetlibergCentre.north) + 62.5;
+const tiffValues = Float32Array.from({ length: 25 }, (_, i) => (i === 20 ? -9999 : 800 - Math.floor(i / 5) * 5));
+fs.writeFileSync(
+  path.join(demDir, "uetliberg.tif"),
+  Buffer.from(writeArrayBuffer(tiffValues, {
+    width: 5,
+    height: 5,
+    ModelPixelScale: [25, 25, 0],
+    ModelTiepoint: [0, 0, 0, tiffWest, tiffTop, 0],
+    GTModelTypeGeoKey: 1,
+    ProjectedCSTypeGeoKey: 2056,
+    GDAL_NODATA: "-9999",
+  })),
+);
+
+// Heights as the height service gives them: a slope rising 1 m per 10 m to the north,
+// with nothing outside a 10 km square around Sihlwald
+const northSlope = (east: number, north: number) =>
+  Math.abs(east - centre.east) > 5000 || Math.abs(north - centre.north) > 5000 ? null : 800 + (north - centre.north) / 10;
+
+describe("ElevationService", () => {
+  it("interpolates elevation, slope and aspect from local tiles", async () => {
+    const heights = new StubHeightClient(northSlope);
+    const service = new ElevationService(demDir, "lv95", heights);
+
+    const terrain = await service.getTerrain(sihlwald.lat, sihlwald.lng);
+    expect(terrain).toMatchObject({ slope: 11.3, aspect: 270, cellSize: 25, source: "local DEM" });
+    expect(terrain!.elevation).toBeGreaterThan(505);
+    expect(terrain!.elevation).toBeLessThan(515);
+    expect(await service.getDemElevation(sihlwald.lat, sihlwald.lng)).toBe(terrain!.elevation);
+    expect(heights.requests).toBe(0);
+  });
+
+  it("reads GeoTIFF tiles next to ASCII grids", async () => {
+    const heights = new StubHeightClient(northSlope);
+    const service = new ElevationService(demDir, "lv95", heights);
+
+    const terrain = await service.getTerrain(uetliberg.lat, uetliberg.lng);
+    expect(terrain).toMatchObject({ slope: 11.3, aspect: 180, cellSize: 25, source: "local DEM" });
+    expect(terrain!.elevation).toBeGreaterThan(785);
+    expect(terrain!.elevation).toBeLessThan(795);
+
+    // Next to the missing south-west cell the nearest cell with data stands in; inside it there is none
+    const nearMissing = lv95ToWgs84(tiffWest + 17.5, tiffTop - 92.5);
+    expect(await service.getDemElevation(nearMissing.lat, nearMissing.lng)).toBe(785);
+    const missing = lv95ToWgs84(tiffWest + 12.5, tiffTop - 112.5);
+    expect(await service.getDemElevation(missing.lat, missing.lng)).toBeNull();
+    expect(heights.requests).toBe(0);
+  });
+
+  it("asks the height service outside the local tiles", async () => {
+    const heights = new StubHeightClient(northSlope);
+    const service = new ElevationService(demDir, "lv95", heights);
+
+    // About 1 km north of the tile
+    const terrain = await service.getTerrain(sihlwald.lat + 0.01, sihlwald.lng);
+    expect(terrain).toMatchObject({ slope: 5.7, aspect: 180, cellSize: 25, source: "height service" });
+    expect(await service.getElevation(sihlwald.lat + 0.01, sihlwald.lng)).toBeCloseTo(911, 0);
+    expect(await service.getDemElevation(sihlwald.lat + 0.01, sihlwald.lng)).toBeNull();
+
+    expect(await service.getElevation(sihlwald.lat + 1, sihlwald.lng)).toBeNull();
+    expect(await service.getTerrain(sihlwald.lat + 1, sihlwald.lng)).toBeNull();
+  });
+
+  it("looks up a row of points in one profile request where the local tiles do not cover them", async () => {
+    const heights = new StubHeightClient(northSlope);
+    const service = new ElevationService(demDir, "lv95", heights);
+
+    // Seven points 50 m apart across the tile, the middle three inside it
+    const row = await service.getLineElevations(
+      { east: centre.east - 150, north: centre.north },
+      { east: centre.east + 150, north: centre.north },
+      7,
+    );
+    expect(heights.requests).toBe(1);
+    expect([row[0], row[1], row[5], row[6]]).toEqual([800, 800, 800, 800]);
+    expect(row[3]).toBe(await service.getDemElevation(sihlwald.lat, sihlwald.lng));
+    expect(row[2]! < row[3]! && row[3]! < row[4]!).toBe(true);
+
+    // Beyond the service's coverage too
+    const outside = await service.getLineElevations(
+      { east: centre.east + 6000, north: centre.north },
+      { east: centre.east + 6100, north: centre.north },
+      3,
+    );
+    expect(outside).toEqual([null, null, null]);
+  });
+
+  it("treats a failing height service as no coverage", async () => {
+    class FailingHeightClient extends SwissHeightClient {
+      protected async fetchJson<T>(): Promise<T | null> {
+        throw new Error("Height service request failed: 503");
+      }
+    }
+    const service = new ElevationService(path.join(demDir, "missing"), "lv95", new FailingHeightClient());
+    expect(await service.getElevation(sihlwald.lat, sihlwald.lng)).toBeNull();
+  });
+});
+
+describe("SwissHeightClient", () => {
+  it("gives up on a service that does not answer in time", async () => {
+    const silent = http.createServer(() => {});
+    await new Promise<void>(resolve => silent.listen(0, resolve));
+    try {
+      const client = new SwissHeightClient(`http://127.0.0.1:${(silent.address() as AddressInfo).port}`, 50);
+      expect(await client.getHeight(centre.east, centre.north)).toBeNull();
+    } finally {
+      silent.closeAllConnections();
+      silent.close();
+    }
+  });
+});
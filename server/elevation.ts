@@ -0,0 +1,479 @@
+import fs from "fs/promises";
+import path from "path";
+import { fromFile } from "geotiff";
+import { lv95ToLv03, wgs84ToLv95, type SwissGridCoordinates } from "@shared/swiss-coordinates";
+import { clamp, roundTo } from "@shared/math";
+
+/**
+ * Elevation, slope and aspect from a local digital elevation model.
+ *
+ * The DEM directory holds GeoTIFF (*.tif) or ESRI ASCII grid (*.asc) tiles in Swiss
+ * grid coordinates, e.g. swissALTI3D or DHM25 resampled to 25-200 m. Tiles may be
+ * LV95 (the default) or LV03, set with DEM_CRS. Only tile headers are read up front;
+ * cell values are loaded when a lookup first falls inside a tile.
+ *
+ * Lookups outside the local tiles, including every lookup when no DEM is installed,
+ * ask the swisstopo height service instead (SWISS_HEIGHT_URL, or SWISS_HEIGHT_URL=off
+ * to stay offline); rows of points go to its profile service in one request each.
+ */
+
+export interface TerrainSample {
+  elevation: number; // metres above sea level
+  slope: number; // degrees from horizontal
+  aspect: number | null; // degrees clockwise from grid north the slope faces; null on flat ground
+  cellSize: number; // metres
+  source: "local DEM" | "height service";
+}
+
+interface DemTileHeader {
+  file: string;
+  format: "asc" | "tiff";
+  ncols: number;
+  nrows: number;
+  xllcorner: number;
+  yllcorner: number;
+  cellSize: number;
+  noData: number;
+}
+
+const HEADER_BYTES = 512;
+const MAX_LOADED_TILES = 8;
+const FLAT_SLOPE_DEGREES = 1;
+const HEIGHT_SERVICE_SPACING = 25; // metres between the points slope is taken over, as DHM25
+const HEIGHT_SERVICE_TIMEOUT_MS = 5000;
+
+type GridSampler = (east: number, north: number) => Promise<number | null>;
+
+// One point of a profile service response
+interface ProfilePoint {
+  dist: number; // metres along the line
+  alts?: { COMB?: number | null; DTM25?: number | null } | null;
+}
+
+class DemTile {
+  constructor(public header: DemTileHeader, private values: Float32Array) {}
+
+  /**
+   * Bilinear interpolation between the four cell centres around a point, falling
+   * back to the nearest cell where a neighbour has no data
+   */
+  sample(east: number, north: number): number | null {
+    const { ncols, nrows, xllcorner, yllcorner, cellSize } = this.header;
+    const column = (east - xllcorner) / cellSize - 0.5;
+    const row = (yllcorner + nrows * cellSize - north) / cellSize - 0.5;
+
+    const col0 = clamp(Math.floor(column), 0, ncols - 1);
+    const row0 = clamp(Math.floor(row), 0, nrows - 1);
+    const col1 = Math.min(col0 + 1, ncols - 1);
+    const row1 = Math.min(row0 + 1, nrows - 1);
+    const dx = clamp(column - col0, 0, 1);
+    const dy = clamp(row - row0, 0, 1);
+
+    const corners = [this.value(col0, row0), this.value(col1, row0), this.value(col0, row1), this.value(col1, row1)];
+    if (corners.some(value => value === null)) {
+      return this.value(clamp(Math.round(column), 0, ncols - 1), clamp(Math.round(row), 0, nrows - 1));
+    }
+
+    const [topLeft, topRight, bottomLeft, bottomRight] = corners as number[];
+    const top = topLeft + (topRight - topLeft) * dx;
+    const bottom = bottomLeft + (bottomRight - bottomLeft) * dx;
+    return top + (bottom - top) * dy;
+  }
+
+  private value(column: number, row: number): number | null {
+    const value = this.values[row * this.header.ncols + column];
+    return value === Math.fround(this.header.noData) || Number.isNaN(value) ? null : value;
+  }
+}
+
+/**
+ * Point heights from the swisstopo height service, which answers from swissALTI3D
+ * and DHM25 in LV95, and heights along a line from its profile service next to it
+ */
+export class SwissHeightClient {
+  constructor(
+    private baseUrl = "https://api3.geo.admin.ch/rest/services/height",
+    private timeoutMs = HEIGHT_SERVICE_TIMEOUT_MS,
+  ) {}
+
+  /**
+   * Height at an LV95 point, or null outside Switzerland or when the service is too slow
+   */
+  async getHeight(east: number, north: number): Promise<number | null> {
+    const body = await this.fetchJson<{ height?: string }>(
+      `${this.baseUrl}?easting=${roundTo(east, 1)}&northing=${roundTo(north, 1)}&sr=2056`,
+    );
+    if (!body) return null;
+    const height = parseFloat(body.height ?? "");
+    return Number.isNaN(height) ? null : height;
+  }
+
+  /**
+   * Heights at count (at least two) evenly spaced LV95 points from start to end, in
+   * one request; null where the service has none
+   */
+  async getProfile(start: SwissGridCoordinates, end: SwissGridCoordinates, count: number): Promise<Array<number | null>> {
+    const geom = JSON.stringify({
+      type: "LineString",
+      coordinates: [[roundTo(start.east, 1), roundTo(start.north, 1)], [roundTo(end.east, 1), roundTo(end.north, 1)]],
+    });
+    const body = await this.fetchJson<ProfilePoint[]>(
+      `${new URL("profile.json", this.baseUrl)}?geom=${encodeURIComponent(geom)}&sr=2056&nb_points=${count}`,
+    );
+
+    const heights: Array<number | null> = Array.from({ length: count }, () => null);
+    const step = Math.hypot(end.east - start.east, end.north - start.north) / (count - 1);
+    for (const point of body ?? []) {
+      // Points the service adds between the requested spacing are skipped
+      const i = Math.round(point.dist / step);
+      const height = point.alts?.COMB ?? point.alts?.DTM25 ?? null;
+      if (i >= 0 && i < count && Math.abs(point.dist - i * step) < step / 4 && height !== null) {
+        heights[i] = height;
+      }
+    }
+    return heights;
+  }
+
+  // The service answers points outside its coverage with a 400
+  protected async fetchJson<T>(url: string): Promise<T | null> {
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+      if (response.status === 400) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Height service request failed: ${response.status}`);
+      }
+      return await response.json();
+    } catch (error) {
+      if ((error as Error).name === "TimeoutError") {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+export class ElevationService {
+  private headers?: Promise<DemTileHeader[]>;
+  private tiles = new Map<string, Promise<DemTile>>();
+
+  constructor(
+    private demPath: string,
+    private crs: "lv95" | "lv03" = "lv95",
+    private heightClient: SwissHeightClient | null = null,
+  ) {}
+
+  /**
+   * Interpolated elevation at a WGS84 point, from the height service where the DEM
+   * has no coverage; null where neither has
+   */
+  async getElevation(lat: number, lng: number): Promise<number | null> {
+    const elevation = await this.getDemElevation(lat, lng);
+    if (elevation !== null) {
+      return elevation;
+    }
+
+    const { east, north } = wgs84ToLv95(lat, lng);
+    const height = await this.remoteHeight(east, north);
+    return height === null ? null : roundTo(height, 1);
+  }
+
+  /**
+   * Interpolated elevation from the local DEM only
+   */
+  async getDemElevation(lat: number, lng: number): Promise<number | null> {
+    const { east, north } = this.toGrid(lat, lng);
+    const elevation = await this.sampleGrid(east, north);
+    return elevation === null ? null : roundTo(elevation, 1);
+  }
+
+  /**
+   * Elevations at count evenly spaced points on an LV95 line, such as a row of grid
+   * cells: from the DEM where it covers them, and the rest from a single height
+   * service profile rather than one request per point
+   */
+  async getLineElevations(start: SwissGridCoordinates, end: SwissGridCoordinates, count: number): Promise<Array<number | null>> {
+    const points = Array.from({ length: count }, (_, i) => {
+      const t = count > 1 ? i / (count - 1) : 0;
+      return { east: start.east + (end.east - start.east) * t, north: start.north + (end.north - start.north) * t };
+    });
+    const elevations = await Promise.all(points.map(point => {
+      const grid = this.crs === "lv03" ? lv95ToLv03(point.east, point.north) : point;
+      return this.sampleGrid(grid.east, grid.north);
+    }));
+
+    const missing = points.map((_, i) => i).filter(i => elevations[i] === null);
+    if (missing.length > 0) {
+      const first = missing[0];
+      const last = missing[missing.length - 1];
+      const remote = await this.remoteProfile(points[first], points[last], last - first + 1);
+      missing.forEach(i => {
+        elevations[i] = remote[i - first];
+      });
+    }
+    return elevations.map(elevation => (elevation === null ? null : roundTo(elevation, 1)));
+  }
+
+  /**
+   * Elevation with slope and aspect from Horn's method over the surrounding 3x3 cells,
+   * or over points 25 m apart from the height service where the DEM has no coverage
+   */
+  async getTerrain(lat: number, lng: number): Promise<TerrainSample | null> {
+    const { east, north } = this.toGrid(lat, lng);
+    const tile = await this.tileAt(east, north);
+    const local = tile && await this.terrainAround(east, north, tile.header.cellSize, "local DEM", (e, n) => this.sampleGrid(e, n));
+    if (local) {
+      return local;
+    }
+
+    const lv95 = wgs84ToLv95(lat, lng);
+    return this.terrainAround(lv95.east, lv95.north, HEIGHT_SERVICE_SPACING, "height service", (e, n) => this.remoteHeight(e, n));
+  }
+
+  private async terrainAround(
+    east: number,
+    north: number,
+    cellSize: number,
+    source: TerrainSample["source"],
+    sample: GridSampler,
+  ): Promise<TerrainSample | null> {
+    const elevation = await sample(east, north);
+    if (elevation === null) {
+      return null;
+    }
+
+    const at = async (dx: number, dy: number) =>
+      (await sample(east + dx * cellSize, north + dy * cellSize)) ?? elevation;
+    const [nw, n, ne, w, e, sw, s, se] = await Promise.all([
+      at(-1, 1), at(0, 1), at(1, 1),
+      at(-1, 0), at(1, 0),
+      at(-1, -1), at(0, -1), at(1, -1),
+    ]);
+
+    const dzEast = ((ne + 2 * e + se) - (nw + 2 * w + sw)) / (8 * cellSize);
+    const dzNorth = ((nw + 2 * n + ne) - (sw + 2 * s + se)) / (8 * cellSize);
+    const slope = toDegrees(Math.atan(Math.sqrt(dzEast * dzEast + dzNorth * dzNorth)));
+    // The slope faces downhill, against the gradient
+    const aspect = slope < FLAT_SLOPE_DEGREES ? null : (toDegrees(Math.atan2(-dzEast, -dzNorth)) + 360) % 360;
+
+    return {
+      elevation: roundTo(elevation, 1),
+      slope: roundTo(slope, 1),
+      aspect: aspect === null ? null : Math.round(aspect),
+      cellSize,
+      source,
+    };
+  }
+
+  // Height service failures count as no coverage, so they never fail the lookup around them
+  private async remoteHeight(east: number, north: number): Promise<number | null> {
+    if (!this.heightClient) {
+      return null;
+    }
+    try {
+      return await this.heightClient.getHeight(east, north);
+    } catch (error) {
+      console.error("Height service lookup failed:", error);
+      return null;
+    }
+  }
+
+  private async remoteProfile(start: SwissGridCoordinates, end: SwissGridCoordinates, count: number): Promise<Array<number | null>> {
+    if (count === 1) {
+      return [await this.remoteHeight(start.east, start.north)];
+    }
+    if (!this.heightClient) {
+      return Array.from({ length: count }, () => null);
+    }
+    try {
+      return await this.heightClient.getProfile(start, end, count);
+    } catch (error) {
+      console.error("Height profile lookup failed:", error);
+      return Array.from({ length: count }, () => null);
+    }
+  }
+
+  private toGrid(lat: number, lng: number) {
+    const lv95 = wgs84ToLv95(lat, lng);
+    return this.crs === "lv03" ? lv95ToLv03(lv95.east, lv95.north) : lv95;
+  }
+
+  private async sampleGrid(east: number, north: number): Promise<number | null> {
+    const tile = await this.tileAt(east, north);
+    return tile ? tile.sample(east, north) : null;
+  }
+
+  private async tileAt(east: number, north: number): Promise<DemTile | null> {
+    const headers = await this.loadHeaders();
+    const header = headers.find(h =>
+      east >= h.xllcorner && east < h.xllcorner + h.ncols * h.cellSize &&
+      north >= h.yllcorner && north < h.yllcorner + h.nrows * h.cellSize,
+    );
+    return header ? this.loadTile(header) : null;
+  }
+
+  private loadHeaders(): Promise<DemTileHeader[]> {
+    if (!this.headers) {
+      this.headers = readTileHeaders(this.demPath);
+      // Allow a later call to retry after a failed read
+      this.headers.catch(() => {
+        this.headers = undefined;
+      });
+    }
+    return this.headers;
+  }
+
+  private loadTile(header: DemTileHeader): Promise<DemTile> {
+    let tile = this.tiles.get(header.file);
+    if (tile) {
+      // Re-insert so the map stays ordered from least to most recently used
+      this.tiles.delete(header.file);
+    } else {
+      const values = header.format === "tiff" ? readTiffValues(header) : readAsciiValues(header);
+      tile = values.then(values => new DemTile(header, values));
+      tile.catch(() => this.tiles.delete(header.file));
+    }
+    this.tiles.set(header.file, tile);
+
+    if (this.tiles.size > MAX_LOADED_TILES) {
+      this.tiles.delete(this.tiles.keys().next().value!);
+    }
+    return tile;
+  }
+}
+
+async function readTileHeaders(demPath: string): Promise<DemTileHeader[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(demPath);
+  } catch (error) {
+    // No DEM installed: every lookup is outside coverage
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const headers: Promise<DemTileHeader>[] = [];
+  for (const name of entries) {
+    const extension = path.extname(name).toLowerCase();
+    if (extension === ".asc") {
+      headers.push(readAsciiHeader(path.join(demPath, name)));
+    } else if (extension === ".tif" || extension === ".tiff") {
+      headers.push(readTiffHeader(path.join(demPath, name)));
+    }
+  }
+  return Promise.all(headers);
+}
+
+async function readAsciiHeader(file: string): Promise<DemTileHeader> {
+  const handle = await fs.open(file, "r");
+  try {
+    const buffer = Buffer.alloc(HEADER_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_BYTES, 0);
+    return parseHeader(file, buffer.toString("ascii", 0, bytesRead)).header;
+  } finally {
+    await handle.close();
+  }
+}
+
+function parseHeader(file: string, text: string): { header: DemTileHeader; dataOffset: number } {
+  const fields = new Map<string, number>();
+  let dataOffset = 0;
+
+  // Header lines are "key value" pairs; the first line that is not one starts the data
+  for (let end = text.indexOf("\n"); end >= 0; end = text.indexOf("\n", dataOffset)) {
+    const match = /^([a-z_]+)\s+(\S+)$/i.exec(text.slice(dataOffset, end).trim());
+    if (!match) break;
+    fields.set(match[1].toLowerCase(), parseFloat(match[2]));
+    dataOffset = end + 1;
+  }
+
+  const cellSize = fields.get("cellsize");
+  const ncols = fields.get("ncols");
+  const nrows = fields.get("nrows");
+  if (!cellSize || !ncols || !nrows) {
+    throw new Error(`${file} is not an ESRI ASCII grid`);
+  }
+
+  // Grids may be anchored at the lower-left cell's corner or its centre
+  const xllcorner = fields.get("xllcorner") ?? fields.get("xllcenter")! - cellSize / 2;
+  const yllcorner = fields.get("yllcorner") ?? fields.get("yllcenter")! - cellSize / 2;
+  if (Number.isNaN(xllcorner) || Number.isNaN(yllcorner)) {
+    throw new Error(`${file} has no lower-left anchor`);
+  }
+
+  return {
+    header: { file, format: "asc", ncols, nrows, xllcorner, yllcorner, cellSize, noData: fields.get("nodata_value") ?? -9999 },
+    dataOffset,
+  };
+}
+
+async function readAsciiValues(header: DemTileHeader): Promise<Float32Array> {
+  const text = await fs.readFile(header.file, "ascii");
+  const { dataOffset } = parseHeader(header.file, text.slice(0, HEADER_BYTES));
+
+  const values = new Float32Array(header.ncols * header.nrows);
+  const pattern = /\S+/g;
+  pattern.lastIndex = dataOffset;
+  let index = 0;
+  let match: RegExpExecArray | null;
+
+  while (index < values.length && (match = pattern.exec(text))) {
+    values[index++] = parseFloat(match[0]);
+  }
+  if (index < values.length) {
+    throw new Error(`${header.file} has ${index} of ${values.length} cells`);
+  }
+  return values;
+}
+
+/**
+ * The grid of a GeoTIFF's first image, which must be north-up with square cells,
+ * as gdalwarp writes them
+ */
+async function readTiffHeader(file: string): Promise<DemTileHeader> {
+  const tiff = await fromFile(file);
+  try {
+    const image = await tiff.getImage();
+    const [west, top] = image.getOrigin();
+    const [xResolution, yResolution] = image.getResolution();
+    if (xResolution <= 0 || Math.abs(xResolution + yResolution) > 1e-6 * xResolution) {
+      throw new Error(`${file} is not a north-up grid with square cells`);
+    }
+
+    const nrows = image.getHeight();
+    return {
+      file,
+      format: "tiff",
+      ncols: image.getWidth(),
+      nrows,
+      xllcorner: west,
+      yllcorner: top - nrows * xResolution,
+      cellSize: xResolution,
+      noData: image.getGDALNoData() ?? -9999,
+    };
+  } finally {
+    await tiff.close();
+  }
+}
+
+async function readTiffValues(header: DemTileHeader): Promise<Float32Array> {
+  const tiff = await fromFile(header.file);
+  try {
+    const image = await tiff.getImage();
+    const [band] = await image.readRasters({ samples: [0] });
+    return band instanceof Float32Array ? band : Float32Array.from(band);
+  } finally {
+    await tiff.close();
+  }
+}
+
+function toDegrees(value: number): number {
+  return (value * 180) / Math.PI;
+}
+
+export const elevationService = new ElevationService(
+  path.resolve(process.env.DEM_PATH || "server/data/dem"),
+  process.env.DEM_CRS === "lv03" ? "lv03" : "lv95",
+  process.env.SWISS_HEIGHT_URL === "off" ? null : new SwissHeightClient(process.env.SWISS_HEIGHT_URL),
+);
@@ -0,0 +1,126 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, type TestServer } from "./fixtures/test-server";
+
+// Photos land in a scratch directory; the photo service reads it when first imported
+const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), "pilztastic-photos-"));
+process.env.PHOTO_UPLOAD_DIR = uploadDir;
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => {
+  server.close();
+  fs.rmSync(uploadDir, { recursive: true, force: true });
+});
+
+const signUp = (username: string) => server.signUp(username);
+const send = (cookie: string, method: string, url: string, body?: unknown) => server.send(cookie, method, url, body);
+
+async function upload(cookie: string, data: Buffer, type = "image/png", name = "find.png") {
+  const form = new FormData();
+  form.append("photo", new Blob([data], { type }), name);
+  return fetch(`${server.baseUrl}/api/finds/photos`, { method: "POST", headers: { cookie }, body: form });
+}
+
+const image = () => sharp({ create: { width: 32, height: 32, channels: 3, background: "#8b5a2b" } }).png().toBuffer();
+const stored = (url: string) => fs.existsSync(path.join(uploadDir, path.basename(url)));
+
+describe("find photos", () => {
+  it("only lets a find link photos its owner uploaded", async () => {
+    const alice = await signUp("alice-photos");
+    const mallory = await signUp("mallory-photos");
+
+    const uploaded = await upload(alice, await image());
+    expect(uploaded.status).toBe(201);
+    const photo = await uploaded.json();
+    expect(stored(photo.photoUrl) && stored(photo.thumbnailUrl)).toBe(true);
+
+    const stolen = await send(mallory, "POST", "/api/finds", { speciesId: "porcini", photoUrl: photo.photoUrl });
+    expect(stolen.status).toBe(400);
+
+    const created = await send(alice, "POST", "/api/finds", {
+      speciesId: "porcini",
+      photoUrl: photo.photoUrl,
+      thumbnailUrl: "/uploads/someone-elses-thumb.jpg",
+    });
+    expect(created.status).toBe(201);
+    expect((await created.json()).thumbnailUrl).toBe(photo.thumbnailUrl);
+
+    // Deleting a find of one's own that names another user's photo must not remove it
+    const decoy = await send(mallory, "POST", "/api/finds", { speciesId: "morel" });
+    const decoyId = (await decoy.json()).id;
+    expect((await send(mallory, "PATCH", `/api/finds/${decoyId}`, { photoUrl: photo.photoUrl })).status).toBe(400);
+    expect((await send(mallory, "DELETE", `/api/finds/${decoyId}`)).status).toBe(204);
+    expect(stored(photo.photoUrl)).toBe(true);
+  });
+
+  it("deletes photos that are replaced, cleared or whose find is deleted", async () => {
+    const cookie = await signUp("bob-photos");
+    const first = await (await upload(cookie, await image())).json();
+    const second = await (await upload(cookie, await image())).json();
+
+    const find = await (await send(cookie, "POST", "/api/finds", { speciesId: "porcini", photoUrl: first.photoUrl })).json();
+
+    // Resending the current photo keeps it
+    expect((await send(cookie, "PATCH", `/api/finds/${find.id}`, { photoUrl: first.photoUrl, notes: "Edited" })).status).toBe(200);
+    expect(stored(first.photoUrl)).toBe(true);
+
+    expect((await send(cookie, "PATCH", `/api/finds/${find.id}`, { photoUrl: second.photoUrl })).status).toBe(200);
+    expect(stored(first.photoUrl) || stored(first.thumbnailUrl)).toBe(false);
+
+    const cleared = await send(cookie, "PATCH", `/api/finds/${find.id}`, { photoUrl: null });
+    expect(await cleared.json()).toMatchObject({ photoUrl: null, thumbnailUrl: null });
+    expect(stored(second.photoUrl)).toBe(false);
+
+    const third = await (await upload(cookie, await image())).json();
+    await send(cookie, "PATCH", `/api/finds/${find.id}`, { photoUrl: third.photoUrl });
+    expect((await send(cookie, "DELETE", `/api/finds/${find.id}`)).status).toBe(204);
+    expect(stored(third.photoUrl)).toBe(false);
+  });
+
+  it("serves photos that keep their position only to their uploader", async () => {
+    const owner = await signUp("dan-photos");
+    const other = await signUp("erin-photos");
+    const form = new FormData();
+    form.append("photo", new Blob([await image()], { type: "image/png" }), "find.png");
+    form.append("keepLocation", "true");
+    const photo = await (await fetch(`${server.baseUrl}/api/finds/photos`, { method: "POST", headers: { cookie: owner }, body: form })).json();
+    expect(photo.photoUrl).toMatch(/^\/uploads\/\.located\//);
+    expect(stored(photo.thumbnailUrl)).toBe(true);
+
+    const get = (url: string, cookie = "") => fetch(`${server.baseUrl}${url}`, { headers: { cookie } });
+    expect((await get(photo.photoUrl, owner)).status).toBe(200);
+    expect((await get(photo.photoUrl, other)).status).toBe(404);
+    expect((await get(photo.photoUrl)).status).toBe(401);
+    expect((await get(photo.photoUrl.replace("/.located/", "/%2Elocated/"), other)).status).toBe(404);
+    expect((await get(photo.photoUrl.replace("/.located/", "%2F.located%2F"), other)).status).toBe(404);
+    expect((await get(photo.thumbnailUrl)).status).toBe(200);
+  });
+
+  it("removes uploads no find links once they are a day old", async () => {
+    const { ORPHANED_PHOTO_TTL_MS, removeOrphanedPhotos } = await import("./photo-cleanup");
+    const cookie = await signUp("fay-photos");
+    const kept = await (await upload(cookie, await image())).json();
+    const abandoned = await (await upload(cookie, await image())).json();
+    await send(cookie, "POST", "/api/finds", { speciesId: "porcini", photoUrl: kept.photoUrl });
+
+    expect(await removeOrphanedPhotos()).toBe(0);
+    expect(await removeOrphanedPhotos(new Date(Date.now() + ORPHANED_PHOTO_TTL_MS + 1000))).toBeGreaterThan(0);
+    expect(stored(abandoned.photoUrl) || stored(abandoned.thumbnailUrl)).toBe(false);
+    expect(stored(kept.photoUrl) && stored(kept.thumbnailUrl)).toBe(true);
+  });
+
+  it("rejects uploads that are not usable images", async () => {
+    const cookie = await signUp("carol-photos");
+    expect((await upload(cookie, Buffer.from("just text"), "text/plain", "notes.txt")).status).toBe(400);
+    expect((await upload(cookie, Buffer.from("not really a jpeg"), "image/jpeg", "broken.jpg")).status).toBe(400);
+    expect((await upload(cookie, Buffer.alloc(16 * 1024 * 1024), "image/jpeg", "huge.jpg")).status).toBe(413);
+  });
+});
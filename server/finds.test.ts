@@ -0,0 +1,38 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, type TestServer } from "./fixtures/test-server";
+
+// Keep elevation lookups offline; the elevation service reads this when first imported
+process.env.SWISS_HEIGHT_URL = "off";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+describe("finds", () => {
+  it("ignores the owner, verification and admin area sent by the client", async () => {
+    const cookie = await server.signUp("dora-finds");
+    const other = await server.signUp("eve-finds");
+    const otherId = (await (await server.send(other, "GET", "/api/auth/me")).json()).id;
+
+    const created = await server.send(cookie, "POST", "/api/finds", {
+      speciesId: "porcini",
+      latitude: 47.2667,
+      longitude: 8.55,
+      elevation: 600,
+      userId: otherId,
+      verified: true,
+      canton: "Geneva",
+    });
+    expect(created.status).toBe(201);
+    const find = await created.json();
+    expect(find).toMatchObject({ verified: false, canton: "Zurich" });
+    expect(find.userId).not.toBe(otherId);
+
+    const patched = await server.send(cookie, "PATCH", `/api/finds/${find.id}`, { verified: true, canton: "Geneva", notes: "Edited" });
+    expect(await patched.json()).toMatchObject({ verified: false, canton: "Zurich", notes: "Edited" });
+  });
+});
@@ -0,0 +1,100 @@
+import type { ForagingLocation, WeatherData } from "@shared/schema";
+import type { IStorage } from "../storage";
+
+/**
+ * Synthetic foraging locations spread over Switzerland, each with hourly weather
+ * readings, for measuring the nearby and map endpoints at realistic volumes in
+ * the benchmarks and tests. The same count and seed always produce the same data.
+ */
+
+const FOREST_TYPES: Array<{ forestType: string; treeSpecies: string[] }> = [
+  { forestType: "Conifer", treeSpecies: ["Spruce", "Fir", "Pine"] },
+  { forestType: "Hardwood", treeSpecies: ["Beech", "Oak", "Maple"] },
+  { forestType: "Mixed", treeSpecies: ["Beech", "Spruce", "Fir"] },
+];
+
+export function createBenchmarkData(
+  count: number,
+  options: { readingsPerLocation?: number; seed?: number; now?: Date } = {},
+): { locations: ForagingLocation[]; weather: WeatherData[] } {
+  const random = mulberry32(options.seed ?? 1);
+  const readingsPerLocation = options.readingsPerLocation ?? 24;
+  const now = options.now ?? new Date();
+
+  const locations: ForagingLocation[] = [];
+  const weather: WeatherData[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const forest = FOREST_TYPES[Math.floor(random() * FOREST_TYPES.length)];
+    const elevation = Math.round(400 + random() * 1400);
+    const location: ForagingLocation = {
+      id: `benchmark-${i}`,
+      name: `Benchmark Spot ${i}`,
+      latitude: 45.85 + random() * 1.9,
+      longitude: 6.0 + random() * 4.4,
+      elevation,
+      forestType: forest.forestType,
+      treeSpecies: forest.treeSpecies,
+      accessibility: "moderate",
+      parkingAvailable: false,
+      description: null,
+      municipality: null,
+      canton: null,
+      createdAt: now,
+    };
+    locations.push(location);
+
+    // Cooler and wetter with height, with some noise per reading
+    const baseTemperature = 20 - elevation * 0.0065;
+    for (let hour = 0; hour < readingsPerLocation; hour++) {
+      weather.push({
+        id: `benchmark-${i}-${hour}`,
+        locationId: location.id,
+        stationId: null,
+        source: "open-meteo",
+        timestamp: new Date(now.getTime() - hour * 60 * 60 * 1000),
+        temperature: Math.round((baseTemperature + (random() - 0.5) * 6) * 10) / 10,
+        humidity: Math.round(60 + random() * 40),
+        soilTemperature: Math.round((baseTemperature - 3) * 10) / 10,
+        precipitation: random() < 0.15 ? Math.round(random() * 40) / 10 : 0,
+        windSpeed: Math.round(random() * 200) / 10,
+        pressure: Math.round(1013 - elevation * 0.12),
+        lastRainfall: null,
+      });
+    }
+  }
+
+  return { locations, weather };
+}
+
+/**
+ * Store the synthetic data through IStorage, which assigns its own ids, and return
+ * the stored locations
+ */
+export async function loadBenchmarkData(
+  storage: IStorage,
+  count: number,
+  options: Parameters<typeof createBenchmarkData>[1] = {},
+): Promise<ForagingLocation[]> {
+  const { locations, weather } = createBenchmarkData(count, options);
+  const stored = new Map<string, ForagingLocation>();
+
+  for (const { id, createdAt, ...location } of locations) {
+    stored.set(id, await storage.createForagingLocation(location));
+  }
+  for (const { id, locationId, timestamp, ...reading } of weather) {
+    await storage.createWeatherData({ ...reading, source: "open-meteo", locationId: stored.get(locationId!)!.id }, timestamp!);
+  }
+  return Array.from(stored.values());
+}
+
+// Small seeded PRNG; Math.random cannot be seeded
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
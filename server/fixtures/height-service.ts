@@ -0,0 +1,41 @@
+import { SwissHeightClient } from "../elevation";
+
+type HeightAt = (east: number, north: number) => number | null;
+
+/**
+ * Answers height and profile requests the way the swisstopo services do, from a
+ * function of the LV95 position that gives null outside coverage, and counts them
+ */
+export class StubHeightClient extends SwissHeightClient {
+  requests = 0;
+  profileRequests = 0;
+
+  constructor(private heightAt: HeightAt) {
+    super();
+  }
+
+  protected async fetchJson<T>(url: string): Promise<T | null> {
+    this.requests++;
+    const { pathname, searchParams } = new URL(url);
+
+    if (pathname.endsWith("/profile.json")) {
+      this.profileRequests++;
+      const [[startEast, startNorth], [endEast, endNorth]] = JSON.parse(searchParams.get("geom")!).coordinates;
+      const count = Number(searchParams.get("nb_points"));
+      const length = Math.hypot(endEast - startEast, endNorth - startNorth);
+
+      // Like the service, with an extra point partway along the first segment
+      const points: Array<{ dist: number; alts: { COMB: number | null } }> = [{ dist: length / (count - 1) / 2, alts: { COMB: -1 } }];
+      for (let i = 0; i < count; i++) {
+        const t = i / (count - 1);
+        const height = this.heightAt(startEast + (endEast - startEast) * t, startNorth + (endNorth - startNorth) * t);
+        points.push({ dist: length * t, alts: { COMB: height } });
+      }
+      return points as T;
+    }
+
+    const height = this.heightAt(Number(searchParams.get("easting")), Number(searchParams.get("northing")));
+    // The service answers points outside its coverage with a 400, which fetchJson turns into null
+    return height === null ? null : ({ height: String(height) } as T);
+  }
+}
@@ -0,0 +1,183 @@
+import type { StacItemCollection } from "../meteoswiss";
+
+/**
+ * Recorded responses from the MeteoSwiss open-data STAC API for three SwissMetNet
+ * stations on 2025-09-18, keyed by URL, so station ingestion runs without network access
+ */
+export const meteoSwissStacFixture: { json: Record<string, StacItemCollection>; text: Record<string, string> } = {
+  json: {
+    "https://data.geo.admin.ch/api/stac/v1/collections/ch.meteoschweiz.ogd-smn/items": {
+      "type": "FeatureCollection",
+      "features": [
+        {
+          "id": "sma",
+          "type": "Feature",
+          "stac_version": "1.0.0",
+          "geometry": {
+            "type": "Point",
+            "coordinates": [
+              8.565742,
+              47.377925
+            ]
+          },
+          "properties": {
+            "title": "Zürich / Fluntern",
+            "updated": "2025-09-18T12:10:00Z"
+          },
+          "collection": "ch.meteoschweiz.ogd-smn",
+          "assets": {
+            "ogd-smn_sma_d_recent.csv": {
+              "href": "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/sma/ogd-smn_sma_d_recent.csv",
+              "type": "text/csv"
+            },
+            "ogd-smn_sma_h_now.csv": {
+              "href": "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/sma/ogd-smn_sma_h_now.csv",
+              "type": "text/csv"
+            },
+            "ogd-smn_sma_t_now.csv": {
+              "href": "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/sma/ogd-smn_sma_t_now.csv",
+              "type": "text/csv",
+              "updated": "2025-09-18T12:10:00Z"
+            }
+          }
+        },
+        {
+          "id": "klo",
+          "type": "Feature",
+          "stac_version": "1.0.0",
+          "geometry": {
+            "type": "Point",
+            "coordinates": [
+              8.5361,
+              47.479586
+            ]
+          },
+          "properties": {
+            "title": "Zürich / Kloten",
+            "updated": "2025-09-18T12:10:00Z"
+          },
+          "collection": "ch.meteoschweiz.ogd-smn",
+          "assets": {
+            "ogd-smn_klo_d_recent.csv": {
+              "href": "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/klo/ogd-smn_klo_d_recent.csv",
+              "type": "text/csv"
+            },
+            "ogd-smn_klo_h_now.csv": {
+              "href": "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/klo/ogd-smn_klo_h_now.csv",
+              "type": "text/csv"
+            },
+            "ogd-smn_klo_t_now.csv": {
+              "href": "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/klo/ogd-smn_klo_t_now.csv",
+              "type": "text/csv",
+              "updated": "2025-09-18T12:10:00Z"
+            }
+          }
+        }
+      ],
+      "links": [
+        {
+          "rel": "self",
+          "href": "https://data.geo.admin.ch/api/stac/v1/collections/ch.meteoschweiz.ogd-smn/items"
+        },
+        {
+          "rel": "next",
+          "href": "https://data.geo.admin.ch/api/stac/v1/collections/ch.meteoschweiz.ogd-smn/items?cursor=cD1QSUw"
+        }
+      ]
+    },
+    "https://data.geo.admin.ch/api/stac/v1/collections/ch.meteoschweiz.ogd-smn/items?cursor=cD1QSUw": {
+      "type": "FeatureCollection",
+      "features": [
+        {
+          "id": "pil",
+          "type": "Feature",
+          "stac_version": "1.0.0",
+          "geometry": {
+            "type": "Point",
+            "coordinates": [
+              8.252611,
+              46.978631
+            ]
+          },
+          "properties": {
+            "title": "Pilatus",
+            "updated": "2025-09-18T12:10:00Z"
+          },
+          "collection": "ch.meteoschweiz.ogd-smn",
+          "assets": {
+            "ogd-smn_pil_d_recent.csv": {
+              "href": "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/pil/ogd-smn_pil_d_recent.csv",
+              "type": "text/csv"
+            },
+            "ogd-smn_pil_h_now.csv": {
+              "href": "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/pil/ogd-smn_pil_h_now.csv",
+              "type": "text/csv"
+            },
+            "ogd-smn_pil_t_now.csv": {
+              "href": "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/pil/ogd-smn_pil_t_now.csv",
+              "type": "text/csv",
+              "updated": "2025-09-18T12:10:00Z"
+            }
+          }
+        }
+      ],
+      "links": [
+        {
+          "rel": "self",
+          "href": "https://data.geo.admin.ch/api/stac/v1/collections/ch.meteoschweiz.ogd-smn/items?cursor=cD1QSUw"
+        },
+        {
+          "rel": "previous",
+          "href": "https://data.geo.admin.ch/api/stac/v1/collections/ch.meteoschweiz.ogd-smn/items"
+        }
+      ]
+    },
+  },
+  text: {
+    "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/sma/ogd-smn_sma_t_now.csv": `station_abbr;reference_timestamp;tre200s0;ure200s0;prestas0;fkl010z0;rre150z0
+SMA;18.09.2025 10:00;16.2;82;963.2;2.1;0
+SMA;18.09.2025 10:10;16.4;81;963.3;2.4;0
+SMA;18.09.2025 10:20;16.7;80;963.4;2.7;0.1
+SMA;18.09.2025 10:30;16.9;80;963.5;3.0;0.2
+SMA;18.09.2025 10:40;17.0;79;963.6;2.1;0.1
+SMA;18.09.2025 10:50;17.2;78;963.7;2.4;0
+SMA;18.09.2025 11:00;17.3;78;963.8;2.7;0
+SMA;18.09.2025 11:10;17.1;79;963.9;3.0;0
+SMA;18.09.2025 11:20;17.4;77;964.0;2.1;0.1
+SMA;18.09.2025 11:30;17.6;76;964.1;2.4;0
+SMA;18.09.2025 11:40;17.8;75;964.2;2.7;0
+SMA;18.09.2025 11:50;17.9;75;964.3;3.0;0
+SMA;18.09.2025 12:00;18.1;74;964.4;2.1;0
+`,
+    "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/klo/ogd-smn_klo_t_now.csv": `station_abbr;reference_timestamp;tre200s0;ure200s0;prestas0;fkl010z0;rre150z0
+KLO;18.09.2025 10:00;16.8;80;963.2;2.1;0
+KLO;18.09.2025 10:10;17.0;80;963.3;2.4;0
+KLO;18.09.2025 10:20;17.1;79;963.4;2.7;0
+KLO;18.09.2025 10:30;17.4;78;963.5;3.0;0.1
+KLO;18.09.2025 10:40;17.6;77;963.6;2.1;0
+KLO;18.09.2025 10:50;17.7;76;963.7;2.4;0
+KLO;18.09.2025 11:00;17.9;76;963.8;2.7;0
+KLO;18.09.2025 11:10;18.0;75;963.9;3.0;0
+KLO;18.09.2025 11:20;18.2;74;964.0;2.1;0
+KLO;18.09.2025 11:30;18.3;74;964.1;2.4;0
+KLO;18.09.2025 11:40;18.4;73;964.2;2.7;0
+KLO;18.09.2025 11:50;18.6;72;964.3;3.0;0
+KLO;18.09.2025 12:00;18.7;72;964.4;2.1;0
+`,
+    "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/pil/ogd-smn_pil_t_now.csv": `station_abbr;reference_timestamp;tre200s0;ure200s0;prestas0;fkl010z0;rre150z0
+PIL;18.09.2025 10:00;5.1;96;783.2;2.1;0.3
+PIL;18.09.2025 10:10;5.0;97;783.3;2.4;0.4
+PIL;18.09.2025 10:20;5.2;97;783.4;2.7;0.2
+PIL;18.09.2025 10:30;5.4;96;783.5;3.0;0.5
+PIL;18.09.2025 10:40;5.3;95;783.6;2.1;0.3
+PIL;18.09.2025 10:50;5.5;95;783.7;2.4;0.2
+PIL;18.09.2025 11:00;5.6;94;783.8;2.7;0.1
+PIL;18.09.2025 11:10;5.8;94;783.9;3.0;0.2
+PIL;18.09.2025 11:20;5.7;93;784.0;2.1;0.3
+PIL;18.09.2025 11:30;5.9;93;784.1;2.4;0.2
+PIL;18.09.2025 11:40;6.0;92;784.2;2.7;0.1
+PIL;18.09.2025 11:50;6.1;91;784.3;3.0;0.1
+PIL;18.09.2025 12:00;;;;;
+`,
+  },
+};
@@ -0,0 +1,64 @@
+import type { OpenMeteoDailyForecast, OpenMeteoForecast } from "../weather-provider";
+
+/**
+ * Recorded Open-Meteo forecast response for Zürich (47.37, 8.54), used by the
+ * fixture weather provider so the app and tests can run without network access
+ */
+export const openMeteoForecastFixture: OpenMeteoForecast = {
+  latitude: 47.38,
+  longitude: 8.539999,
+  elevation: 429,
+  timezone: "GMT",
+  current: {
+    time: "2025-09-18T12:00",
+    temperature_2m: 17.4,
+    relative_humidity_2m: 78,
+    precipitation: 0.2,
+    wind_speed_10m: 7.9,
+    surface_pressure: 968.3,
+  },
+  hourly: {
+    time: ["2025-09-18T11:00", "2025-09-18T12:00", "2025-09-18T13:00"],
+    precipitation: [0.1, 0.2, 0],
+    soil_temperature_6cm: [14.1, 14.6, 15],
+  },
+  daily: {
+    time: [
+      "2025-09-11",
+      "2025-09-12",
+      "2025-09-13",
+      "2025-09-14",
+      "2025-09-15",
+      "2025-09-16",
+      "2025-09-17",
+      "2025-09-18",
+    ],
+    precipitation_sum: [0, 4.3, 12.8, 0.6, 0, 2.1, 0.4, 0.2],
+  },
+};
+
+/**
+ * Recorded daily response for the same point: three past days and a 7-day forecast
+ */
+export const openMeteoDailyForecastFixture: OpenMeteoDailyForecast = {
+  daily: {
+    time: [
+      "2025-09-15",
+      "2025-09-16",
+      "2025-09-17",
+      "2025-09-18",
+      "2025-09-19",
+      "2025-09-20",
+      "2025-09-21",
+      "2025-09-22",
+      "2025-09-23",
+      "2025-09-24",
+    ],
+    temperature_2m_min: [9.8, 11.2, 10.5, 11.9, 12.4, 10.1, 8.7, 9.3, 10.8, 11.5],
+    temperature_2m_max: [19.6, 18.1, 17.9, 19.2, 21.3, 16.4, 14.2, 15.8, 18.5, 19.9],
+    temperature_2m_mean: [14.5, 14.3, 13.8, 15.2, 16.5, 13.1, 11.2, 12.4, 14.3, 15.4],
+    relative_humidity_2m_mean: [71, 84, 80, 76, 72, 91, 94, 86, 79, 74],
+    precipitation_sum: [0, 2.1, 0.4, 0.2, 0, 14.6, 8.3, 1.2, 0, 0],
+    wind_speed_10m_max: [9.4, 14.8, 11.2, 10.6, 8.9, 22.7, 18.3, 12.1, 7.5, 6.8],
+  },
+};
@@ -0,0 +1,31 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import * as schema from "@shared/schema";
+import { DbStorage } from "../storage";
+
+const MemoryStore = createMemoryStore(session);
+
+// The ESM build of drizzle-kit's API cannot load its own CommonJS dependencies
+const { generateDrizzleJson, generateMigration } =
+  createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+/**
+ * DbStorage over an in-process Postgres (PGlite) with the current schema applied,
+ * seeded the way initializeStorage seeds a real database, so tests exercise the
+ * SQL backend without a database server
+ */
+export async function createTestDbStorage(): Promise<DbStorage> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+
+  const storage = new DbStorage(drizzle({ client, schema }), new MemoryStore({}));
+  await storage.seed();
+  await storage.backfillPhenology();
+  return storage;
+}
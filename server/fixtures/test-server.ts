@@ -0,0 +1,46 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+
+export interface TestServer {
+  baseUrl: string;
+  close(): void;
+  // Registers a user and returns their session cookie
+  signUp(username: string): Promise<string>;
+  send(cookie: string, method: string, url: string, body?: unknown): Promise<Response>;
+}
+
+/**
+ * The app's routes and auth on a local port. Routes are imported when this is called,
+ * so tests can set the environment the services read on import first.
+ */
+export async function startTestServer(): Promise<TestServer> {
+  const { setupAuth } = await import("../auth");
+  const { registerRoutes } = await import("../routes");
+  const app = express();
+  app.use(express.json());
+  setupAuth(app);
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    close: () => server.close(),
+    async signUp(username) {
+      const res = await fetch(`${baseUrl}/api/auth/register`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ username, password: "correct horse" }),
+      });
+      return res.headers.get("set-cookie")!.split(";")[0];
+    },
+    send(cookie, method, url, body) {
+      return fetch(`${baseUrl}${url}`, {
+        method,
+        headers: { cookie, "content-type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    },
+  };
+}
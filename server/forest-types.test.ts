@@ -0,0 +1,77 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { ForestTypeService, summarizeForest, type ForestTypeCoverage } from "./forest-types";
+
+describe("ForestTypeService", () => {
+  const forestTypes = new ForestTypeService(path.resolve("server/data/forest-regions.geojson"));
+
+  it.each([
+    ["Sihlwald", 47.2667, 8.55, "Mixed"],
+    ["Davos", 46.8027, 9.836, "Conifer"],
+    ["Lugano", 46.0037, 8.9511, "Hardwood"],
+  ])("finds the bundled forest region at %s", async (_place, lat, lng, forestType) => {
+    expect(await forestTypes.getTypeAt(lat, lng)).toMatchObject({ forestType });
+  });
+
+  it("leaves lakes and places outside Switzerland without forest", async () => {
+    expect(await forestTypes.getTypeAt(47.27, 8.62)).toBeNull();
+    expect(await forestTypes.getTypeAt(45.4642, 9.19)).toBeNull();
+  });
+
+  it("counts a regional polygon as its forest share of the area, without naming the stand", async () => {
+    const composition = await forestTypes.getComposition(46.8027, 9.836, 1);
+    expect(composition.forestCoverage).toBe(0.25);
+    expect(composition.types).toHaveLength(1);
+    expect(composition.types[0].coverage).toBe(0.25);
+    expect(composition.standLevel).toBe(false);
+    expect(composition.source).toMatch(/National Forest Inventory/);
+    expect(summarizeForest(composition)).toEqual({ forestType: null, treeSpecies: [] });
+  });
+
+  it("summarizes stand-level polygons from FOREST_TYPES_PATH", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pilztastic-forest-"));
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+    // Beech forest on the western half of a square around Sihlwald, spruce on the eastern
+    const stand = (code: string, forestType: string, treeSpecies: string[], west: number) => ({
+      type: "Feature",
+      properties: { code, name: code, forestType, treeSpecies },
+      geometry: { type: "Polygon", coordinates: [[[west, 47.25], [west + 0.05, 47.25], [west + 0.05, 47.29], [west, 47.29], [west, 47.25]]] },
+    });
+    const file = path.join(dir, "stands.geojson");
+    fs.writeFileSync(file, JSON.stringify({
+      type: "FeatureCollection",
+      source: "test stands",
+      features: [stand("7a", "Hardwood", ["Beech", "Oak"], 8.5), stand("46", "Conifer", ["Spruce", "Fir"], 8.55)],
+    }));
+
+    const composition = await new ForestTypeService(file).getComposition(47.27, 8.55, 1);
+    expect(composition).toMatchObject({ forestCoverage: 1, standLevel: true, source: "test stands" });
+    expect(composition.types.map(type => type.code).sort()).toEqual(["46", "7a"]);
+    expect(summarizeForest(composition)).toEqual({ forestType: "Mixed", treeSpecies: expect.arrayContaining(["Beech", "Spruce"]) });
+  });
+});
+
+describe("summarizeForest", () => {
+  const type = (code: string, forestType: string, coverage: number, treeSpecies: string[]): ForestTypeCoverage =>
+    ({ code, name: code, forestType, treeSpecies, coverage });
+
+  it("calls a forest mixed when conifers and broadleaves each hold a quarter of it", () => {
+    const summary = summarizeForest({
+      forestCoverage: 0.6,
+      standLevel: true,
+      source: "test",
+      types: [
+        type("a", "Conifer", 0.4, ["Spruce", "Fir"]),
+        type("b", "Hardwood", 0.17, ["Beech", "Spruce"]),
+        type("c", "Hardwood", 0.03, ["Oak"]),
+      ],
+    });
+    expect(summary).toEqual({ forestType: "Mixed", treeSpecies: ["Spruce", "Fir", "Beech"] });
+  });
+
+  it("leaves open ground without a forest type", () => {
+    expect(summarizeForest({ forestCoverage: 0, types: [], standLevel: true, source: "test" })).toEqual({ forestType: null, treeSpecies: [] });
+  });
+});
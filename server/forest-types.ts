@@ -0,0 +1,174 @@
+import fs from "fs/promises";
+import path from "path";
+import { PolygonIndex, type PolygonFeature } from "./polygon-index";
+import { roundTo } from "@shared/math";
+
+/**
+ * Forest type composition around a point from a local forest-type polygon dataset.
+ *
+ * The dataset is a WGS84 GeoJSON FeatureCollection using the classification of the
+ * ch.bafu.waldtypisierung layer, with properties { code, name, forestType,
+ * treeSpecies, soilType? }. forestType is the probability engine's category
+ * ("Conifer", "Hardwood" or "Mixed") and treeSpecies lists the dominant trees by
+ * English common name, so both can be stored on a location as they are.
+ *
+ * Polygons covering whole regions rather than stands of forest give forestShare,
+ * the fraction of the polygon that is forest, and each sample inside counts as
+ * that much forest. Such regional data only says how much of an area is forest:
+ * it is not stand-level, so it yields no forestType or treeSpecies for a point.
+ *
+ * The Waldtypisierung polygons are not bundled; set FOREST_TYPES_PATH to a GeoJSON
+ * export of them. The bundled file is regional data only: the five National Forest
+ * Inventory production regions, dissolved from swissBOUNDARIES3D municipalities
+ * with lakes cut out, each with the region's forest share and main tree species
+ * from the inventory. The collection's optional "source" member names the dataset.
+ */
+
+export interface ForestTypeProperties {
+  code: string;
+  name: string;
+  forestType: string;
+  treeSpecies: string[];
+  soilType?: string;
+  forestShare?: number; // 0-1, for regional polygons; stands of forest are all forest
+}
+
+export interface ForestTypeCoverage extends ForestTypeProperties {
+  coverage: number; // fraction of the search area, 0-1
+}
+
+export interface ForestComposition {
+  forestCoverage: number; // fraction of the search area that is forest, 0-1
+  types: ForestTypeCoverage[]; // largest coverage first
+  standLevel: boolean; // false when any type is a regional polygon with a forestShare
+  source: string;
+}
+
+interface ForestTypeDataset {
+  index: PolygonIndex<ForestTypeProperties>;
+  source: string;
+}
+
+const GRID_CELL_DEGREES = 0.01; // roughly 0.8 x 1.1 km in Switzerland
+const SAMPLES_ACROSS = 40; // ~1250 sample points inside the search circle
+const METRES_PER_DEGREE_LAT = 111320;
+const DEFAULT_SOURCE = "BAFU - Swiss Federal Office for the Environment (local Waldtypisierung dataset)";
+
+// Share of the forest each of conifers and broadleaves needs for the area to count as mixed
+const MIXED_FOREST_SHARE = 0.25;
+// Forest types covering less of the forest than this do not contribute their trees
+const TREE_SPECIES_MIN_SHARE = 0.1;
+const MAX_TREE_SPECIES = 5;
+
+export class ForestTypeService {
+  private dataset?: Promise<ForestTypeDataset>;
+
+  constructor(private datasetPath: string) {}
+
+  /**
+   * Coverage of each forest type within radiusKm of a point, estimated by sampling
+   * a regular grid of points across the circle
+   */
+  async getComposition(lat: number, lng: number, radiusKm: number): Promise<ForestComposition> {
+    const { index, source } = await this.load();
+    const spacing = (radiusKm * 2000) / SAMPLES_ACROSS;
+    const metresPerDegreeLng = METRES_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+    const radiusMetres = radiusKm * 1000;
+
+    const counts = new Map<string, { properties: ForestTypeProperties; samples: number }>();
+    let samples = 0;
+    let forestSamples = 0;
+
+    for (let dy = -radiusMetres + spacing / 2; dy < radiusMetres; dy += spacing) {
+      for (let dx = -radiusMetres + spacing / 2; dx < radiusMetres; dx += spacing) {
+        if (dx * dx + dy * dy > radiusMetres * radiusMetres) continue;
+        samples++;
+
+        // Forest-type polygons do not overlap, so the first match is the only one
+        const [properties] = index.containing(lat + dy / METRES_PER_DEGREE_LAT, lng + dx / metresPerDegreeLng);
+        if (!properties) continue;
+        const forest = properties.forestShare ?? 1;
+        forestSamples += forest;
+
+        const count = counts.get(properties.code);
+        if (count) {
+          count.samples += forest;
+        } else {
+          counts.set(properties.code, { properties, samples: forest });
+        }
+      }
+    }
+
+    const types = Array.from(counts.values())
+      .map(({ properties, samples: typeSamples }) => ({ ...properties, coverage: roundTo(typeSamples / samples, 3) }))
+      .sort((a, b) => b.coverage - a.coverage);
+
+    return {
+      forestCoverage: samples > 0 ? roundTo(forestSamples / samples, 3) : 0,
+      types,
+      standLevel: types.every(type => type.forestShare === undefined),
+      source,
+    };
+  }
+
+  /**
+   * The forest type at a point, or null outside any forest. A type with a
+   * forestShare is the region around the point, not the stand at it.
+   */
+  async getTypeAt(lat: number, lng: number): Promise<ForestTypeProperties | null> {
+    const { index } = await this.load();
+    return index.containing(lat, lng)[0] ?? null;
+  }
+
+  private load(): Promise<ForestTypeDataset> {
+    if (!this.dataset) {
+      this.dataset = fs.readFile(this.datasetPath, "utf8").then(contents => {
+        const collection = JSON.parse(contents) as { source?: string; features: PolygonFeature<ForestTypeProperties>[] };
+        return {
+          index: new PolygonIndex(collection.features, GRID_CELL_DEGREES),
+          source: collection.source ?? DEFAULT_SOURCE,
+        };
+      });
+      // Allow a later call to retry after a failed read
+      this.dataset.catch(() => {
+        this.dataset = undefined;
+      });
+    }
+    return this.dataset;
+  }
+}
+
+/**
+ * Reduce a composition to the forestType and treeSpecies stored on a location.
+ * Regional data gives neither, since it cannot tell which forest stands there.
+ */
+export function summarizeForest(composition: ForestComposition): { forestType: string | null; treeSpecies: string[] } {
+  const forestCoverage = composition.types.reduce((total, type) => total + type.coverage, 0);
+  if (forestCoverage === 0 || !composition.standLevel) {
+    return { forestType: null, treeSpecies: [] };
+  }
+
+  const categories = new Map<string, number>();
+  for (const type of composition.types) {
+    categories.set(type.forestType, (categories.get(type.forestType) ?? 0) + type.coverage / forestCoverage);
+  }
+
+  let forestType = Array.from(categories.keys()).sort((a, b) => categories.get(b)! - categories.get(a)!)[0];
+  if ((categories.get("Conifer") ?? 0) >= MIXED_FOREST_SHARE && (categories.get("Hardwood") ?? 0) >= MIXED_FOREST_SHARE) {
+    forestType = "Mixed";
+  }
+
+  const treeSpecies: string[] = [];
+  for (const type of composition.types) {
+    if (type.coverage / forestCoverage < TREE_SPECIES_MIN_SHARE) break;
+    for (const tree of type.treeSpecies) {
+      if (treeSpecies.indexOf(tree) === -1) treeSpecies.push(tree);
+    }
+  }
+
+  return { forestType, treeSpecies: treeSpecies.slice(0, MAX_TREE_SPECIES) };
+}
+
+export const forestTypes = new ForestTypeService(
+  path.resolve(process.env.FOREST_TYPES_PATH || "server/data/forest-regions.geojson"),
+);
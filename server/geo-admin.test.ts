@@ -0,0 +1,23 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { GeoAdminService } from "./geo-admin";
+
+describe("GeoAdminService", () => {
+  const geoAdmin = new GeoAdminService(path.resolve("server/data/admin-boundaries.geojson"));
+
+  it.each([
+    ["Zurich", 47.3769, 8.5417],
+    ["Ticino", 46.0037, 8.9511],
+    ["Geneva", 46.2044, 6.1432],
+    ["Basel-Stadt", 47.5596, 7.5886],
+    ["Appenzell Innerrhoden", 47.331, 9.409],
+    ["Appenzell Ausserrhoden", 47.386, 9.279],
+    ["Graubünden", 46.8508, 9.532],
+  ])("resolves %s from the bundled cantons", async (canton, lat, lng) => {
+    expect(await geoAdmin.resolve(lat, lng)).toEqual({ canton });
+  });
+
+  it("returns nothing outside Switzerland", async () => {
+    expect(await geoAdmin.resolve(45.4642, 9.19)).toEqual({ canton: null });
+  });
+});
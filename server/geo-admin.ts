@@ -0,0 +1,69 @@
+import fs from "fs/promises";
+import path from "path";
+import { PolygonIndex, type PolygonFeature } from "./polygon-index";
+
+/**
+ * Canton resolution from bundled boundary polygons.
+ *
+ * The boundary file is a WGS84 GeoJSON FeatureCollection of Polygon/MultiPolygon
+ * features with properties { level: "canton", name }. The bundled file holds the
+ * 26 cantons from swisstopo swissBOUNDARIES3D (2025), as published in WGS84 and
+ * simplified to ~10 m by the swiss-maps package (BSD-3-Clause). A file generated
+ * elsewhere can be set with ADMIN_BOUNDARIES_PATH.
+ */
+
+export interface AdminArea {
+  canton: string | null;
+}
+
+interface BoundaryProperties {
+  name: string;
+}
+
+const GRID_CELL_DEGREES = 0.05; // roughly 4 x 5.5 km in Switzerland
+
+export class AdminBoundaryIndex {
+  private index: PolygonIndex<BoundaryProperties>;
+
+  constructor(features: PolygonFeature<BoundaryProperties>[]) {
+    this.index = new PolygonIndex(features, GRID_CELL_DEGREES);
+  }
+
+  lookup(lat: number, lng: number): AdminArea {
+    const [canton] = this.index.containing(lat, lng);
+    return { canton: canton?.name ?? null };
+  }
+}
+
+export class GeoAdminService {
+  private index?: Promise<AdminBoundaryIndex>;
+
+  constructor(private boundariesPath: string) {}
+
+  /**
+   * Resolve the canton containing a point. Outside Switzerland, or where the
+   * bundled data has no coverage, it is null.
+   */
+  async resolve(lat: number, lng: number): Promise<AdminArea> {
+    const index = await this.load();
+    return index.lookup(lat, lng);
+  }
+
+  private load(): Promise<AdminBoundaryIndex> {
+    if (!this.index) {
+      this.index = fs.readFile(this.boundariesPath, "utf8").then(contents => {
+        const collection = JSON.parse(contents) as { features: PolygonFeature<BoundaryProperties>[] };
+        return new AdminBoundaryIndex(collection.features);
+      });
+      // Allow a later call to retry after a failed read
+      this.index.catch(() => {
+        this.index = undefined;
+      });
+    }
+    return this.index;
+  }
+}
+
+export const geoAdmin = new GeoAdminService(
+  path.resolve(process.env.ADMIN_BOUNDARIES_PATH || "server/data/admin-boundaries.geojson"),
+);
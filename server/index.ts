@@ -1,10 +1,15 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { initializeStorage } from "./storage";
+import { setupAuth } from "./auth";
+import { weatherIngestion } from "./weather-ingestion";
+import { startPhotoCleanup } from "./photo-cleanup";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+setupAuth(app);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -37,6 +42,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initializeStorage();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,5 +73,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    weatherIngestion.start();
+    startPhotoCleanup();
   });
 })();
@@ -0,0 +1,64 @@
+import { bench, describe } from "vitest";
+import type { ForagingLocation } from "@shared/schema";
+import { calculateDistance } from "@shared/math";
+import { MemStorage } from "./storage";
+import { loadBenchmarkData } from "./fixtures/benchmark-locations";
+import type { BoundingBox } from "./point-index";
+
+/**
+ * Index lookups against a full scan over a realistic number of locations.
+ * Run with `npm run bench`; the index should be well over ten times faster.
+ */
+
+const LOCATIONS = 20_000;
+const QUERIES = 200;
+
+// Map viewports and search circles scattered over Switzerland, the same on every run
+const centres = Array.from({ length: QUERIES }, (_, i) => ({
+  lat: 45.9 + ((i * 37) % 100) / 100 * 1.8,
+  lng: 6.1 + ((i * 61) % 100) / 100 * 4.2,
+}));
+const viewports: BoundingBox[] = centres.map(({ lat, lng }) => ({
+  minLat: lat - 0.05, maxLat: lat + 0.05, minLng: lng - 0.08, maxLng: lng + 0.08,
+}));
+
+let data: Promise<{ storage: MemStorage; all: ForagingLocation[] }> | undefined;
+
+// Loaded once on first use, which the warm-up runs absorb
+function benchmarkData() {
+  if (!data) {
+    data = (async () => {
+      const storage = new MemStorage();
+      await loadBenchmarkData(storage, LOCATIONS, { readingsPerLocation: 0 });
+      return { storage, all: await storage.getForagingLocations() };
+    })();
+  }
+  return data;
+}
+
+describe(`viewport queries over ${LOCATIONS.toLocaleString("en")} locations`, () => {
+  bench("point index", async () => {
+    const { storage } = await benchmarkData();
+    await Promise.all(viewports.map(bounds => storage.getLocationsInBounds(bounds)));
+  });
+
+  bench("full scan", async () => {
+    const { all } = await benchmarkData();
+    viewports.map(bounds => all.filter(l =>
+      l.latitude >= bounds.minLat && l.latitude <= bounds.maxLat &&
+      l.longitude >= bounds.minLng && l.longitude <= bounds.maxLng,
+    ));
+  });
+});
+
+describe(`5 km radius queries over ${LOCATIONS.toLocaleString("en")} locations`, () => {
+  bench("point index", async () => {
+    const { storage } = await benchmarkData();
+    await Promise.all(centres.map(({ lat, lng }) => storage.getNearbyLocations(lat, lng, 5)));
+  });
+
+  bench("full scan", async () => {
+    const { all } = await benchmarkData();
+    centres.map(({ lat, lng }) => all.filter(l => calculateDistance(lat, lng, l.latitude, l.longitude) <= 5));
+  });
+});
@@ -0,0 +1,102 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { ForagingLocation } from "@shared/schema";
+import { calculateDistance } from "@shared/math";
+import { MemStorage } from "./storage";
+import { loadBenchmarkData } from "./fixtures/benchmark-locations";
+import { PointIndex, type BoundingBox, type IndexedPoint } from "./point-index";
+
+const LOCATIONS = 2_000;
+const QUERIES = 50;
+const CELL_DEGREES = 0.02;
+
+// Map viewports and search circles scattered over Switzerland, the same on every run
+const centres = Array.from({ length: QUERIES }, (_, i) => ({
+  lat: 45.9 + ((i * 37) % 100) / 100 * 1.8,
+  lng: 6.1 + ((i * 61) % 100) / 100 * 4.2,
+}));
+const viewports: BoundingBox[] = centres.map(({ lat, lng }) => ({
+  minLat: lat - 0.05, maxLat: lat + 0.05, minLng: lng - 0.08, maxLng: lng + 0.08,
+}));
+
+const ids = (locations: ForagingLocation[]) => locations.map(l => l.id).sort();
+
+const inBox = (point: IndexedPoint, bounds: BoundingBox) =>
+  point.latitude >= bounds.minLat && point.latitude <= bounds.maxLat &&
+  point.longitude >= bounds.minLng && point.longitude <= bounds.maxLng;
+
+describe(`location queries over ${LOCATIONS.toLocaleString("en")} locations`, () => {
+  let storage: MemStorage;
+  let all: ForagingLocation[];
+
+  beforeAll(async () => {
+    storage = new MemStorage();
+    await loadBenchmarkData(storage, LOCATIONS, { readingsPerLocation: 0 });
+    all = await storage.getForagingLocations();
+  }, 60_000);
+
+  it("finds the same locations in a viewport as a full scan", async () => {
+    const indexed = await Promise.all(viewports.map(bounds => storage.getLocationsInBounds(bounds)));
+
+    expect(indexed.map(ids)).toEqual(viewports.map(bounds => ids(all.filter(l => inBox(l, bounds)))));
+    expect(indexed.some(found => found.length > 0)).toBe(true);
+  });
+
+  it("finds the same locations within a radius as a full scan", async () => {
+    const indexed = await Promise.all(centres.map(({ lat, lng }) => storage.getNearbyLocations(lat, lng, 5)));
+
+    expect(indexed.map(ids)).toEqual(centres.map(({ lat, lng }) =>
+      ids(all.filter(l => calculateDistance(lat, lng, l.latitude, l.longitude) <= 5))));
+    expect(indexed.some(found => found.length > 0)).toBe(true);
+  });
+});
+
+describe("PointIndex", () => {
+  // Points that record which of them a query looked at
+  function trackedPoints(locations: ForagingLocation[]) {
+    const visited = new Set<number>();
+    const points = locations.map(({ latitude, longitude }, i) => ({
+      latitude,
+      get longitude() {
+        visited.add(i);
+        return longitude;
+      },
+    }));
+    return { points, visited };
+  }
+
+  let locations: ForagingLocation[];
+
+  beforeAll(async () => {
+    const storage = new MemStorage();
+    await loadBenchmarkData(storage, LOCATIONS, { readingsPerLocation: 0 });
+    locations = await storage.getForagingLocations();
+  }, 60_000);
+
+  it("only looks at points in the cells a viewport overlaps", () => {
+    const { points, visited } = trackedPoints(locations);
+    const index = new PointIndex(CELL_DEGREES, points);
+
+    for (const bounds of viewports) {
+      visited.clear();
+      const found = index.withinBounds(bounds);
+
+      // Every point looked at lies in a cell the box touches, so within a cell of the box
+      const nearBox = {
+        minLat: bounds.minLat - CELL_DEGREES, maxLat: bounds.maxLat + CELL_DEGREES,
+        minLng: bounds.minLng - CELL_DEGREES, maxLng: bounds.maxLng + CELL_DEGREES,
+      };
+      visited.forEach(i => expect(inBox(locations[i], nearBox)).toBe(true));
+      expect(visited.size).toBeGreaterThanOrEqual(found.length);
+      expect(visited.size).toBeLessThan(LOCATIONS / 20);
+    }
+  });
+
+  it("walks the occupied cells for a box larger than the country", () => {
+    const { points, visited } = trackedPoints(locations);
+    const index = new PointIndex(CELL_DEGREES, points);
+    visited.clear();
+
+    expect(index.withinBounds({ minLat: -90, maxLat: 90, minLng: -180, maxLng: 180 })).toHaveLength(locations.length);
+    expect(visited.size).toBe(locations.length);
+  });
+});
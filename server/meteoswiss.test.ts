@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { meteoSwissStacFixture } from "./fixtures/meteoswiss-stac";
+
+// Keep elevation lookups offline; the elevation service reads this when first imported
+process.env.SWISS_HEIGHT_URL = "off";
+
+let meteoswiss: typeof import("./meteoswiss");
+let storage: typeof import("./storage").storage;
+
+beforeAll(async () => {
+  meteoswiss = await import("./meteoswiss");
+  ({ storage } = await import("./storage"));
+});
+
+const csv = (stationId: string) =>
+  meteoSwissStacFixture.text[`https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/${stationId}/ogd-smn_${stationId}_t_now.csv`];
+
+describe("parseSmnCsv", () => {
+  it("reads recorded 10-minute rows in UTC with wind in km/h", () => {
+    const observations = meteoswiss.parseSmnCsv(csv("sma"));
+    expect(observations).toHaveLength(13);
+    expect(observations[0]).toEqual({
+      stationId: "SMA",
+      observedAt: new Date("2025-09-18T10:00:00Z"),
+      temperature: 16.2,
+      humidity: 82,
+      pressure: 963.2,
+      windSpeed: 7.6,
+      precipitation: 0,
+    });
+  });
+
+  it("keeps empty fields as missing and sorts rows oldest first", () => {
+    const [header, ...rows] = csv("pil").trim().split("\n");
+    const observations = meteoswiss.parseSmnCsv([header, ...rows.reverse()].join("\r\n"));
+    expect(observations.map(o => o.observedAt.toISOString()).slice(-2)).toEqual([
+      "2025-09-18T11:50:00.000Z",
+      "2025-09-18T12:00:00.000Z",
+    ]);
+    expect(observations[observations.length - 1]).toMatchObject({ temperature: null, humidity: null, precipitation: null });
+  });
+
+  it("returns nothing for an empty file", () => {
+    expect(meteoswiss.parseSmnCsv("")).toEqual([]);
+  });
+});
+
+describe("ingestStationObservations", () => {
+  it("stores each station's latest complete observation once", async () => {
+    const client = new meteoswiss.FixtureMeteoSwissStacClient();
+    expect((await client.listStationItems()).map(item => item.id)).toEqual(["sma", "klo", "pil"]);
+
+    expect(await meteoswiss.ingestStationObservations(client)).toEqual({ stationsTotal: 3, stored: 3, unchanged: 0, failures: [] });
+
+    const readings = await storage.getLatestStationReadings(new Date("2025-09-18T00:00:00Z"));
+    const byStation = new Map(readings.map(reading => [reading.stationId, reading]));
+    expect(byStation.get("SMA")).toMatchObject({ timestamp: new Date("2025-09-18T12:00:00Z"), temperature: 18.1, precipitation: 0.1 });
+    // The 12:00 row at Pilatus has no values yet, so 11:50 is the latest observation
+    expect(byStation.get("PIL")).toMatchObject({ timestamp: new Date("2025-09-18T11:50:00Z"), temperature: 6.1, precipitation: 1 });
+
+    expect(await meteoswiss.ingestStationObservations(client)).toMatchObject({ stored: 0, unchanged: 3 });
+  });
+
+  it("records stations whose data file cannot be read", async () => {
+    const { "https://data.geo.admin.ch/ch.meteoschweiz.ogd-smn/klo/ogd-smn_klo_t_now.csv": _missing, ...text } = meteoSwissStacFixture.text;
+    const client = new meteoswiss.FixtureMeteoSwissStacClient({ ...meteoSwissStacFixture, text });
+
+    const result = await meteoswiss.ingestStationObservations(client);
+    expect(result.failures).toEqual([{ stationId: "KLO", error: expect.stringMatching(/No recorded data file/) }]);
+  });
+});
+
+describe("MeteoSwissWeatherProvider", () => {
+  it("reports the nearest station's latest observation and recent rain", async () => {
+    const provider = new meteoswiss.MeteoSwissWeatherProvider(new meteoswiss.FixtureMeteoSwissStacClient());
+
+    expect(await provider.getCurrentWeather(47.377925, 8.565742)).toMatchObject({
+      temperature: 18.1,
+      humidity: 74,
+      precipitation: 0.1,
+      lastRainfall: null,
+      source: "meteoswiss",
+      observedAt: new Date("2025-09-18T12:00:00Z"),
+    });
+    // Pilatus had 2.9 mm in the recorded hours
+    expect(await provider.getCurrentWeather(46.978631, 8.252611)).toMatchObject({ temperature: 6.1, lastRainfall: 0 });
+    expect(await provider.getCurrentWeather(45.4642, 9.19)).toBeNull();
+  });
+});
@@ -0,0 +1,316 @@
+import { storage } from "./storage";
+import { elevationService } from "./elevation";
+import { correctTemperatureForElevation, stationRegistry } from "./weather-stations";
+import { meteoSwissStacFixture } from "./fixtures/meteoswiss-stac";
+import type { CurrentWeather, CurrentWeatherSource } from "./weather-provider";
+import type { StationIngestionResult } from "@shared/schema";
+
+/**
+ * SwissMetNet observations from the MeteoSwiss open-data STAC API. Each station is
+ * a STAC item in the ch.meteoschweiz.ogd-smn collection whose *_t_now.csv asset holds
+ * the latest 10-minute values, semicolon separated with UTC timestamps.
+ */
+
+export interface StacAsset {
+  href: string;
+  type?: string;
+  updated?: string;
+}
+
+export interface StacItem {
+  id: string;
+  type: "Feature";
+  geometry: { type: "Point"; coordinates: [number, number] } | null;
+  properties: { title?: string; updated?: string };
+  assets: Record<string, StacAsset>;
+  [key: string]: unknown;
+}
+
+export interface StacItemCollection {
+  type: "FeatureCollection";
+  features: StacItem[];
+  links: Array<{ rel: string; href: string; [key: string]: unknown }>;
+}
+
+export interface SmnObservation {
+  stationId: string;
+  observedAt: Date;
+  temperature: number | null; // °C at 2 m
+  humidity: number | null; // % at 2 m
+  pressure: number | null; // hPa at station level
+  windSpeed: number | null; // km/h, 10-minute mean
+  precipitation: number | null; // mm over the 10 minutes
+}
+
+const COLLECTION = "ch.meteoschweiz.ogd-smn";
+const MAX_ITEM_PAGES = 20;
+
+export class MeteoSwissStacClient {
+  readonly name: string = "MeteoSwiss SwissMetNet";
+
+  constructor(private baseUrl = "https://data.geo.admin.ch/api/stac/v1") {}
+
+  /**
+   * Every station item in the collection, following the API's next-page links
+   */
+  async listStationItems(): Promise<StacItem[]> {
+    const items: StacItem[] = [];
+    let url: string | undefined = `${this.baseUrl}/collections/${COLLECTION}/items`;
+
+    for (let page = 0; url && page < MAX_ITEM_PAGES; page++) {
+      const collection: StacItemCollection = await this.fetchJson(url);
+      items.push(...collection.features);
+      url = collection.links.find(link => link.rel === "next")?.href;
+    }
+    return items;
+  }
+
+  async getStationItem(stationId: string): Promise<StacItem> {
+    return this.fetchJson(`${this.baseUrl}/collections/${COLLECTION}/items/${stationId.toLowerCase()}`);
+  }
+
+  /**
+   * The station's 10-minute observations from the current-day asset, oldest first
+   */
+  async getRecentObservations(item: StacItem): Promise<SmnObservation[]> {
+    const asset = Object.keys(item.assets).find(key => key.endsWith("_t_now.csv"));
+    if (!asset) {
+      throw new Error(`Station ${item.id} has no 10-minute data asset`);
+    }
+    return parseSmnCsv(await this.fetchText(item.assets[asset].href));
+  }
+
+  protected async fetchJson<T>(url: string): Promise<T> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`MeteoSwiss STAC request failed: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  protected async fetchText(url: string): Promise<string> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`MeteoSwiss data request failed: ${response.status}`);
+    }
+    // Data files are Windows-1252 encoded
+    return new TextDecoder("windows-1252").decode(await response.arrayBuffer());
+  }
+}
+
+/**
+ * Serves recorded STAC pages and station CSVs, for offline development and tests
+ */
+export class FixtureMeteoSwissStacClient extends MeteoSwissStacClient {
+  readonly name = "MeteoSwiss SwissMetNet (recorded fixture)";
+
+  constructor(private fixture = meteoSwissStacFixture) {
+    super();
+  }
+
+  // Single items were not recorded separately; the item pages hold the same features
+  async getStationItem(stationId: string): Promise<StacItem> {
+    const item = (await this.listStationItems()).find(feature => feature.id === stationId.toLowerCase());
+    if (!item) throw new Error(`No recorded STAC item for ${stationId}`);
+    return item;
+  }
+
+  protected async fetchJson<T>(url: string): Promise<T> {
+    const body = this.fixture.json[url];
+    if (!body) throw new Error(`No recorded STAC response for ${url}`);
+    return body as unknown as T;
+  }
+
+  protected async fetchText(url: string): Promise<string> {
+    const body = this.fixture.text[url];
+    if (body === undefined) throw new Error(`No recorded data file for ${url}`);
+    return body;
+  }
+}
+
+/**
+ * Parse a SwissMetNet 10-minute CSV. Timestamps are "dd.mm.yyyy HH:MM" in UTC and
+ * missing values are empty fields.
+ */
+export function parseSmnCsv(text: string): SmnObservation[] {
+  const [headerLine, ...lines] = text.split(/\r?\n/).filter(line => line.trim());
+  if (!headerLine) return [];
+  const header = headerLine.split(";").map(column => column.trim().toLowerCase());
+  const index = (name: string) => header.indexOf(name);
+  const number = (row: string[], name: string) => {
+    const value = row[index(name)]?.trim();
+    return value ? parseFloat(value) : null;
+  };
+
+  const observations: SmnObservation[] = [];
+  for (const line of lines) {
+    const row = line.split(";");
+    const match = /^(\d{2})\.(\d{2})\.(\d{4}) (\d{2}):(\d{2})$/.exec(row[index("reference_timestamp")]?.trim() ?? "");
+    if (!match) continue;
+
+    const [, day, month, year, hour, minute] = match;
+    const windSpeed = number(row, "fkl010z0"); // m/s
+    observations.push({
+      stationId: row[index("station_abbr")].trim().toUpperCase(),
+      observedAt: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute)),
+      temperature: number(row, "tre200s0"),
+      humidity: number(row, "ure200s0"),
+      pressure: number(row, "prestas0"),
+      windSpeed: windSpeed === null ? null : Math.round(windSpeed * 3.6 * 10) / 10,
+      precipitation: number(row, "rre150z0"),
+    });
+  }
+  return observations.sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime());
+}
+
+/**
+ * Store the latest observation of every registered station as a weather reading.
+ * Precipitation is summed over the preceding hour to match the other providers, and
+ * observations already stored are skipped.
+ */
+export async function ingestStationObservations(client: MeteoSwissStacClient): Promise<StationIngestionResult> {
+  const [items, stations] = await Promise.all([client.listStationItems(), stationRegistry.all()]);
+  const known = new Set(stations.map(station => station.id));
+  const stationItems = items.filter(item => known.has(item.id.toUpperCase()));
+
+  const result: StationIngestionResult = { stationsTotal: stationItems.length, stored: 0, unchanged: 0, failures: [] };
+  const fetched: Array<{ stationId: string; observations: SmnObservation[]; latest: SmnObservation }> = [];
+
+  // Sequential to stay well inside the open-data API's fair-use limits
+  for (const item of stationItems) {
+    const stationId = item.id.toUpperCase();
+    try {
+      const observations = await client.getRecentObservations(item);
+      const latest = latestObservation(observations);
+      if (!latest) {
+        throw new Error("No observations with a temperature");
+      }
+      fetched.push({ stationId, observations, latest });
+    } catch (error) {
+      result.failures.push({ stationId, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  }
+  if (fetched.length === 0) {
+    return result;
+  }
+
+  // Only readings as recent as the oldest fetched observation can make one a repeat
+  const since = Math.min(...fetched.map(station => station.latest.observedAt.getTime()));
+  const latestStored = await storage.getLatestStationReadings(new Date(since));
+
+  for (const { stationId, observations, latest } of fetched) {
+    const stored = latestStored.find(reading => reading.stationId === stationId);
+    if (stored?.timestamp && stored.timestamp.getTime() >= latest.observedAt.getTime()) {
+      result.unchanged++;
+      continue;
+    }
+
+    await storage.createWeatherData({
+      stationId,
+      source: "meteoswiss",
+      temperature: latest.temperature,
+      humidity: latest.humidity,
+      precipitation: hourlyPrecipitation(observations, latest.observedAt),
+      windSpeed: latest.windSpeed,
+      pressure: latest.pressure,
+    }, latest.observedAt);
+    result.stored++;
+  }
+  return result;
+}
+
+const STATION_MAX_DISTANCE_KM = 15;
+const OBSERVATIONS_TTL_MS = 10 * 60 * 1000; // stations publish every 10 minutes
+const SIGNIFICANT_RAIN_MM = 1;
+
+/**
+ * Current conditions at a point from the nearest SwissMetNet station's live 10-minute
+ * data, with the temperature moved to the point's elevation. Points with no station
+ * within STATION_MAX_DISTANCE_KM are left to other sources.
+ */
+export class MeteoSwissWeatherProvider implements CurrentWeatherSource {
+  private observations = new Map<string, { expiresAt: number; value: Promise<SmnObservation[]> }>();
+
+  constructor(private client: MeteoSwissStacClient) {}
+
+  get name() {
+    return this.client.name;
+  }
+
+  async getCurrentWeather(lat: number, lng: number): Promise<CurrentWeather | null> {
+    const [station] = await stationRegistry.nearest(lat, lng, STATION_MAX_DISTANCE_KM, 1);
+    if (!station) {
+      return null;
+    }
+
+    const [observations, elevation] = await Promise.all([
+      this.recentObservations(station.id),
+      elevationService.getElevation(lat, lng),
+    ]);
+    const latest = latestObservation(observations);
+    if (!latest) {
+      throw new Error(`Station ${station.id} has no current temperature`);
+    }
+
+    // The current-day asset only reaches back about a day, so older rain is unknown
+    const dayPrecipitation = observations
+      .filter(o => o.observedAt.getTime() > latest.observedAt.getTime() - 24 * 60 * 60 * 1000)
+      .reduce((sum, o) => sum + (o.precipitation ?? 0), 0);
+
+    return {
+      temperature: elevation === null
+        ? latest.temperature!
+        : correctTemperatureForElevation(latest.temperature!, station.elevation, elevation),
+      humidity: latest.humidity,
+      soilTemperature: null,
+      precipitation: hourlyPrecipitation(observations, latest.observedAt),
+      windSpeed: latest.windSpeed,
+      pressure: latest.pressure,
+      lastRainfall: dayPrecipitation >= SIGNIFICANT_RAIN_MM ? 0 : null,
+      station: `${station.name} (${station.id}, ${station.elevation} m, ${Math.round(station.distance * 10) / 10} km away)`,
+      dataSource: this.name,
+      source: "meteoswiss",
+      isFallback: false,
+      observedAt: latest.observedAt,
+    };
+  }
+
+  // Shared per station, so locations around the same station trigger one download
+  private recentObservations(stationId: string): Promise<SmnObservation[]> {
+    const cached = this.observations.get(stationId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const value = this.client.getStationItem(stationId).then(item => this.client.getRecentObservations(item));
+    this.observations.set(stationId, { expiresAt: Date.now() + OBSERVATIONS_TTL_MS, value });
+    // Failed downloads are not cached so the next request retries
+    value.catch(() => this.observations.delete(stationId));
+    return value;
+  }
+}
+
+// The newest row can be published before all of its values are in
+function latestObservation(observations: SmnObservation[]): SmnObservation | undefined {
+  for (let i = observations.length - 1; i >= 0; i--) {
+    if (observations[i].temperature !== null) return observations[i];
+  }
+  return undefined;
+}
+
+function hourlyPrecipitation(observations: SmnObservation[], until: Date): number | null {
+  const from = until.getTime() - 60 * 60 * 1000;
+  const window = observations.filter(o =>
+    o.precipitation !== null && o.observedAt.getTime() > from && o.observedAt.getTime() <= until.getTime(),
+  );
+  if (window.length === 0) return null;
+  return Math.round(window.reduce((sum, o) => sum + o.precipitation!, 0) * 10) / 10;
+}
+
+export function createMeteoSwissClient(): MeteoSwissStacClient {
+  return process.env.WEATHER_PROVIDER === "fixture"
+    ? new FixtureMeteoSwissStacClient()
+    : new MeteoSwissStacClient(process.env.METEOSWISS_STAC_URL);
+}
+
+export const meteoSwissClient = createMeteoSwissClient();
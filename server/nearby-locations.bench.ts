@@ -0,0 +1,51 @@
+import { bench, describe } from "vitest";
+import { calculateLocationProbability } from "@shared/probability";
+import { storage } from "./storage";
+import { loadBenchmarkData } from "./fixtures/benchmark-locations";
+import { findNearbyLocations } from "./nearby-locations";
+import { getWeatherConditions } from "./weather-derivation";
+
+/**
+ * The nearby pipeline against scoring each location with its own queries, as the
+ * endpoint did before. Run with `npm run bench`; batching should be several times faster.
+ */
+
+const LOCATIONS = 5_000;
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date("2025-09-18T12:00:00Z");
+const zurich = { lat: 47.3769, lng: 8.5417, radius: 30 };
+
+let loaded: ReturnType<typeof loadBenchmarkData> | undefined;
+
+// Loaded once on first use, which the warm-up runs absorb
+function benchmarkData() {
+  if (!loaded) {
+    loaded = loadBenchmarkData(storage, LOCATIONS, { now });
+  }
+  return loaded;
+}
+
+let hours = 0;
+
+describe(`nearby locations among ${LOCATIONS.toLocaleString("en")} locations`, () => {
+  bench("batched", async () => {
+    await benchmarkData();
+    // A new hour each run, so no score comes from the memo
+    await findNearbyLocations({ ...zurich, now: new Date(now.getTime() + ++hours * HOUR_MS) });
+  });
+
+  bench("batched, memoized", async () => {
+    await benchmarkData();
+    await findNearbyLocations({ ...zurich, now });
+  });
+
+  bench("one by one", async () => {
+    await benchmarkData();
+    const locations = await storage.getNearbyLocations(zurich.lat, zurich.lng, zurich.radius);
+    for (const location of locations) {
+      await storage.getLatestWeatherForLocation(location.id);
+      const weather = await getWeatherConditions(location.id, now);
+      calculateLocationProbability(location, await storage.getMushroomSpecies(), weather, now);
+    }
+  });
+});
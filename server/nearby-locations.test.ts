@@ -0,0 +1,96 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { calculateLocationProbability } from "@shared/probability";
+import { storage } from "./storage";
+import { loadBenchmarkData } from "./fixtures/benchmark-locations";
+import { findNearbyLocations } from "./nearby-locations";
+import { getWeatherConditions } from "./weather-derivation";
+
+const LOCATIONS = 1_000;
+const now = new Date("2025-09-18T12:00:00Z");
+const zurich = { lat: 47.3769, lng: 8.5417, radius: 30, now };
+
+beforeAll(async () => {
+  await loadBenchmarkData(storage, LOCATIONS, { now });
+}, 60_000);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// The per-location pipeline the endpoint replaced, which it must agree with
+async function scoreOneByOne() {
+  const locations = await storage.getNearbyLocations(zurich.lat, zurich.lng, zurich.radius);
+  const scores: number[] = [];
+  for (const location of locations) {
+    await storage.getLatestWeatherForLocation(location.id);
+    const weather = await getWeatherConditions(location.id, now);
+    scores.push(calculateLocationProbability(location, await storage.getMushroomSpecies(), weather, now).probability);
+  }
+  return scores;
+}
+
+describe(`nearby locations among ${LOCATIONS.toLocaleString("en")} locations`, () => {
+  it("loads weather and species in a fixed number of queries and scores like one by one", async () => {
+    const latest = vi.spyOn(storage, "getLatestWeatherForLocations");
+    const single = vi.spyOn(storage, "getLatestWeatherForLocation");
+    const species = vi.spyOn(storage, "getMushroomSpecies");
+
+    const { total, locations } = await findNearbyLocations(zurich);
+
+    expect(total).toBeGreaterThan(10);
+    expect(locations).toHaveLength(total);
+    expect(latest).toHaveBeenCalledTimes(1);
+    expect(single).not.toHaveBeenCalled();
+    expect(species).toHaveBeenCalledTimes(1);
+
+    vi.restoreAllMocks();
+    const baseline = await scoreOneByOne();
+    expect(baseline.slice().sort()).toEqual(locations.map(l => l.probability).sort());
+  });
+
+  it("only rescores locations whose weather changed", async () => {
+    const history = vi.spyOn(storage, "getWeatherHistoryForLocations");
+    const first = await findNearbyLocations(zurich);
+    history.mockClear();
+
+    const again = await findNearbyLocations(zurich);
+    expect(again).toEqual(first);
+    expect(history.mock.calls[0][0]).toEqual([]);
+
+    // A reading a minute after the benchmark's latest one, so it becomes the latest
+    const changed = first.locations[0].location;
+    await storage.createWeatherData({ locationId: changed.id, temperature: 14, humidity: 95 }, new Date(now.getTime() + 60_000));
+    await findNearbyLocations(zurich);
+    expect(history.mock.calls[1][0]).toEqual([changed.id]);
+  });
+
+  it("rescores when a species is added or edited", async () => {
+    const before = await findNearbyLocations(zurich);
+    await storage.createMushroomSpecies({
+      name: "Benchmark Bolete",
+      scientificName: "Boletus benchmarkensis",
+      season: "Fall",
+      difficulty: "beginner",
+      forestTypes: ["Conifer", "Mixed", "Hardwood"],
+      treeAssociations: ["Spruce", "Beech", "Fir", "Oak", "Pine", "Maple"],
+    });
+
+    const after = await findNearbyLocations(zurich);
+    expect(after.locations.some(l => l.suitableSpecies.indexOf("Benchmark Bolete") >= 0)).toBe(true);
+    expect(before.locations.some(l => l.suitableSpecies.indexOf("Benchmark Bolete") >= 0)).toBe(false);
+  });
+
+  it("scores every location when another request clears the memo mid-flight", async () => {
+    await findNearbyLocations(zurich);
+
+    // The first request reads the current species, then a new one resets the memo for the second
+    const first = findNearbyLocations(zurich);
+    await storage.createMushroomSpecies({ name: "Late Arrival", scientificName: "Lactarius serus", season: "Fall", difficulty: "expert" });
+    const second = findNearbyLocations(zurich);
+
+    const [a, b] = await Promise.all([first, second]);
+    expect(a.locations).toHaveLength(a.total);
+    expect(b.locations).toHaveLength(b.total);
+    expect(a.locations.every(l => typeof l.probability === "number")).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import { getWeatherConditionsForLocations } from "./weather-derivation";
+import { SUITABLE_SPECIES_THRESHOLD, calculateLocationProbability, speciesCacheKey } from "@shared/probability";
+import { calculateDistance } from "@shared/math";
+import type { ForagingLocation, MushroomSpecies, WeatherConditions } from "@shared/schema";
+
+/**
+ * Scored foraging locations around a point. Locations, their weather and the species
+ * list are loaded with a fixed number of storage queries however many locations are
+ * in range, and each location's score is memoized until new weather arrives for it.
+ */
+
+export interface NearbyQuery {
+  lat: number;
+  lng: number;
+  radius: number; // km
+  minProbability?: number;
+  speciesIds?: string[]; // keep locations where any of these is suitable
+  limit?: number;
+  offset?: number;
+  now?: Date;
+}
+
+export interface NearbyLocation {
+  location: ForagingLocation;
+  distance: number; // km
+  probability: number;
+  suitableSpecies: string[];
+  currentConditions?: WeatherConditions;
+}
+
+interface ScoredLocation {
+  conditions?: WeatherConditions;
+  probability: number;
+  suitableSpecies: string[];
+  suitableSpeciesIds: string[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_MEMO_ENTRIES = 10000;
+
+// Entries are keyed by location and hold the inputs they were computed from
+const memo = new Map<string, { key: string; scored: ScoredLocation }>();
+let memoSpeciesKey = "";
+
+/**
+ * Matching locations sorted by probability, best first, with the number that matched
+ * before limit and offset were applied
+ */
+export async function findNearbyLocations(query: NearbyQuery): Promise<{ total: number; locations: NearbyLocation[] }> {
+  const now = query.now ?? new Date();
+  const [locations, species] = await Promise.all([
+    storage.getNearbyLocations(query.lat, query.lng, query.radius),
+    storage.getMushroomSpecies(),
+  ]);
+  const scored = await scoreLocations(locations, species, now);
+
+  const matches = locations
+    .map((location, i) => ({ location, scored: scored[i] }))
+    .filter(({ scored }) =>
+      (query.minProbability === undefined || scored.probability >= query.minProbability) &&
+      (!query.speciesIds || query.speciesIds.some(id => scored.suitableSpeciesIds.indexOf(id) >= 0)),
+    )
+    .sort((a, b) => b.scored.probability - a.scored.probability);
+
+  const offset = query.offset ?? 0;
+  const page = query.limit === undefined ? matches.slice(offset) : matches.slice(offset, offset + query.limit);
+
+  return {
+    total: matches.length,
+    locations: page.map(({ location, scored }) => ({
+      location,
+      distance: Math.round(calculateDistance(query.lat, query.lng, location.latitude, location.longitude) * 100) / 100,
+      probability: scored.probability,
+      suitableSpecies: scored.suitableSpecies,
+      currentConditions: scored.conditions,
+    })),
+  };
+}
+
+/**
+ * Scores in the order of the locations. Only locations whose latest reading changed,
+ * or whose memo is from an earlier hour, have their weather and score recomputed;
+ * interpolated weather depends on every nearby station, so it is never memoized.
+ */
+async function scoreLocations(locations: ForagingLocation[], species: MushroomSpecies[], now: Date): Promise<ScoredLocation[]> {
+  const speciesKey = speciesCacheKey(species);
+  if (speciesKey !== memoSpeciesKey) {
+    memo.clear();
+    memoSpeciesKey = speciesKey;
+  }
+  // Taken before any await, as concurrent requests may evict or clear entries meanwhile
+  const cached = locations.map(location => memo.get(location.id));
+
+  const latest = await storage.getLatestWeatherForLocations(locations.map(l => l.id));
+  const hour = Math.floor(now.getTime() / HOUR_MS);
+  const memoKeys = locations.map(location => {
+    const reading = latest.get(location.id);
+    return reading && `${hour}:${reading.id}`;
+  });
+
+  const hits = cached.map((entry, i) => (entry && entry.key === memoKeys[i] ? entry.scored : undefined));
+  const stale = locations.filter((_, i) => !hits[i]);
+  const conditions = await getWeatherConditionsForLocations(stale, now, latest);
+
+  return locations.map((location, i) => {
+    const hit = hits[i];
+    if (hit) {
+      return hit;
+    }
+
+    const weather = conditions.get(location.id);
+    const result = calculateLocationProbability(location, species, weather, now);
+    const scored: ScoredLocation = {
+      conditions: weather,
+      probability: result.probability,
+      suitableSpecies: result.suitableSpecies,
+      suitableSpeciesIds: result.speciesProbabilities
+        .filter(sp => sp.probability >= SUITABLE_SPECIES_THRESHOLD)
+        .map(sp => sp.species.id),
+    };
+    // A request that started before a species change must not fill the newer memo
+    if (speciesKey === memoSpeciesKey) {
+      remember(location.id, memoKeys[i], scored);
+    }
+    return scored;
+  });
+}
+
+function remember(locationId: string, key: string | undefined, scored: ScoredLocation) {
+  memo.delete(locationId);
+  if (!key) return;
+
+  memo.set(locationId, { key, scored });
+  // Maps iterate in insertion order, so the first key is the oldest entry
+  const oldest = memo.keys().next();
+  if (memo.size > MAX_MEMO_ENTRIES && !oldest.done) {
+    memo.delete(oldest.value);
+  }
+}
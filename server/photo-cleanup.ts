@@ -0,0 +1,36 @@
+import { storage } from "./storage";
+import { photoService } from "./photo-storage";
+
+/**
+ * Uploads are stored as soon as a photo is picked in the find form, before the find
+ * is saved. Those that no find ever links are removed once they are a day old.
+ */
+
+export const ORPHANED_PHOTO_TTL_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | undefined;
+
+/**
+ * Delete the files and records of uploads older than the TTL that no find links,
+ * returning how many were removed
+ */
+export async function removeOrphanedPhotos(now = new Date()): Promise<number> {
+  const orphans = await storage.getUnattachedFindPhotos(new Date(now.getTime() - ORPHANED_PHOTO_TTL_MS));
+  for (const photo of orphans) {
+    await photoService.deletePhoto(photo);
+    await storage.deleteFindPhoto(photo.id);
+  }
+  return orphans.length;
+}
+
+export function startPhotoCleanup() {
+  if (timer) return;
+
+  const tick = () => {
+    removeOrphanedPhotos().catch(error => console.error("Photo cleanup failed:", error));
+  };
+  tick();
+  timer = setInterval(tick, CLEANUP_INTERVAL_MS);
+  timer.unref();
+}
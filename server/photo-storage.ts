@@ -0,0 +1,124 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+
+export interface StoredPhoto {
+  photoUrl: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * Backend that persists processed photo files and resolves them to public URLs
+ */
+export interface PhotoStorageDriver {
+  save(key: string, data: Buffer, contentType: string): Promise<string>;
+  delete(url: string): Promise<void>;
+}
+
+export class LocalDiskPhotoStorage implements PhotoStorageDriver {
+  constructor(
+    readonly rootDir: string,
+    readonly publicPath: string,
+  ) {}
+
+  async save(key: string, data: Buffer, _contentType: string): Promise<string> {
+    const file = path.join(this.rootDir, key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+    return `${this.publicPath}/${key}`;
+  }
+
+  async delete(url: string): Promise<void> {
+    const file = this.fileFor(url);
+    if (file) {
+      await fs.rm(file, { force: true });
+    }
+  }
+
+  /**
+   * The file behind a URL this driver handed out, or null for any other URL
+   * (e.g. photos linked from elsewhere, or paths escaping the root)
+   */
+  fileFor(url: string): string | null {
+    if (!url.startsWith(`${this.publicPath}/`)) return null;
+
+    const file = path.resolve(this.rootDir, url.slice(this.publicPath.length + 1));
+    return file.startsWith(`${this.rootDir}${path.sep}`) ? file : null;
+  }
+}
+
+const MAX_PHOTO_DIMENSION = 2048;
+const THUMBNAIL_SIZE = 256;
+
+// Photos that keep their EXIF position are stored under this dot directory, which the
+// static upload route does not serve, and only handed to their owner; thumbnails never
+// carry metadata
+export const LOCATED_PHOTO_PREFIX = ".located";
+
+export class PhotoService {
+  constructor(private driver: PhotoStorageDriver) {}
+
+  /**
+   * Normalize an uploaded image, create its thumbnail and store both, or null when
+   * the upload cannot be decoded as an image.
+   * All metadata (including EXIF GPS) is dropped unless keepLocation is set.
+   */
+  async storePhoto(input: Buffer, options: { keepLocation?: boolean } = {}): Promise<StoredPhoto | null> {
+    const id = randomUUID();
+
+    let photo: Buffer;
+    let thumbnail: Buffer;
+    try {
+      ({ photo, thumbnail } = await processImage(input, options.keepLocation === true));
+    } catch {
+      return null;
+    }
+
+    const prefix = options.keepLocation ? `${LOCATED_PHOTO_PREFIX}/` : "";
+    const photoUrl = await this.driver.save(`${prefix}${id}.jpg`, photo, "image/jpeg");
+    const thumbnailUrl = await this.driver.save(`${id}-thumb.jpg`, thumbnail, "image/jpeg");
+
+    return { photoUrl, thumbnailUrl };
+  }
+
+  /**
+   * Remove the stored files of a photo
+   */
+  async deletePhoto(photo: { photoUrl?: string | null; thumbnailUrl?: string | null }): Promise<void> {
+    for (const url of [photo.photoUrl, photo.thumbnailUrl]) {
+      if (url) {
+        await this.driver.delete(url);
+      }
+    }
+  }
+}
+
+// sharp rejects input it cannot decode, which callers report as a bad upload
+async function processImage(input: Buffer, keepLocation: boolean): Promise<{ photo: Buffer; thumbnail: Buffer }> {
+  let image = sharp(input).autoOrient().resize({
+    width: MAX_PHOTO_DIMENSION,
+    height: MAX_PHOTO_DIMENSION,
+    fit: "inside",
+    withoutEnlargement: true,
+  });
+  if (keepLocation) {
+    image = image.keepExif();
+  }
+  const photo = await image.jpeg({ quality: 85, mozjpeg: true }).toBuffer();
+
+  const thumbnail = await sharp(input)
+    .autoOrient()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+
+  return { photo, thumbnail };
+}
+
+export const photoDriver = new LocalDiskPhotoStorage(
+  path.resolve(process.env.PHOTO_UPLOAD_DIR || "uploads"),
+  "/uploads",
+);
+
+export const photoService = new PhotoService(photoDriver);
@@ -0,0 +1,92 @@
+/**
+ * Bounding-box lookups over WGS84 points, used for foraging locations
+ */
+
+export interface BoundingBox {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+export interface IndexedPoint {
+  latitude: number;
+  longitude: number;
+}
+
+interface Cell<T> {
+  x: number;
+  y: number;
+  points: T[];
+}
+
+/**
+ * Uniform grid over point positions, so a query only tests the points in the cells
+ * its box overlaps. Large boxes walk the occupied cells instead of every cell they
+ * span, which keeps a whole-country query from visiting millions of empty cells.
+ */
+export class PointIndex<T extends IndexedPoint> {
+  private cells = new Map<string, Cell<T>>();
+
+  constructor(private cellDegrees: number, points: T[] = []) {
+    points.forEach(point => this.insert(point));
+  }
+
+  insert(point: T) {
+    const [x, y] = this.cellCoordinates(point.latitude, point.longitude);
+    const key = `${x}:${y}`;
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.points.push(point);
+    } else {
+      this.cells.set(key, { x, y, points: [point] });
+    }
+  }
+
+  /**
+   * Points inside the box, edges included
+   */
+  withinBounds(bounds: BoundingBox): T[] {
+    const [minX, minY] = this.cellCoordinates(bounds.minLat, bounds.minLng);
+    const [maxX, maxY] = this.cellCoordinates(bounds.maxLat, bounds.maxLng);
+    const matches: T[] = [];
+
+    const collect = (cell: Cell<T> | undefined) => {
+      if (!cell) return;
+      for (const point of cell.points) {
+        if (
+          point.longitude >= bounds.minLng && point.longitude <= bounds.maxLng &&
+          point.latitude >= bounds.minLat && point.latitude <= bounds.maxLat
+        ) {
+          matches.push(point);
+        }
+      }
+    };
+
+    if ((maxX - minX + 1) * (maxY - minY + 1) > this.cells.size) {
+      this.cells.forEach(cell => {
+        if (cell.x >= minX && cell.x <= maxX && cell.y >= minY && cell.y <= maxY) collect(cell);
+      });
+    } else {
+      for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+          collect(this.cells.get(`${x}:${y}`));
+        }
+      }
+    }
+    return matches;
+  }
+
+  private cellCoordinates(lat: number, lng: number): [number, number] {
+    return [Math.floor(lng / this.cellDegrees), Math.floor(lat / this.cellDegrees)];
+  }
+}
+
+/**
+ * Box enclosing a circle, for narrowing a radius search before exact distances
+ */
+export function boundsAround(lat: number, lng: number, radiusKm: number): BoundingBox {
+  const latDelta = radiusKm / 111.32;
+  const lngDelta = radiusKm / (111.32 * Math.cos((lat * Math.PI) / 180));
+  return { minLng: lng - lngDelta, minLat: lat - latDelta, maxLng: lng + lngDelta, maxLat: lat + latDelta };
+}
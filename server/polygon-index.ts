@@ -0,0 +1,125 @@
+/**
+ * Point-in-polygon lookups over WGS84 GeoJSON polygons, shared by the boundary
+ * and forest-type datasets
+ */
+
+type Ring = Array<[number, number]>; // [lng, lat]
+type PolygonCoordinates = Ring[]; // outer ring followed by holes
+
+export interface PolygonFeature<P> {
+  type: "Feature";
+  properties: P;
+  geometry:
+    | { type: "Polygon"; coordinates: PolygonCoordinates }
+    | { type: "MultiPolygon"; coordinates: PolygonCoordinates[] };
+}
+
+interface IndexedPolygon<P> {
+  properties: P;
+  rings: PolygonCoordinates;
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+/**
+ * Uniform grid over polygon bounding boxes, so a point lookup only runs the
+ * point-in-polygon test against the few polygons overlapping its cell
+ */
+export class PolygonIndex<P> {
+  private cells = new Map<string, IndexedPolygon<P>[]>();
+
+  constructor(features: PolygonFeature<P>[], private cellDegrees: number) {
+    for (const feature of features) {
+      const polygons = feature.geometry.type === "Polygon"
+        ? [feature.geometry.coordinates]
+        : feature.geometry.coordinates;
+
+      for (const rings of polygons) {
+        if (rings.length > 0) {
+          this.insert(indexPolygon(feature.properties, rings));
+        }
+      }
+    }
+  }
+
+  /**
+   * Properties of every polygon containing the point
+   */
+  containing(lat: number, lng: number): P[] {
+    const matches: P[] = [];
+
+    for (const polygon of this.cells.get(this.cellKey(lat, lng)) ?? []) {
+      if (lng < polygon.minLng || lng > polygon.maxLng || lat < polygon.minLat || lat > polygon.maxLat) continue;
+      if (pointInPolygon(lng, lat, polygon.rings)) {
+        matches.push(polygon.properties);
+      }
+    }
+    return matches;
+  }
+
+  private insert(polygon: IndexedPolygon<P>) {
+    const [minX, minY] = this.cellCoordinates(polygon.minLat, polygon.minLng);
+    const [maxX, maxY] = this.cellCoordinates(polygon.maxLat, polygon.maxLng);
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const key = `${x}:${y}`;
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.push(polygon);
+        } else {
+          this.cells.set(key, [polygon]);
+        }
+      }
+    }
+  }
+
+  private cellCoordinates(lat: number, lng: number): [number, number] {
+    return [Math.floor(lng / this.cellDegrees), Math.floor(lat / this.cellDegrees)];
+  }
+
+  private cellKey(lat: number, lng: number): string {
+    const [x, y] = this.cellCoordinates(lat, lng);
+    return `${x}:${y}`;
+  }
+}
+
+function indexPolygon<P>(properties: P, rings: PolygonCoordinates): IndexedPolygon<P> {
+  const polygon: IndexedPolygon<P> = {
+    properties,
+    rings,
+    minLng: Infinity,
+    minLat: Infinity,
+    maxLng: -Infinity,
+    maxLat: -Infinity,
+  };
+
+  // Holes lie inside the outer ring, so it alone determines the bounds
+  for (const [lng, lat] of rings[0]) {
+    polygon.minLng = Math.min(polygon.minLng, lng);
+    polygon.minLat = Math.min(polygon.minLat, lat);
+    polygon.maxLng = Math.max(polygon.maxLng, lng);
+    polygon.maxLat = Math.max(polygon.maxLat, lat);
+  }
+  return polygon;
+}
+
+/**
+ * Even-odd ray casting; a point inside a hole counts as outside
+ */
+function pointInPolygon(x: number, y: number, rings: PolygonCoordinates): boolean {
+  let inside = false;
+
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
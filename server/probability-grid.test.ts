@@ -0,0 +1,166 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { lv95ToWgs84, wgs84ToLv95 } from "@shared/swiss-coordinates";
+import type { ProbabilityGridCell } from "@shared/schema";
+import type { BoundingBox } from "./point-index";
+import { ElevationService } from "./elevation";
+import { ForestTypeService } from "./forest-types";
+import { GeoAdminService, type AdminArea } from "./geo-admin";
+import { MAX_GRID_CELLS, ProbabilityGridService } from "./probability-grid";
+import { StubHeightClient } from "./fixtures/height-service";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pilztastic-grid-"));
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const now = new Date("2025-09-18T12:00:00Z");
+const HOUR_MS = 60 * 60 * 1000;
+const RESOLUTION = 250;
+
+// WGS84 bounds of an LV95 rectangle
+function bbox(west: number, south: number, east: number, north: number): BoundingBox {
+  const [a, b] = [lv95ToWgs84(west, south), lv95ToWgs84(east, north)];
+  return {
+    minLat: Math.min(a.lat, b.lat),
+    maxLat: Math.max(a.lat, b.lat),
+    minLng: Math.min(a.lng, b.lng),
+    maxLng: Math.max(a.lng, b.lng),
+  };
+}
+
+function cellCentre(cell: ProbabilityGridCell) {
+  const ring = cell.geometry.coordinates[0].slice(0, 4);
+  const lng = ring.reduce((sum, [x]) => sum + x, 0) / ring.length;
+  const lat = ring.reduce((sum, [, y]) => sum + y, 0) / ring.length;
+  return { lat, lng, ...wgs84ToLv95(lat, lng) };
+}
+
+// The 250 m tile from 2'684'000 / 1'236'000 to 2'688'000 / 1'240'000, near Sihlwald.
+// Beech stands cover its western half and a conifer region with a quarter of forest the
+// eastern half, both only up to 1'238'000; the northern half has no forest.
+const FOREST_NORTH = 1238000;
+const area = (west: number, east: number) =>
+  [[west, 1235500], [east, 1235500], [east, FOREST_NORTH], [west, FOREST_NORTH], [west, 1235500]]
+    .map(([e, n]) => lv95ToWgs84(e, n))
+    .map(({ lat, lng }) => [lng, lat]);
+
+const forestFile = path.join(dir, "forest.geojson");
+fs.writeFileSync(forestFile, JSON.stringify({
+  type: "FeatureCollection",
+  source: "test forest",
+  features: [
+    {
+      type: "Feature",
+      properties: { code: "7a", name: "Beech forest", forestType: "Hardwood", treeSpecies: ["Beech"] },
+      geometry: { type: "Polygon", coordinates: [area(2683500, 2686000)] },
+    },
+    {
+      type: "Feature",
+      properties: { code: "R", name: "Conifer region", forestType: "Conifer", treeSpecies: ["Spruce"], forestShare: 0.25 },
+      geometry: { type: "Polygon", coordinates: [area(2686000, 2688500)] },
+    },
+  ],
+}));
+
+// Rises 1 m for every 10 m north
+const slope = (_east: number, north: number) => 500 + (north - 1236000) / 10;
+
+// Answers every point with the same canton and remembers where it was asked
+class StubGeoAdmin extends GeoAdminService {
+  points: Array<{ lat: number; lng: number }> = [];
+
+  constructor() {
+    super(path.join(dir, "no-boundaries.geojson"));
+  }
+
+  async resolve(lat: number, lng: number): Promise<AdminArea> {
+    this.points.push({ lat, lng });
+    return { canton: "Zürich" };
+  }
+}
+
+function gridService() {
+  const heights = new StubHeightClient(slope);
+  const admin = new StubGeoAdmin();
+  const grid = new ProbabilityGridService(
+    new ElevationService(path.join(dir, "no-dem"), "lv95", heights),
+    new ForestTypeService(forestFile),
+    admin,
+  );
+  return { grid, heights, admin };
+}
+
+const tileBounds = bbox(2684300, 1236300, 2687700, 1239700);
+
+describe("ProbabilityGridService", () => {
+  describe("countCells", () => {
+    const { grid } = gridService();
+
+    it("counts every cell of the tiles a request touches", () => {
+      expect(grid.countCells(tileBounds, RESOLUTION)).toBe(256);
+      // A few cells around a tile corner still cost four tiles
+      expect(grid.countCells(bbox(2687700, 1239700, 2688300, 1240300), RESOLUTION)).toBe(1024);
+    });
+
+    it("turns away a strip one cell wide that touches too many tiles", () => {
+      expect(grid.countCells(bbox(2684110, 1100000, 2684140, 1500000), 100)).toBeGreaterThan(MAX_GRID_CELLS);
+    });
+  });
+
+  it("scores forest cells only, scaling regional ones by their forest share", async () => {
+    const { grid } = gridService();
+    const { features } = await grid.getGrid(tileBounds, RESOLUTION, null, now);
+
+    expect(features.length).toBeGreaterThan(0);
+    const stands = features.filter(cell => cell.properties.forestType !== null);
+    const regional = features.filter(cell => cell.properties.forestType === null);
+    expect(stands.length).toBeGreaterThan(0);
+    expect(regional.length).toBeGreaterThan(0);
+
+    for (const cell of features) {
+      expect(cellCentre(cell).north).toBeLessThan(FOREST_NORTH);
+    }
+    for (const cell of stands) {
+      expect(cell.properties).toMatchObject({ forestType: "Hardwood", forestShare: 1 });
+      expect(cellCentre(cell).east).toBeLessThan(2686000);
+    }
+    for (const cell of regional) {
+      expect(cell.properties.forestShare).toBe(0.25);
+      expect(cell.properties.probability).toBeLessThanOrEqual(25);
+      expect(cellCentre(cell).east).toBeGreaterThan(2686000);
+    }
+  });
+
+  it("looks up the elevations of each row of cells in one profile request and resolves their canton", async () => {
+    const { grid, heights, admin } = gridService();
+    const { features } = await grid.getGrid(tileBounds, RESOLUTION, null, now);
+
+    for (const cell of features) {
+      expect(cell.properties.elevation).toBeCloseTo(slope(0, cellCentre(cell).north), -1);
+    }
+    // Every forest row of the tile, including any trimmed off the view
+    const forestRows = (FOREST_NORTH - 1236000) / RESOLUTION;
+    expect(heights.profileRequests).toBe(forestRows);
+    expect(heights.requests).toBe(heights.profileRequests);
+    expect(admin.points).toHaveLength(forestRows * 16);
+  });
+
+  it("serves repeated requests from cached tiles until the hour changes", async () => {
+    const { grid, heights } = gridService();
+    const first = await grid.getGrid(tileBounds, RESOLUTION, null, now);
+    const requests = heights.requests;
+
+    // A smaller view inside the same tile
+    const inner = await grid.getGrid(bbox(2684600, 1236600, 2685400, 1237400), RESOLUTION, null, now);
+    expect(heights.requests).toBe(requests);
+    expect(inner.features.length).toBeGreaterThan(0);
+    expect(inner.features.length).toBeLessThan(first.features.length);
+
+    expect(await grid.getGrid(tileBounds, RESOLUTION, null, now)).toEqual(first);
+    expect(heights.requests).toBe(requests);
+
+    await grid.getGrid(tileBounds, RESOLUTION, null, new Date(now.getTime() + HOUR_MS));
+    expect(heights.requests).toBe(2 * requests);
+  });
+});
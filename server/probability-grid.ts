@@ -0,0 +1,310 @@
+import { storage } from "./storage";
+import { elevationService, type ElevationService } from "./elevation";
+import { forestTypes, type ForestTypeProperties, type ForestTypeService } from "./forest-types";
+import { geoAdmin, type GeoAdminService } from "./geo-admin";
+import { interpolateWeather, loadStationReadings } from "./weather-interpolation";
+import { interpolateDerivedMetrics, loadStationMetrics } from "./weather-derivation";
+import type { BoundingBox } from "./point-index";
+import {
+  calculateLocationProbability,
+  calculateSpeciesProbability,
+  speciesCacheKey,
+  type ProbabilityWeather,
+} from "@shared/probability";
+import { lv95ToWgs84, wgs84ToLv95 } from "@shared/swiss-coordinates";
+import type {
+  DerivedWeatherMetrics,
+  ForagingLocation,
+  MushroomSpecies,
+  ProbabilityGrid,
+  ProbabilityGridCell,
+  WeatherData,
+} from "@shared/schema";
+
+/**
+ * Probability heat map over square LV95 cells. Each forest cell is scored as if it
+ * were a foraging location, with its elevation from the DEM or the height service,
+ * its canton, its forest type from the forest-type dataset, and weather and rain
+ * history interpolated from stations to its centre. Where the dataset only gives a
+ * region's forest share, the cell is scored without a forest type and its probability
+ * scaled by that share.
+ *
+ * Cells are aligned to multiples of the resolution and computed in tiles of
+ * TILE_CELLS x TILE_CELLS, cached per tile, species content and station-reading
+ * timestamp, so panning the map only evaluates the tiles that come into view.
+ */
+
+const TILE_CELLS = 16;
+const MAX_GRID_TILES = 25;
+// Whole tiles are computed, so the limit counts every cell of the tiles a request touches
+export const MAX_GRID_CELLS = MAX_GRID_TILES * TILE_CELLS * TILE_CELLS;
+const MAX_CACHED_TILES = 500;
+const HOUR_MS = 60 * 60 * 1000;
+const TOP_SPECIES = 3;
+
+// Cells keep their grid indices so a tile can be trimmed to the requested range
+interface TileCell {
+  x: number;
+  y: number;
+  feature: ProbabilityGridCell;
+}
+
+interface CellRange {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+interface ForestCell {
+  x: number;
+  lat: number;
+  lng: number;
+  forest: ForestTypeProperties;
+}
+
+export class ProbabilityGridService {
+  private tiles = new Map<string, Promise<TileCell[]>>();
+  private metrics: { key: string; value: Promise<Map<string, DerivedWeatherMetrics>> } | null = null;
+
+  constructor(
+    private elevation: ElevationService = elevationService,
+    private forest: ForestTypeService = forestTypes,
+    private admin: GeoAdminService = geoAdmin,
+  ) {}
+
+  /**
+   * How many cells a request would evaluate, counting every cell of the tiles it
+   * touches, so oversized ones can be turned away
+   */
+  countCells(bounds: BoundingBox, resolution: number): number {
+    const tiles = tileRange(cellRange(bounds, resolution));
+    return (tiles.maxX - tiles.minX + 1) * (tiles.maxY - tiles.minY + 1) * TILE_CELLS * TILE_CELLS;
+  }
+
+  async getGrid(
+    bounds: BoundingBox,
+    resolution: number,
+    species: MushroomSpecies | null,
+    now = new Date(),
+  ): Promise<ProbabilityGrid> {
+    const range = cellRange(bounds, resolution);
+    const [readings, allSpecies] = await Promise.all([
+      loadStationReadings(now),
+      species ? [species] : storage.getMushroomSpecies(),
+    ]);
+    const latestReading = readings.reduce<Date | null>(
+      (latest, reading) => (!latest || reading.timestamp! > latest ? reading.timestamp! : latest),
+      null,
+    );
+
+    // Season and reading age both move with the clock, so cached tiles last an hour at most
+    const weatherKey = `${Math.floor(now.getTime() / HOUR_MS)}:${latestReading?.getTime() ?? "none"}`;
+    const keyPrefix = `${resolution}:${speciesCacheKey(allSpecies)}:${weatherKey}`;
+
+    const tiles = tileRange(range);
+    const tileRequests: Promise<TileCell[]>[] = [];
+    for (let tx = tiles.minX; tx <= tiles.maxX; tx++) {
+      for (let ty = tiles.minY; ty <= tiles.maxY; ty++) {
+        tileRequests.push(this.tile(`${keyPrefix}:${tx}:${ty}`, async () =>
+          this.computeTile(tx, ty, resolution, species, allSpecies, readings, await this.stationMetrics(weatherKey, now), now),
+        ));
+      }
+    }
+
+    // Tiles overhang the requested range, so trim them back to it
+    const features = (await Promise.all(tileRequests))
+      .reduce((all, cells) => all.concat(cells), [] as TileCell[])
+      .filter(({ x, y }) => x >= range.minX && x <= range.maxX && y >= range.minY && y <= range.maxY)
+      .map(cell => cell.feature);
+
+    return {
+      type: "FeatureCollection",
+      features,
+      resolution,
+      species: species?.id ?? null,
+      weatherObservedAt: latestReading?.toISOString() ?? null,
+    };
+  }
+
+  // Rain history needs a fortnight of station readings, so it is read once per weather key
+  // and only when a tile has to be computed
+  private stationMetrics(key: string, now: Date): Promise<Map<string, DerivedWeatherMetrics>> {
+    if (this.metrics && this.metrics.key === key) {
+      return this.metrics.value;
+    }
+
+    const value = loadStationMetrics(now);
+    this.metrics = { key, value };
+    // Failed loads are not kept so the next tile retries
+    value.catch(() => {
+      if (this.metrics?.value === value) this.metrics = null;
+    });
+    return value;
+  }
+
+  private tile(key: string, compute: () => Promise<TileCell[]>): Promise<TileCell[]> {
+    const cached = this.tiles.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const value = compute();
+    this.tiles.set(key, value);
+    // Failed tiles are not cached so the next request retries
+    value.catch(() => this.tiles.delete(key));
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.tiles.size > MAX_CACHED_TILES) {
+      this.tiles.delete(this.tiles.keys().next().value!);
+    }
+    return value;
+  }
+
+  private async computeTile(
+    tx: number,
+    ty: number,
+    resolution: number,
+    species: MushroomSpecies | null,
+    allSpecies: MushroomSpecies[],
+    readings: WeatherData[],
+    stationMetrics: Map<string, DerivedWeatherMetrics>,
+    now: Date,
+  ): Promise<TileCell[]> {
+    const cells: TileCell[] = [];
+
+    for (let y = ty * TILE_CELLS; y < (ty + 1) * TILE_CELLS; y++) {
+      // A row's forest cells are found first, so their elevations come from one lookup
+      const row: ForestCell[] = [];
+      for (let x = tx * TILE_CELLS; x < (tx + 1) * TILE_CELLS; x++) {
+        const { lat, lng } = lv95ToWgs84((x + 0.5) * resolution, (y + 0.5) * resolution);
+        const forest = await this.forest.getTypeAt(lat, lng);
+        if (forest) row.push({ x, lat, lng, forest });
+      }
+      if (row.length === 0) continue;
+
+      const first = row[0].x;
+      const last = row[row.length - 1].x;
+      const north = (y + 0.5) * resolution;
+      const elevations = await this.elevation.getLineElevations(
+        { east: (first + 0.5) * resolution, north },
+        { east: (last + 0.5) * resolution, north },
+        last - first + 1,
+      );
+
+      for (const { x, lat, lng, forest } of row) {
+        const elevation = elevations[x - first];
+        const [estimate, adminArea] = await Promise.all([
+          interpolateWeather(lat, lng, { elevation, now, readings }),
+          this.admin.resolve(lat, lng),
+        ]);
+        const weather: ProbabilityWeather | null = estimate && {
+          temperature: estimate.temperature,
+          humidity: estimate.humidity,
+          soilTemperature: estimate.soilTemperature,
+          lastRainfall: null,
+          derived: interpolateDerivedMetrics(estimate, stationMetrics),
+        };
+
+        // A regional polygon says how much of the area is forest, not which forest is in the cell
+        const standLevel = forest.forestShare === undefined;
+        const forestShare = forest.forestShare ?? 1;
+        const location = cellLocation(x, y, resolution, lat, lng, elevation, adminArea.canton, {
+          forestType: standLevel ? forest.forestType : null,
+          treeSpecies: standLevel ? forest.treeSpecies : [],
+        });
+
+        let probability: number;
+        let topSpecies: string[];
+        if (species) {
+          probability = calculateSpeciesProbability(species, location, weather, now).probability;
+          topSpecies = [species.name];
+        } else {
+          const result = calculateLocationProbability(location, allSpecies, weather, now);
+          probability = result.probability;
+          topSpecies = result.topSpecies.slice(0, TOP_SPECIES).map(s => s.name);
+        }
+
+        cells.push({
+          x,
+          y,
+          feature: {
+            type: "Feature",
+            geometry: { type: "Polygon", coordinates: [cellRing(x, y, resolution)] },
+            properties: {
+              probability: Math.round(probability * forestShare),
+              elevation: elevation === null ? null : Math.round(elevation),
+              forestType: location.forestType,
+              forestShare,
+              topSpecies,
+            },
+          },
+        });
+      }
+    }
+    return cells;
+  }
+}
+
+// The probability engine scores locations, so each cell stands in as one
+function cellLocation(
+  x: number,
+  y: number,
+  resolution: number,
+  lat: number,
+  lng: number,
+  elevation: number | null,
+  canton: string | null,
+  { forestType, treeSpecies }: { forestType: string | null; treeSpecies: string[] },
+): ForagingLocation {
+  return {
+    id: `grid-${resolution}-${x}-${y}`,
+    name: "",
+    latitude: lat,
+    longitude: lng,
+    elevation: elevation === null ? null : Math.round(elevation),
+    forestType,
+    treeSpecies,
+    accessibility: null,
+    parkingAvailable: null,
+    description: null,
+    municipality: null,
+    canton,
+    createdAt: null,
+  };
+}
+
+function cellRange(bounds: BoundingBox, resolution: number): CellRange {
+  // LV95 axes are not parallel to WGS84 ones, so every corner counts
+  const corners = [
+    wgs84ToLv95(bounds.minLat, bounds.minLng),
+    wgs84ToLv95(bounds.minLat, bounds.maxLng),
+    wgs84ToLv95(bounds.maxLat, bounds.minLng),
+    wgs84ToLv95(bounds.maxLat, bounds.maxLng),
+  ];
+  return {
+    minX: Math.floor(Math.min(...corners.map(c => c.east)) / resolution),
+    maxX: Math.floor(Math.max(...corners.map(c => c.east)) / resolution),
+    minY: Math.floor(Math.min(...corners.map(c => c.north)) / resolution),
+    maxY: Math.floor(Math.max(...corners.map(c => c.north)) / resolution),
+  };
+}
+
+function tileRange(cells: CellRange): CellRange {
+  return {
+    minX: Math.floor(cells.minX / TILE_CELLS),
+    maxX: Math.floor(cells.maxX / TILE_CELLS),
+    minY: Math.floor(cells.minY / TILE_CELLS),
+    maxY: Math.floor(cells.maxY / TILE_CELLS),
+  };
+}
+
+function cellRing(x: number, y: number, resolution: number): Array<[number, number]> {
+  const corners: Array<[number, number]> = [[x, y], [x + 1, y], [x + 1, y + 1], [x, y + 1], [x, y]];
+  return corners.map(([cx, cy]) => {
+    const { lat, lng } = lv95ToWgs84(cx * resolution, cy * resolution);
+    return [Math.round(lng * 1e6) / 1e6, Math.round(lat * 1e6) / 1e6];
+  });
+}
+
+export const probabilityGrid = new ProbabilityGridService();
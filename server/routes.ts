@@ -1,10 +1,52 @@
-import type { Express } from "express";
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
+import passport from "passport";
+import multer from "multer";
 import { storage } from "./storage";
-import { insertMushroomSpeciesSchema, insertForagingLocationSchema, insertWeatherDataSchema, insertUserFindSchema } from "@shared/schema";
-import type { ForagingLocation, WeatherData, MushroomSpecies } from "@shared/schema";
+import { hashPassword, requireAdmin, requireAuth, toPublicUser } from "./auth";
+import { insertMushroomSpeciesSchema, insertForagingLocationSchema, insertWeatherDataSchema, insertUserSchema, userFindInputSchema } from "@shared/schema";
+import type { User, InsertUserFind, LocationForecast, UserFind } from "@shared/schema";
 import { z } from "zod";
 import { swissFungiSync } from "./swiss-fungi-sync";
+import { LOCATED_PHOTO_PREFIX, photoDriver, photoService } from "./photo-storage";
+import { weatherProvider } from "./weather-provider";
+import { weatherChain } from "./weather-chain";
+import { weatherIngestion } from "./weather-ingestion";
+import { buildForecastConditions, getWeatherConditions } from "./weather-derivation";
+import { findNearbyLocations } from "./nearby-locations";
+import { MAX_GRID_CELLS, probabilityGrid } from "./probability-grid";
+import { renderBacktestHtml, runBacktest } from "./backtest";
+import { applyWeatherScenario, calculateLocationProbability, explainProbability } from "@shared/probability";
+import { geoAdmin } from "./geo-admin";
+import { elevationService } from "./elevation";
+import { forestTypes, summarizeForest } from "./forest-types";
+import { correctTemperatureForElevation, stationRegistry } from "./weather-stations";
+import { interpolateWeather } from "./weather-interpolation";
+import { toWgs84, wgs84ToLv95 } from "@shared/swiss-coordinates";
+
+const NOT_AN_IMAGE = "Only image files can be uploaded";
+
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 15 * 1024 * 1024 }, // 15 MB, enough for full-size phone photos
+  fileFilter: (_req, file, cb) => file.mimetype.startsWith("image/") ? cb(null, true) : cb(new Error(NOT_AN_IMAGE)),
+});
+
+// Multer's limit and filter errors are the client's, so answer them instead of a 500
+function receivePhoto(req: Request, res: Response, next: NextFunction) {
+  photoUpload.single("photo")(req, res, (error: unknown) => {
+    if (!error) {
+      return next();
+    }
+    if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({ message: "Photos can be at most 15 MB" });
+    }
+    if (error instanceof multer.MulterError || (error instanceof Error && error.message === NOT_AN_IMAGE)) {
+      return res.status(400).json({ message: error.message });
+    }
+    next(error);
+  });
+}
 
 const coordinatesSchema = z.object({
   lat: z.number().min(-90).max(90),
@@ -12,7 +54,127 @@ const coordinatesSchema = z.object({
   radius: z.number().min(0.1).max(50).default(10), // km
 });
 
+const crsSchema = z.enum(["wgs84", "lv95", "lv03"]).default("wgs84");
+
+// The position part of a location or find body; east and north only count with a Swiss crs
+const bodyPositionSchema = z.object({
+  crs: crsSchema,
+  east: z.number().optional(),
+  north: z.number().optional(),
+}).refine(position => (position.east == null) === (position.north == null), {
+  message: "east and north must be given together",
+});
+
+const nearbyFiltersSchema = z.object({
+  minProbability: z.coerce.number().min(0).max(100).optional(),
+  species: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+}).transform(({ species, ...filters }) => ({
+  ...filters,
+  speciesIds: species ? species.split(",").map(id => id.trim()).filter(Boolean) : undefined,
+}));
+
+const boundingBoxSchema = z.string()
+  .transform(value => value.split(",").map(part => parseFloat(part)))
+  .pipe(z.tuple([
+    z.number().min(-180).max(180),
+    z.number().min(-90).max(90),
+    z.number().min(-180).max(180),
+    z.number().min(-90).max(90),
+  ]))
+  .refine(([minLng, minLat, maxLng, maxLat]) => minLng <= maxLng && minLat <= maxLat, {
+    message: "Minimum corner must be south-west of the maximum corner",
+  })
+  .transform(([minLng, minLat, maxLng, maxLat]) => ({ minLng, minLat, maxLng, maxLat }));
+
+// asOf scores a location as it stood on that date; weather overrides the observed
+// conditions for a what-if, with rain falling daysAgo days before asOf
+const probabilityScenarioSchema = z.object({
+  asOf: z.coerce.date().optional(),
+  weather: z.object({
+    temperature: z.number().min(-40).max(50).optional(),
+    humidity: z.number().min(0).max(100).optional(),
+    soilTemperature: z.number().min(-20).max(40).optional(),
+    rain: z.object({
+      amount: z.number().min(0).max(500), // mm
+      daysAgo: z.number().int().min(0).max(13).default(0),
+    }).optional(),
+  }).optional(),
+});
+
+const backtestQuerySchema = z.object({
+  format: z.enum(["json", "html"]).default("json"),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  species: z.string().optional(),
+}).transform(({ species, ...query }) => ({
+  ...query,
+  speciesIds: species ? species.split(",").map(id => id.trim()).filter(Boolean) : undefined,
+}));
+
+const probabilityGridSchema = z.object({
+  bbox: boundingBoxSchema,
+  resolution: z.coerce.number().int().min(100).max(10000).default(1000), // cell edge in metres
+  species: z.string().optional(),
+});
+
+// How far a GPS-recorded find may be from a known foraging location to be attached to it
+const FIND_SNAP_RADIUS_KM = parseFloat(process.env.FIND_SNAP_RADIUS_KM || "0.5");
+
+// Area around a new location whose forest types describe it
+const LOCATION_FOREST_RADIUS_KM = 0.5;
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Account routes
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const { username, password } = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already taken" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid account data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
   // Mushroom species routes
   app.get("/api/species", async (req, res) => {
     try {
@@ -49,48 +211,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Foraging locations routes
+  // bbox=minLng,minLat,maxLng,maxLat limits the list to a map viewport
   app.get("/api/locations", async (req, res) => {
     try {
-      const locations = await storage.getForagingLocations();
-      res.json(locations);
+      const locations = req.query.bbox !== undefined
+        ? await storage.getLocationsInBounds(boundingBoxSchema.parse(req.query.bbox))
+        : await storage.getForagingLocations();
+      const includeLv95 = wantsLv95(req.query);
+      res.json(locations.map(location => withLv95(location, includeLv95)));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bounding box", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch locations" });
     }
   });
 
-  app.get("/api/locations/nearby", async (req, res) => {
+  app.post("/api/locations", requireAuth, async (req, res) => {
     try {
-      const { lat, lng, radius } = coordinatesSchema.parse({
-        lat: parseFloat(req.query.lat as string),
-        lng: parseFloat(req.query.lng as string),
-        radius: req.query.radius ? parseFloat(req.query.radius as string) : 10,
+      const validatedData = insertForagingLocationSchema.parse(withWgs84Position(req.body));
+      const { latitude, longitude } = validatedData;
+      const [adminArea, elevation, composition] = await Promise.all([
+        geoAdmin.resolve(latitude, longitude),
+        validatedData.elevation ?? elevationService.getElevation(latitude, longitude),
+        forestTypes.getComposition(latitude, longitude, LOCATION_FOREST_RADIUS_KM),
+      ]);
+      const forest = summarizeForest(composition);
+      const location = await storage.createForagingLocation({
+        ...validatedData,
+        canton: validatedData.canton ?? adminArea.canton,
+        elevation: elevation === null ? null : Math.round(elevation),
+        forestType: validatedData.forestType ?? forest.forestType,
+        treeSpecies: validatedData.treeSpecies?.length ? validatedData.treeSpecies : forest.treeSpecies,
       });
+      res.status(201).json(withLv95(location, wantsLv95(req.body)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid location data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create location" });
+    }
+  });
 
-      const locations = await storage.getNearbyLocations(lat, lng, radius);
-      
-      // Calculate distances and add probability scores
-      const locationsWithDetails = await Promise.all(locations.map(async (location) => {
-        const distance = calculateDistance(lat, lng, location.latitude, location.longitude);
-        const weather = await storage.getLatestWeatherForLocation(location.id);
-        const probability = calculateForagingProbability(location, weather);
-        const suitableSpecies = await getSuitableSpeciesForLocation(location, weather);
-        
-        return {
-          ...location,
-          distance: Math.round(distance * 100) / 100,
-          probability,
-          suitableSpecies,
-          currentConditions: weather || undefined,
-        };
-      }));
+  // Sorted by probability; minProbability, species (comma-separated ids), limit and
+  // offset narrow the list, and X-Total-Count gives the number before paging
+  app.get("/api/locations/nearby", async (req, res) => {
+    try {
+      const { lat, lng, radius, includeLv95 } = parseCoordinatesQuery(req.query, 10);
+      const filters = nearbyFiltersSchema.parse(req.query);
 
-      // Sort by probability descending
-      locationsWithDetails.sort((a, b) => b.probability - a.probability);
-      
-      res.json(locationsWithDetails);
+      const { total, locations } = await findNearbyLocations({ lat, lng, radius, ...filters });
+
+      res.setHeader("X-Total-Count", String(total));
+      res.json(locations.map(({ location, ...details }) => ({
+        ...withLv95(location, includeLv95),
+        ...details,
+      })));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid coordinates", errors: error.errors });
+        return res.status(400).json({ message: "Invalid nearby query", errors: error.errors });
       }
       res.status(500).json({ message: "Failed to fetch nearby locations" });
     }
@@ -103,12 +282,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Location not found" });
       }
       
-      const weather = await storage.getLatestWeatherForLocation(location.id);
-      const probability = calculateForagingProbability(location, weather);
-      const suitableSpecies = await getSuitableSpeciesForLocation(location, weather);
+      const weather = await getWeatherConditions(location.id);
+      const species = await storage.getMushroomSpecies();
+      const { probability, suitableSpecies } = calculateLocationProbability(location, species, weather, new Date());
       
       res.json({
-        ...location,
+        ...withLv95(location, wantsLv95(req.query)),
         probability,
         suitableSpecies,
         currentConditions: weather || undefined,
@@ -122,7 +301,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/weather", async (req, res) => {
     try {
       const validatedData = insertWeatherDataSchema.parse(req.body);
-      const weather = await storage.createWeatherData(validatedData);
+      if (validatedData.stationId && !(await stationRegistry.get(validatedData.stationId))) {
+        return res.status(400).json({ message: "Unknown weather station" });
+      }
+      const weather = await storage.createWeatherData({
+        ...validatedData,
+        stationId: validatedData.stationId?.toUpperCase() ?? null,
+      });
       res.status(201).json(weather);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -134,29 +319,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/weather/current", async (req, res) => {
     try {
-      const { lat, lng } = coordinatesSchema.parse({
-        lat: parseFloat(req.query.lat as string),
-        lng: parseFloat(req.query.lng as string),
-        radius: 1,
-      });
+      const { lat, lng, includeLv95 } = parseCoordinatesQuery(req.query, 1);
+
+      const [weather, adminArea] = await Promise.all([
+        weatherChain.getCurrentWeather(lat, lng),
+        geoAdmin.resolve(lat, lng),
+      ]);
+      if (!weather) {
+        return res.status(503).json({ message: "No weather source available for this position", source: "none" });
+      }
 
-      // Enhanced weather data with Swiss MeteoSwiss integration
-      // For production, this would call the actual MeteoSwiss API
       const currentWeather = {
-        temperature: 18 + Math.random() * 8, // 18-26°C
-        humidity: 70 + Math.random() * 25, // 70-95%
-        soilTemperature: 14 + Math.random() * 6, // 14-20°C
-        precipitation: Math.random() * 5, // 0-5mm
-        windSpeed: Math.random() * 15, // 0-15 km/h
-        pressure: 1010 + Math.random() * 20, // 1010-1030 hPa
-        lastRainfall: Math.floor(Math.random() * 7), // 0-7 days ago
-        location: { lat, lng },
-        // Additional Swiss-specific data
-        station: "Automated Swiss Weather Station",
-        canton: getSwissCantonFromCoordinates(lat, lng),
-        municipality: "Swiss Municipality",
-        dataSource: "MeteoSwiss SwissMetNet",
-        timestamp: new Date().toISOString(),
+        ...weather,
+        location: describePoint(lat, lng, includeLv95),
+        canton: adminArea.canton,
+        observedAt: weather.observedAt.toISOString(),
+        timestamp: weather.observedAt.toISOString(),
       };
 
       res.json(currentWeather);
@@ -164,81 +342,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid coordinates", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to fetch weather data" });
+      console.error("Weather lookup failed:", error);
+      res.status(500).json({ message: "Failed to fetch current weather" });
+    }
+  });
+
+  app.get("/api/weather/interpolated", async (req, res) => {
+    try {
+      const { lat, lng, includeLv95 } = parseCoordinatesQuery(req.query, 1);
+
+      const estimate = await interpolateWeather(lat, lng);
+      if (!estimate) {
+        return res.status(404).json({ message: "No recent station readings near this position" });
+      }
+      res.json({ ...estimate, source: "interpolated", isFallback: true, location: describePoint(lat, lng, includeLv95) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coordinates", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to interpolate weather" });
+    }
+  });
+
+  app.get("/api/weather/ingestion/status", async (req, res) => {
+    try {
+      res.json(await weatherIngestion.getStatus());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get weather ingestion status" });
     }
   });
 
   // Swiss Geodata Integration Routes
   app.get("/api/swiss/forest-types", async (req, res) => {
     try {
-      const { lat, lng, radius = 5 } = coordinatesSchema.parse({
-        lat: parseFloat(req.query.lat as string),
-        lng: parseFloat(req.query.lng as string),
-        radius: parseFloat(req.query.radius as string) || 5,
-      });
+      const { lat, lng, radius, includeLv95 } = parseCoordinatesQuery(req.query, 5);
 
-      // Mock Swiss forest type data based on swisstopo classifications
-      const forestTypes = [
-        {
-          id: "conifer-mixed",
-          name: "Nadelholz-Laubholz-Mischwald",
-          type: "Mixed Conifer-Deciduous",
-          coverage: 0.65,
-          dominantSpecies: ["Picea abies", "Fagus sylvatica", "Abies alba"],
-          elevation: "600-1200m",
-          soilType: "Brown forest soil",
-          mushroomSuitability: "high",
-          optimalSpecies: ["Boletus edulis", "Cantharellus cibarius"]
-        },
-        {
-          id: "beech-forest",
-          name: "Buchenwald",
-          type: "Beech Forest",
-          coverage: 0.25,
-          dominantSpecies: ["Fagus sylvatica"],
-          elevation: "400-1000m", 
-          soilType: "Calcareous soil",
-          mushroomSuitability: "medium",
-          optimalSpecies: ["Cantharellus cibarius", "Lactarius deliciosus"]
-        },
-        {
-          id: "spruce-forest",
-          name: "Fichtenwald",
-          type: "Spruce Forest",
-          coverage: 0.10,
-          dominantSpecies: ["Picea abies"],
-          elevation: "800-1600m",
-          soilType: "Acidic forest soil",
-          mushroomSuitability: "high",
-          optimalSpecies: ["Boletus edulis", "Suillus luteus"]
-        }
-      ];
+      const composition = await forestTypes.getComposition(lat, lng, radius);
 
       res.json({
-        location: { lat, lng },
+        location: describePoint(lat, lng, includeLv95),
         radius,
-        forestTypes,
-        dataSource: "swisstopo - Swiss Federal Office of Topography",
+        forestCoverage: composition.forestCoverage,
+        forestTypes: composition.types.map(type => ({
+          id: type.code,
+          name: type.name,
+          type: type.forestType,
+          coverage: type.coverage,
+          dominantSpecies: type.treeSpecies,
+          soilType: type.soilType ?? null,
+        })),
+        summary: summarizeForest(composition),
+        standLevel: composition.standLevel,
+        dataSource: composition.source,
         wmsLayer: "ch.bafu.waldtypisierung",
         timestamp: new Date().toISOString()
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coordinates", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch Swiss forest data" });
     }
   });
 
   app.get("/api/swiss/elevation", async (req, res) => {
     try {
-      const { lat, lng, radius = 5 } = coordinatesSchema.parse({
-        lat: parseFloat(req.query.lat as string),
-        lng: parseFloat(req.query.lng as string),
-        radius: parseFloat(req.query.radius as string) || 5,
-      });
+      const { lat, lng, includeLv95 } = parseCoordinatesQuery(req.query, 5);
+
+      const terrain = await elevationService.getTerrain(lat, lng);
+      if (!terrain) {
+        return res.status(404).json({ message: "No elevation data for this position" });
+      }
 
-      // Mock Swiss elevation data
       const elevationData = {
-        location: { lat, lng },
-        elevation: Math.floor(400 + Math.random() * 1200), // 400-1600m typical Swiss range
+        location: describePoint(lat, lng, includeLv95),
+        elevation: terrain.elevation,
         contours: [
           { elevation: 500, mushroomSuitability: "medium" },
           { elevation: 750, mushroomSuitability: "high" },
@@ -246,93 +424,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
           { elevation: 1250, mushroomSuitability: "medium" },
           { elevation: 1500, mushroomSuitability: "low" }
         ],
-        terrainType: "Alpine foothills",
-        slope: Math.floor(Math.random() * 30), // degrees
-        aspect: ["North", "Northeast", "East", "Southeast", "South", "Southwest", "West", "Northwest"][Math.floor(Math.random() * 8)],
-        dataSource: "swisstopo - Swiss National Map",
+        terrainType: vegetationBelt(terrain.elevation),
+        slope: terrain.slope, // degrees
+        aspect: terrain.aspect === null ? null : compassDirection(terrain.aspect),
+        aspectDegrees: terrain.aspect,
+        resolution: terrain.cellSize, // metres
+        dataSource: `swisstopo - swissALTI3D / DHM25 (${terrain.source})`,
         wmsLayer: "ch.swisstopo.pixelkarte-farbe-pk25.noscale",
         timestamp: new Date().toISOString()
       };
 
       res.json(elevationData);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coordinates", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch Swiss elevation data" });
     }
   });
 
   app.get("/api/swiss/weather-stations", async (req, res) => {
     try {
-      const { lat, lng, radius = 10 } = coordinatesSchema.parse({
-        lat: parseFloat(req.query.lat as string),
-        lng: parseFloat(req.query.lng as string),
-        radius: parseFloat(req.query.radius as string) || 10,
-      });
+      const { lat, lng, radius, includeLv95 } = parseCoordinatesQuery(req.query, 10);
 
-      // Mock Swiss weather stations data
-      const stations = [
-        {
-          id: "ZUR",
-          name: "Zürich / Fluntern",
-          latitude: 47.3667,
-          longitude: 8.5500,
-          elevation: 556,
-          type: "SwissMetNet",
-          parameters: ["temperature", "humidity", "precipitation", "wind", "pressure"],
-          lastUpdate: new Date().toISOString(),
-          currentConditions: {
-            temperature: 19.2,
-            humidity: 78,
-            windSpeed: 8.5,
-            precipitation: 0.0
-          }
-        },
-        {
-          id: "BER",
-          name: "Bern / Zollikofen", 
-          latitude: 46.9911,
-          longitude: 7.4652,
-          elevation: 552,
-          type: "SwissMetNet",
-          parameters: ["temperature", "humidity", "precipitation", "wind"],
-          lastUpdate: new Date().toISOString(),
-          currentConditions: {
-            temperature: 18.8,
-            humidity: 82,
-            windSpeed: 6.2,
-            precipitation: 0.2
-          }
-        }
-      ];
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+      const [stations, readings, elevation] = await Promise.all([
+        stationRegistry.nearest(lat, lng, radius, limit),
+        storage.getLatestStationReadings(new Date(Date.now() - 24 * 60 * 60 * 1000)),
+        elevationService.getElevation(lat, lng),
+      ]);
 
       res.json({
-        location: { lat, lng },
+        location: { ...describePoint(lat, lng, includeLv95), elevation },
         radius,
-        stations,
+        stations: stations.map(station => {
+          const reading = readings.find(r => r.stationId === station.id);
+          return {
+            ...station,
+            distance: Math.round(station.distance * 100) / 100,
+            lastUpdate: reading?.timestamp?.toISOString() ?? null,
+            currentConditions: reading
+              ? {
+                  temperature: reading.temperature,
+                  humidity: reading.humidity,
+                  windSpeed: reading.windSpeed,
+                  precipitation: reading.precipitation,
+                  source: reading.source ?? "stored",
+                  observedAt: reading.timestamp?.toISOString() ?? null,
+                  isFallback: false,
+                }
+              : null,
+            // The station's temperature moved to the query point's elevation
+            adjustedTemperature: reading?.temperature != null && elevation !== null
+              ? correctTemperatureForElevation(reading.temperature, station.elevation, elevation)
+              : null,
+          };
+        }),
         dataSource: "MeteoSwiss SwissMetNet",
         wmsLayer: "ch.meteoschweiz.messwerte-lufttemperatur-10min",
         timestamp: new Date().toISOString()
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coordinates", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch Swiss weather station data" });
     }
   });
 
   // User finds routes
-  app.get("/api/finds", async (req, res) => {
+  app.get("/api/finds", requireAuth, async (req, res) => {
     try {
-      const userId = req.query.userId as string;
-      const finds = await storage.getUserFinds(userId);
-      res.json(finds);
+      const finds = await storage.getUserFinds(req.user!.id);
+      const includeLv95 = wantsLv95(req.query);
+      res.json(finds.map(find => withLv95(find, includeLv95)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch finds" });
     }
   });
 
-  app.post("/api/finds", async (req, res) => {
+  app.post("/api/finds", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertUserFindSchema.parse(req.body);
-      const find = await storage.createUserFind(validatedData);
-      res.status(201).json(find);
+      const validatedData = userFindInputSchema.parse(withWgs84Position(req.body));
+      const withPhoto = await withOwnedPhoto(validatedData, req.user!.id);
+      if (!withPhoto) {
+        return res.status(400).json({ message: "Photo not found" });
+      }
+      const find = await storage.createUserFind({
+        ...(await withPositionDetails(await snapFindToLocation(withPhoto))),
+        userId: req.user!.id,
+      });
+      res.status(201).json(withLv95(find, wantsLv95(req.body)));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid find data", errors: error.errors });
@@ -341,6 +524,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Photos that kept their EXIF position reveal where the find was made, so only
+  // their uploader gets them
+  app.get(`${photoDriver.publicPath}/${LOCATED_PHOTO_PREFIX}/:file`, requireAuth, async (req, res) => {
+    try {
+      const photo = await storage.getFindPhotoByUrl(`${photoDriver.publicPath}/${LOCATED_PHOTO_PREFIX}/${req.params.file}`);
+      const file = photo && photo.userId === req.user!.id ? photoDriver.fileFor(photo.photoUrl) : null;
+      if (!file) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      res.sendFile(file);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch photo" });
+    }
+  });
+
+  // Dot directories, and so located photos, are not served however the path is encoded
+  app.use(photoDriver.publicPath, express.static(photoDriver.rootDir, { dotfiles: "ignore" }));
+
+  app.post("/api/finds/photos", requireAuth, receivePhoto, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "An image file is required in the 'photo' field" });
+      }
+
+      const photo = await photoService.storePhoto(req.file.buffer, {
+        keepLocation: req.body.keepLocation === "true",
+      });
+      if (!photo) {
+        return res.status(400).json({ message: "The photo could not be read as an image" });
+      }
+      await storage.createFindPhoto({ ...photo, userId: req.user!.id });
+      res.status(201).json(photo);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to store photo" });
+    }
+  });
+
+  app.get("/api/finds/:id", requireAuth, async (req, res) => {
+    try {
+      const find = await storage.getUserFindById(req.params.id);
+      // Another forager's find is reported as missing so ids cannot be probed
+      if (!find || find.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Find not found" });
+      }
+      res.json(withLv95(find, wantsLv95(req.query)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch find" });
+    }
+  });
+
+  app.patch("/api/finds/:id", requireAuth, async (req, res) => {
+    try {
+      const existing = await storage.getUserFindById(req.params.id);
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Find not found" });
+      }
+
+      const updates = userFindInputSchema.partial().parse(withWgs84Position(req.body));
+      const withPhoto = await withOwnedPhoto(updates, req.user!.id, existing);
+      if (!withPhoto) {
+        return res.status(400).json({ message: "Photo not found" });
+      }
+      const find = await storage.updateUserFind(req.params.id, await withPositionDetails(await snapFindToLocation(withPhoto)));
+      if (find && find.photoUrl !== existing.photoUrl) {
+        await releasePhoto(existing.photoUrl, req.user!.id);
+      }
+      res.json(find && withLv95(find, wantsLv95(req.body)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid find data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update find" });
+    }
+  });
+
+  app.delete("/api/finds/:id", requireAuth, async (req, res) => {
+    try {
+      const existing = await storage.getUserFindById(req.params.id);
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Find not found" });
+      }
+
+      await storage.deleteUserFind(req.params.id);
+      await releasePhoto(existing.photoUrl, req.user!.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete find" });
+    }
+  });
+
   // Swiss Fungi integration routes
   app.get("/api/swiss-fungi/status", async (req, res) => {
     try {
@@ -387,6 +660,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // How well the probability engine predicted recorded finds and empty visits
+  app.get("/api/admin/backtest", requireAdmin, async (req, res) => {
+    try {
+      const { format, ...options } = backtestQuerySchema.parse(req.query);
+      const report = await runBacktest(options);
+      if (format === "html") {
+        return res.type("html").send(renderBacktestHtml(report));
+      }
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid backtest query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to run backtest" });
+    }
+  });
+
   // Enhanced species search with Swiss Fungi data
   app.get("/api/species/search", async (req, res) => {
     try {
@@ -407,169 +697,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Enhanced probability analysis endpoint
-  app.get("/api/locations/:id/probability-analysis", async (req, res) => {
+  // Daily probability forecast for a location from the provider's daily weather
+  app.get("/api/locations/:id/forecast", async (req, res) => {
     try {
       const location = await storage.getForagingLocationById(req.params.id);
       if (!location) {
         return res.status(404).json({ message: "Location not found" });
       }
 
-      const weather = await storage.getLatestWeatherForLocation(req.params.id);
-      const species = await storage.getMushroomSpecies();
-
-      // Calculate detailed probability for each species
-      const speciesAnalysis = species.map(species => {
-        let factors = {
-          elevation: 0,
-          forestType: 0,
-          treeSpecies: 0,
-          season: 0,
-          temperature: 0,
-          humidity: 0,
-          rainfall: 0,
-          soilTemp: 0,
-          total: 0
-        };
-
-        // Elevation factor
-        if (location.elevation && species.elevationMin && species.elevationMax) {
-          if (location.elevation >= species.elevationMin && location.elevation <= species.elevationMax) {
-            factors.elevation = 20;
-          } else {
-            const minDiff = Math.abs(location.elevation - species.elevationMin);
-            const maxDiff = Math.abs(location.elevation - species.elevationMax);
-            const closestDiff = Math.min(minDiff, maxDiff);
-            if (closestDiff <= 100) factors.elevation = 15;
-            else if (closestDiff <= 200) factors.elevation = 10;
-            else if (closestDiff <= 400) factors.elevation = 5;
-          }
-        } else {
-          factors.elevation = 10;
-        }
-
-        // Forest type factor
-        if (location.forestType && species.forestTypes && species.forestTypes.length > 0) {
-          const forestMatch = species.forestTypes.some(type => {
-            const locationType = location.forestType?.toLowerCase() || "";
-            const speciesType = type.toLowerCase();
-            return locationType.includes(speciesType) || speciesType.includes(locationType);
-          });
-          factors.forestType = forestMatch ? 15 : 5;
-        } else {
-          factors.forestType = 8;
-        }
-
-        // Tree species factor
-        if (location.treeSpecies && species.treeAssociations && species.treeAssociations.length > 0) {
-          const matchingTrees = location.treeSpecies.filter(tree =>
-            species.treeAssociations!.some(assoc =>
-              tree.toLowerCase().includes(assoc.toLowerCase()) ||
-              assoc.toLowerCase().includes(tree.toLowerCase())
-            )
-          );
-          const matchRatio = matchingTrees.length / Math.max(location.treeSpecies.length, 1);
-          if (matchRatio >= 0.5) factors.treeSpecies = 15;
-          else if (matchRatio >= 0.3) factors.treeSpecies = 10;
-          else if (matchRatio >= 0.1) factors.treeSpecies = 5;
-          else factors.treeSpecies = 2;
-        } else {
-          factors.treeSpecies = 8;
-        }
-
-        // Season factor
-        const currentMonth = new Date().getMonth();
-        factors.season = getSeasonScore(species.season, currentMonth);
-
-        // Weather factors
-        if (weather) {
-          // Temperature
-          if (species.optimalTemp && weather.temperature) {
-            const tempDiff = Math.abs(weather.temperature - species.optimalTemp);
-            if (tempDiff <= 3) factors.temperature = 15;
-            else if (tempDiff <= 6) factors.temperature = 10;
-            else if (tempDiff <= 10) factors.temperature = 5;
-            else factors.temperature = 2;
-          } else if (weather.temperature) {
-            if (weather.temperature >= 15 && weather.temperature <= 22) factors.temperature = 12;
-            else if (weather.temperature >= 10 && weather.temperature <= 25) factors.temperature = 8;
-            else factors.temperature = 4;
-          } else {
-            factors.temperature = 8;
-          }
-
-          // Humidity
-          if (species.optimalHumidity && weather.humidity) {
-            const humidityDiff = Math.abs(weather.humidity - species.optimalHumidity);
-            if (humidityDiff <= 5) factors.humidity = 10;
-            else if (humidityDiff <= 15) factors.humidity = 6;
-            else factors.humidity = 3;
-          } else if (weather.humidity) {
-            if (weather.humidity >= 80) factors.humidity = 8;
-            else if (weather.humidity >= 70) factors.humidity = 6;
-            else factors.humidity = 3;
-          } else {
-            factors.humidity = 5;
-          }
-
-          // Rainfall
-          if (weather.lastRainfall !== undefined && weather.lastRainfall !== null) {
-            if (weather.lastRainfall <= 3) factors.rainfall = 10;
-            else if (weather.lastRainfall <= 7) factors.rainfall = 6;
-            else if (weather.lastRainfall <= 14) factors.rainfall = 3;
-            else factors.rainfall = 1;
-          } else {
-            factors.rainfall = 5;
-          }
-
-          // Soil temperature
-          if (species.soilTempMin && weather.soilTemperature) {
-            if (weather.soilTemperature >= species.soilTempMin + 3) factors.soilTemp = 10;
-            else if (weather.soilTemperature >= species.soilTempMin) factors.soilTemp = 6;
-            else if (weather.soilTemperature >= species.soilTempMin - 3) factors.soilTemp = 3;
-            else factors.soilTemp = 1;
-          } else if (weather.soilTemperature) {
-            if (weather.soilTemperature >= 12) factors.soilTemp = 8;
-            else if (weather.soilTemperature >= 8) factors.soilTemp = 5;
-            else factors.soilTemp = 2;
-          } else {
-            factors.soilTemp = 5;
-          }
-        } else {
-          factors.temperature = 8;
-          factors.humidity = 5;
-          factors.rainfall = 5;
-          factors.soilTemp = 5;
-        }
-
-        factors.total = Math.min(
-          factors.elevation + factors.forestType + factors.treeSpecies + 
-          factors.season + factors.temperature + factors.humidity + 
-          factors.rainfall + factors.soilTemp,
-          100
-        );
+      const [daily, conditions, species] = await Promise.all([
+        weatherProvider.getDailyWeather(location.latitude, location.longitude),
+        getWeatherConditions(location.id),
+        storage.getMushroomSpecies(),
+      ]);
+      const startingDaysSinceRain = conditions?.derived?.daysSinceRain ?? conditions?.lastRainfall ?? null;
 
+      const days = buildForecastConditions(location.id, daily, startingDaysSinceRain).map(({ date, weather }) => {
+        const { probability, suitableSpecies } = calculateLocationProbability(location, species, weather, weather.timestamp!);
         return {
-          species: {
-            id: species.id,
-            name: species.name,
-            scientificName: species.scientificName,
-            edible: species.edible,
-            difficulty: species.difficulty,
-            season: species.season
+          date,
+          probability,
+          topSpecies: suitableSpecies.slice(0, 3),
+          conditions: {
+            temperature: weather.temperature,
+            humidity: weather.humidity,
+            precipitation: weather.precipitation,
+            soilTemperature: weather.soilTemperature,
+            daysSinceRain: weather.lastRainfall,
           },
-          probability: factors.total,
-          factors,
-          explanation: generateProbabilityExplanation(factors, species, location, weather)
         };
       });
 
-      // Sort by probability
-      speciesAnalysis.sort((a, b) => b.probability - a.probability);
+      const forecast: LocationForecast = {
+        locationId: location.id,
+        dataSource: weatherProvider.name,
+        days,
+      };
+      res.json(forecast);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate forecast" });
+    }
+  });
+
+  // GET takes ?asOf=; POST also takes a what-if scenario body { asOf?, weather? }
+  const probabilityAnalysis = async (req: Request, res: Response) => {
+    try {
+      const { asOf, weather: scenario } = probabilityScenarioSchema.parse({ asOf: req.query.asOf, ...req.body });
+      const location = await storage.getForagingLocationById(req.params.id);
+      if (!location) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+
+      const date = asOf ?? new Date();
+      const observed = await getWeatherConditions(req.params.id, date);
+      const weather = scenario ? applyWeatherScenario(observed, scenario) : observed;
+      const species = await storage.getMushroomSpecies();
 
-      // Overall location probability
-      const overallProbability = calculateForagingProbability(location, weather);
-      const suitableSpecies = await getSuitableSpeciesForLocation(location, weather);
+      const result = calculateLocationProbability(location, species, weather, date);
+
+      const speciesAnalysis = result.speciesProbabilities.map(({ species, probability, factors, phenology }) => ({
+        species: {
+          id: species.id,
+          name: species.name,
+          scientificName: species.scientificName,
+          edible: species.edible,
+          difficulty: species.difficulty,
+          season: species.season
+        },
+        probability,
+        factors,
+        phenology,
+        explanation: explainProbability(factors, { species, location, weather, phenology })
+      }));
 
       res.json({
         location: {
@@ -584,16 +783,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
           humidity: weather.humidity,
           soilTemperature: weather.soilTemperature,
           lastRainfall: weather.lastRainfall,
-          timestamp: weather.timestamp
+          timestamp: observed?.timestamp ?? null,
+          derived: weather.derived
         } : null,
-        overallProbability,
-        suitableSpecies,
+        engineVersion: result.version,
+        overallProbability: result.probability,
+        suitableSpecies: result.suitableSpecies,
         speciesAnalysis: speciesAnalysis.slice(0, 10), // Top 10 species
+        asOf: date.toISOString(),
+        scenario: scenario ?? null,
         timestamp: new Date().toISOString()
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid probability scenario", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to generate probability analysis" });
     }
+  };
+
+  app.get("/api/locations/:id/probability-analysis", probabilityAnalysis);
+  app.post("/api/locations/:id/probability-analysis", probabilityAnalysis);
+
+  // Heat map of forest cells scored like foraging locations; bbox=minLng,minLat,maxLng,maxLat,
+  // resolution in metres and an optional species id to score for that species alone
+  app.get("/api/probability/grid", async (req, res) => {
+    try {
+      const { bbox, resolution, species: speciesId } = probabilityGridSchema.parse(req.query);
+
+      const cells = probabilityGrid.countCells(bbox, resolution);
+      if (cells > MAX_GRID_CELLS) {
+        return res.status(400).json({
+          message: `Grid would evaluate ${cells} cells; zoom in or use a coarser resolution (at most ${MAX_GRID_CELLS})`,
+        });
+      }
+
+      const species = speciesId ? await storage.getMushroomSpeciesById(speciesId) : null;
+      if (speciesId && !species) {
+        return res.status(404).json({ message: "Species not found" });
+      }
+
+      res.json(await probabilityGrid.getGrid(bbox, resolution, species ?? null));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid grid query", errors: error.errors });
+      }
+      console.error("Probability grid failed:", error);
+      res.status(500).json({ message: "Failed to generate probability grid" });
+    }
   });
 
   const httpServer = createServer(app);
@@ -601,404 +838,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
 }
 
 // Helper functions
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = deg2rad(lat2 - lat1);
-  const dLng = deg2rad(lng2 - lng1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
+/**
+ * Attach a find with GPS coordinates to the nearest foraging location within
+ * FIND_SNAP_RADIUS_KM, or leave it unattached. An explicit locationId wins.
+ */
+async function snapFindToLocation<T extends Partial<InsertUserFind>>(find: T): Promise<T> {
+  if (find.locationId || find.latitude == null || find.longitude == null) {
+    return find;
+  }
 
-function deg2rad(deg: number): number {
-  return deg * (Math.PI / 180);
+  const nearest = await storage.getNearestLocation(find.latitude, find.longitude, FIND_SNAP_RADIUS_KM);
+  return { ...find, locationId: nearest?.id ?? null };
 }
 
-function calculateForagingProbability(location: ForagingLocation, weather: WeatherData | null): number {
-  let probability = 50; // Base probability
-
-  // Enhanced elevation factor for Swiss conditions
-  if (location.elevation) {
-    if (location.elevation >= 400 && location.elevation <= 1200) {
-      probability += 15; // Optimal Swiss mushroom zone
-    } else if (location.elevation >= 200 && location.elevation <= 1600) {
-      probability += 10; // Good zone
-    } else if (location.elevation >= 100 && location.elevation <= 2000) {
-      probability += 5; // Fair zone
-    }
-    // Penalty for extreme elevations
-    if (location.elevation > 2500 || location.elevation < 100) {
-      probability -= 10;
-    }
+/**
+ * Check that the photo a find links to was uploaded by the find's owner, or is the
+ * one the find already has, and take its thumbnail from the upload rather than the
+ * request. Undefined when the photo is someone else's or unknown.
+ */
+async function withOwnedPhoto<T extends Partial<InsertUserFind>>(
+  find: T,
+  userId: string,
+  current?: UserFind,
+): Promise<T | undefined> {
+  const { thumbnailUrl: _ignored, ...rest } = find;
+  if (find.photoUrl === undefined) {
+    return rest as T;
   }
-
-  // Enhanced forest type factor
-  if (location.forestType) {
-    const forestType = location.forestType.toLowerCase();
-    if (forestType.includes("mixed")) {
-      probability += 12; // Mixed forests are excellent for diversity
-    } else if (forestType.includes("conifer") || forestType.includes("hardwood")) {
-      probability += 8; // Single-type forests are still good
-    } else if (forestType.includes("deciduous")) {
-      probability += 8; // Deciduous = hardwood
-    }
+  if (find.photoUrl === null) {
+    return { ...rest, thumbnailUrl: null } as T;
   }
-
-  // Tree species factor - bonus for diverse tree species
-  if (location.treeSpecies && location.treeSpecies.length > 0) {
-    if (location.treeSpecies.length >= 4) {
-      probability += 8; // High diversity
-    } else if (location.treeSpecies.length >= 2) {
-      probability += 5; // Good diversity
-    }
-    
-    // Bonus for specific valuable tree associations
-    const valuableTrees = ['Oak', 'Beech', 'Birch', 'Pine', 'Spruce', 'Fir'];
-    const hasValuableTrees = location.treeSpecies.some((tree: string) => 
-      valuableTrees.some((valuable: string) => 
-        tree.toLowerCase().includes(valuable.toLowerCase())
-      )
-    );
-    if (hasValuableTrees) {
-      probability += 5;
-    }
+  if (current && find.photoUrl === current.photoUrl) {
+    return { ...rest, thumbnailUrl: current.thumbnailUrl } as T;
   }
 
-  // Enhanced weather factors
-  if (weather) {
-    // Temperature factor - more nuanced
-    if (weather.temperature >= 15 && weather.temperature <= 22) {
-      probability += 15; // Perfect range
-    } else if (weather.temperature >= 12 && weather.temperature <= 25) {
-      probability += 10; // Good range
-    } else if (weather.temperature >= 8 && weather.temperature <= 28) {
-      probability += 5; // Fair range
-    } else if (weather.temperature < 5 || weather.temperature > 35) {
-      probability -= 10; // Too extreme
-    }
-
-    // Humidity factor - mushrooms love moisture
-    if (weather.humidity >= 85) {
-      probability += 12; // Excellent
-    } else if (weather.humidity >= 75) {
-      probability += 10; // Very good
-    } else if (weather.humidity >= 65) {
-      probability += 6; // Good
-    } else if (weather.humidity >= 55) {
-      probability += 3; // Fair
-    } else {
-      probability -= 5; // Too dry
-    }
-
-    // Recent rainfall factor - crucial for mushroom growth
-    if (weather.lastRainfall !== undefined && weather.lastRainfall !== null) {
-      if (weather.lastRainfall <= 2) {
-        probability += 15; // Perfect - recent rain
-      } else if (weather.lastRainfall <= 4) {
-        probability += 12; // Excellent
-      } else if (weather.lastRainfall <= 7) {
-        probability += 8; // Good
-      } else if (weather.lastRainfall <= 14) {
-        probability += 4; // Fair
-      } else if (weather.lastRainfall <= 21) {
-        probability += 1; // Poor
-      } else {
-        probability -= 5; // Too dry
-      }
-    }
-
-    // Soil temperature factor - enhanced
-    if (weather.soilTemperature !== undefined && weather.soilTemperature !== null) {
-      if (weather.soilTemperature >= 12 && weather.soilTemperature <= 20) {
-        probability += 12; // Optimal
-      } else if (weather.soilTemperature >= 8 && weather.soilTemperature <= 25) {
-        probability += 8; // Good
-      } else if (weather.soilTemperature >= 5 && weather.soilTemperature <= 30) {
-        probability += 4; // Fair
-      } else {
-        probability -= 5; // Too extreme
-      }
-    }
-
-    // Pressure factor - stable weather is good
-    if (weather.pressure) {
-      if (weather.pressure >= 1010 && weather.pressure <= 1025) {
-        probability += 3; // Stable conditions
-      } else if (weather.pressure < 995 || weather.pressure > 1035) {
-        probability -= 3; // Unstable weather
-      }
-    }
-
-    // Wind factor - calm conditions are better
-    if (weather.windSpeed !== undefined) {
-      if (weather.windSpeed <= 10) {
-        probability += 2; // Calm conditions
-      } else if (weather.windSpeed > 25) {
-        probability -= 3; // Too windy
-      }
-    }
+  const photo = await storage.getFindPhotoByUrl(find.photoUrl);
+  if (!photo || photo.userId !== userId) {
+    return undefined;
   }
+  return { ...rest, thumbnailUrl: photo.thumbnailUrl } as T;
+}
 
-  // Seasonal factor based on current month
-  const currentMonth = new Date().getMonth(); // 0-11
-  if (currentMonth >= 8 && currentMonth <= 10) { // Sep-Nov (Fall)
-    probability += 8; // Peak mushroom season
-  } else if (currentMonth >= 5 && currentMonth <= 7) { // Jun-Aug (Summer)
-    probability += 6; // Good season
-  } else if (currentMonth >= 2 && currentMonth <= 4) { // Mar-May (Spring)
-    probability += 4; // Fair season
-  } else { // Winter months
-    probability += 1; // Limited season
-  }
+/**
+ * Delete a photo's files once none of its owner's finds links it any more. Photos
+ * with no upload record cannot be shown to be the user's and are left alone.
+ */
+async function releasePhoto(photoUrl: string | null, userId: string): Promise<void> {
+  if (!photoUrl) return;
 
-  // Accessibility bonus - easier access means more likely to find mushrooms
-  if (location.accessibility) {
-    if (location.accessibility === "easy") {
-      probability += 3;
-    } else if (location.accessibility === "moderate") {
-      probability += 1;
-    }
-    // Difficult access gets no bonus but no penalty
-  }
+  const photo = await storage.getFindPhotoByUrl(photoUrl);
+  if (!photo || photo.userId !== userId) return;
+
+  const finds = await storage.getUserFinds(userId);
+  if (finds.some(find => find.photoUrl === photoUrl)) return;
 
-  return Math.min(Math.max(probability, 0), 100);
+  await photoService.deletePhoto(photo);
+  await storage.deleteFindPhoto(photo.id);
 }
 
-async function getSuitableSpeciesForLocation(location: ForagingLocation, weather: WeatherData | null): Promise<string[]> {
-  const species = await storage.getMushroomSpecies();
-  const currentMonth = new Date().getMonth();
-  
-  const suitableSpecies = species.filter(species => {
-    let score = 0;
-    
-    // Elevation check
-    if (location.elevation && species.elevationMin && species.elevationMax) {
-      if (location.elevation >= species.elevationMin && location.elevation <= species.elevationMax) {
-        score += 20;
-      } else {
-        const minDiff = Math.abs(location.elevation - species.elevationMin);
-        const maxDiff = Math.abs(location.elevation - species.elevationMax);
-        const closestDiff = Math.min(minDiff, maxDiff);
-        if (closestDiff <= 200) score += 10;
-        else if (closestDiff <= 500) score += 5;
-      }
-    } else {
-      score += 10; // Default score if no elevation data
-    }
-    
-    // Forest type check
-    if (location.forestType && species.forestTypes && species.forestTypes.length > 0) {
-      const forestMatch = species.forestTypes.some(type => {
-        const locationType = location.forestType?.toLowerCase() || "";
-        const speciesType = type.toLowerCase();
-        
-        if (locationType === speciesType) return true;
-        if (locationType.includes("mixed") && speciesType.includes("mixed")) return true;
-        if (locationType.includes("conifer") && speciesType.includes("conifer")) return true;
-        if (locationType.includes("hardwood") && speciesType.includes("hardwood")) return true;
-        if (locationType.includes("deciduous") && speciesType.includes("hardwood")) return true;
-        
-        return false;
-      });
-      
-      if (forestMatch) score += 15;
-      else score += 5;
-    } else {
-      score += 8;
-    }
-    
-    // Tree species check
-    if (location.treeSpecies && species.treeAssociations && species.treeAssociations.length > 0) {
-      const matchingTrees = location.treeSpecies.filter((tree: string) =>
-        species.treeAssociations!.some((assoc: string) =>
-          tree.toLowerCase().includes(assoc.toLowerCase()) ||
-          assoc.toLowerCase().includes(tree.toLowerCase())
-        )
-      );
-      
-      const matchRatio = matchingTrees.length / Math.max(location.treeSpecies.length, 1);
-      if (matchRatio >= 0.5) score += 15;
-      else if (matchRatio >= 0.3) score += 10;
-      else if (matchRatio >= 0.1) score += 5;
-    } else {
-      score += 8;
-    }
-    
-    // Season check - improved logic
-    const seasonScore = getSeasonScore(species.season, currentMonth);
-    score += seasonScore;
-    
-    // Weather compatibility
-    if (weather) {
-      if (species.optimalTemp && weather.temperature) {
-        const tempDiff = Math.abs(weather.temperature - species.optimalTemp);
-        if (tempDiff <= 5) score += 10;
-        else if (tempDiff <= 10) score += 5;
-      }
-      
-      if (species.optimalHumidity && weather.humidity) {
-        const humidityDiff = Math.abs(weather.humidity - species.optimalHumidity);
-        if (humidityDiff <= 10) score += 10;
-        else if (humidityDiff <= 20) score += 5;
-      }
-    }
-    
-    return score >= 40; // Threshold for "suitable"
+/**
+ * Fill in the canton and, when the device gave none, the elevation of a find
+ * recorded with GPS coordinates
+ */
+async function withPositionDetails<T extends Partial<InsertUserFind>>(find: T): Promise<T> {
+  if (find.latitude == null || find.longitude == null) {
+    return find;
+  }
+  const [adminArea, elevation] = await Promise.all([
+    geoAdmin.resolve(find.latitude, find.longitude),
+    find.elevation ?? elevationService.getElevation(find.latitude, find.longitude),
+  ]);
+  return { ...find, ...adminArea, elevation };
+}
+
+/**
+ * Read a point and search radius from query parameters: lat/lng in WGS84, or e/n
+ * in a Swiss grid when crs=lv95 or crs=lv03
+ */
+function parseCoordinatesQuery(query: Request["query"], defaultRadius: number) {
+  const crs = crsSchema.parse(query.crs);
+  const point = crs === "wgs84"
+    ? { lat: parseFloat(query.lat as string), lng: parseFloat(query.lng as string) }
+    : toWgs84(crs, parseFloat(query.e as string), parseFloat(query.n as string));
+
+  const coordinates = coordinatesSchema.parse({
+    ...point,
+    radius: query.radius === undefined ? defaultRadius : Number(query.radius),
   });
-  
-  return suitableSpecies.map(s => s.name);
+  return { ...coordinates, includeLv95: wantsLv95(query) };
 }
 
-function getSeasonScore(mushroomSeason: string, currentMonth: number): number {
-  if (mushroomSeason === "All Year") return 15;
-  
-  // Handle multi-season species
-  const seasons = mushroomSeason.split(',').map(s => s.trim());
-  let maxScore = 0;
-  
-  for (const season of seasons) {
-    let seasonScore = getSingleSeasonScore(season, currentMonth);
-    maxScore = Math.max(maxScore, seasonScore);
+/**
+ * Request bodies may give a position as east/north in a Swiss grid, with crs=lv95
+ * or crs=lv03, instead of latitude/longitude
+ */
+function withWgs84Position(body: Record<string, unknown> | undefined): Record<string, unknown> {
+  const { crs, east, north } = bodyPositionSchema.parse(body ?? {});
+  if (crs === "wgs84" || east == null || north == null) {
+    return body ?? {};
   }
-  
-  return maxScore || getSingleSeasonScore(mushroomSeason, currentMonth);
+
+  const { lat, lng } = toWgs84(crs, east, north);
+  return { ...body, latitude: lat, longitude: lng };
 }
 
-function getSingleSeasonScore(season: string, currentMonth: number): number {
-  let isInSeason = false;
-  let isAdjacentSeason = false;
-  
-  switch (season) {
-    case "Spring":
-      isInSeason = currentMonth >= 2 && currentMonth <= 4; // Mar-May
-      isAdjacentSeason = currentMonth === 1 || currentMonth === 5; // Feb, Jun
-      break;
-    case "Summer":
-      isInSeason = currentMonth >= 5 && currentMonth <= 7; // Jun-Aug
-      isAdjacentSeason = currentMonth === 4 || currentMonth === 8; // May, Sep
-      break;
-    case "Fall":
-      isInSeason = currentMonth >= 8 && currentMonth <= 10; // Sep-Nov
-      isAdjacentSeason = currentMonth === 7 || currentMonth === 11; // Aug, Dec
-      break;
-    case "Winter":
-      isInSeason = currentMonth === 11 || currentMonth <= 1; // Dec-Feb
-      isAdjacentSeason = currentMonth === 2 || currentMonth === 10; // Mar, Nov
-      break;
-  }
-  
-  if (isInSeason) return 15;
-  if (isAdjacentSeason) return 8;
-  return 3; // Out of season
+/**
+ * Responses carry LV95 coordinates when the caller sent a Swiss grid position or
+ * asked for them with includeLv95=true
+ */
+function wantsLv95(params: Record<string, unknown> | undefined): boolean {
+  const includeLv95 = params?.includeLv95;
+  return includeLv95 === true || includeLv95 === "true" || params?.crs === "lv95" || params?.crs === "lv03";
 }
 
-function generateProbabilityExplanation(factors: any, species: any, location: any, weather: any): string[] {
-  const explanations: string[] = [];
-  
-  // Elevation explanation
-  if (factors.elevation >= 15) {
-    explanations.push(`Perfect elevation (${location.elevation}m) for ${species.name}`);
-  } else if (factors.elevation >= 10) {
-    explanations.push(`Good elevation range for this species`);
-  } else if (factors.elevation >= 5) {
-    explanations.push(`Fair elevation, some distance from optimal range`);
-  } else {
-    explanations.push(`Elevation not ideal for this species`);
-  }
-  
-  // Forest type explanation
-  if (factors.forestType >= 12) {
-    explanations.push(`Excellent forest type match (${location.forestType})`);
-  } else if (factors.forestType >= 8) {
-    explanations.push(`Good forest compatibility`);
-  } else {
-    explanations.push(`Limited forest type compatibility`);
-  }
-  
-  // Tree species explanation
-  if (factors.treeSpecies >= 12) {
-    explanations.push(`Excellent tree species associations`);
-  } else if (factors.treeSpecies >= 8) {
-    explanations.push(`Good tree compatibility`);
-  } else if (factors.treeSpecies >= 5) {
-    explanations.push(`Some tree species match`);
-  } else {
-    explanations.push(`Limited tree species compatibility`);
-  }
-  
-  // Season explanation
-  if (factors.season >= 12) {
-    explanations.push(`Peak season for ${species.name}`);
-  } else if (factors.season >= 8) {
-    explanations.push(`Good seasonal timing`);
-  } else if (factors.season >= 5) {
-    explanations.push(`Fair seasonal conditions`);
-  } else {
-    explanations.push(`Outside optimal season`);
-  }
-  
-  // Weather explanations
-  if (weather) {
-    if (factors.temperature >= 12) {
-      explanations.push(`Optimal temperature conditions (${weather.temperature}°C)`);
-    } else if (factors.temperature >= 8) {
-      explanations.push(`Good temperature for mushroom growth`);
-    } else if (factors.temperature >= 4) {
-      explanations.push(`Fair temperature conditions`);
-    } else {
-      explanations.push(`Temperature not ideal for mushrooms`);
-    }
-    
-    if (factors.humidity >= 8) {
-      explanations.push(`Excellent humidity levels (${weather.humidity}%)`);
-    } else if (factors.humidity >= 5) {
-      explanations.push(`Good humidity for mushroom development`);
-    } else {
-      explanations.push(`Low humidity conditions`);
-    }
-    
-    if (factors.rainfall >= 8) {
-      explanations.push(`Perfect soil moisture from recent rain (${weather.lastRainfall} days ago)`);
-    } else if (factors.rainfall >= 5) {
-      explanations.push(`Good soil moisture conditions`);
-    } else if (factors.rainfall >= 3) {
-      explanations.push(`Some soil moisture available`);
-    } else {
-      explanations.push(`Dry soil conditions`);
-    }
-    
-    if (factors.soilTemp >= 8) {
-      explanations.push(`Optimal soil temperature (${weather.soilTemperature}°C)`);
-    } else if (factors.soilTemp >= 5) {
-      explanations.push(`Good soil temperature for growth`);
-    } else {
-      explanations.push(`Soil temperature not optimal`);
-    }
-  }
-  
-  // Safety note for dangerous species
-  if (!species.edible) {
-    if (species.safetyNotes?.includes('DEADLY') || species.safetyNotes?.includes('DANGEROUS')) {
-      explanations.push(`⚠️ WARNING: ${species.name} is highly toxic - never consume!`);
-    } else {
-      explanations.push(`ℹ️ Note: ${species.name} is not edible`);
-    }
+function describePoint(lat: number, lng: number, includeLv95: boolean) {
+  return includeLv95 ? { lat, lng, lv95: roundGrid(wgs84ToLv95(lat, lng)) } : { lat, lng };
+}
+
+function withLv95<T extends { latitude: number | null; longitude: number | null }>(item: T, includeLv95: boolean) {
+  if (!includeLv95) {
+    return item;
   }
-  
-  return explanations;
+  const lv95 = item.latitude != null && item.longitude != null
+    ? roundGrid(wgs84ToLv95(item.latitude, item.longitude))
+    : null;
+  return { ...item, lv95 };
+}
+
+// Decimetres are well below both GPS and transform accuracy
+function roundGrid({ east, north }: { east: number; north: number }) {
+  return { east: Math.round(east * 10) / 10, north: Math.round(north * 10) / 10 };
+}
+
+// Vegetation belts of the northern Alps; the boundaries sit 200-300 m higher in Valais and Ticino
+function vegetationBelt(elevation: number): string {
+  if (elevation < 600) return "Colline";
+  if (elevation < 1200) return "Montane";
+  if (elevation < 1900) return "Subalpine";
+  return "Alpine";
 }
 
-// Swiss Canton lookup helper function
-function getSwissCantonFromCoordinates(lat: number, lng: number): string {
-  // Simplified canton mapping based on coordinates
-  // In production, this would use proper Swiss geodata
-  if (lat > 47.2 && lat < 47.7 && lng > 8.0 && lng < 8.9) return "Zürich";
-  if (lat > 46.8 && lat < 47.2 && lng > 7.0 && lng < 7.8) return "Bern";
-  if (lat > 46.1 && lat < 46.6 && lng > 6.0 && lng < 7.2) return "Vaud";
-  if (lat > 46.0 && lat < 46.5 && lng > 8.5 && lng < 10.5) return "Graubünden";
-  if (lat > 45.8 && lat < 46.4 && lng > 8.8 && lng < 9.0) return "Ticino";
-  return "Unknown Canton";
+function compassDirection(degrees: number): string {
+  const directions = ["North", "Northeast", "East", "Southeast", "South", "Southwest", "West", "Northwest"];
+  return directions[Math.round(degrees / 45) % 8];
 }
@@ -0,0 +1,151 @@
+import type { MushroomSpecies, ForagingLocation } from "@shared/schema";
+
+// Real Swiss mushroom data used to seed every storage backend.
+// Ids are fixed so seeding is idempotent across restarts. Month weights are derived
+// from each season when the species is stored.
+export const seedSpecies: Array<Omit<MushroomSpecies, "monthWeights" | "peakMonths">> = [
+  {
+    id: "porcini",
+    name: "Porcini",
+    scientificName: "Boletus edulis",
+    description: "Highly prized edible mushroom with a nutty flavor and meaty texture.",
+    season: "Fall",
+    phenologyShift: { referenceElevation: 600, daysPer100m: 3 },
+    optimalTemp: 18,
+    optimalHumidity: 80,
+    soilTempMin: 6,
+    treeAssociations: ["Spruce", "Pine", "Fir", "Beech", "Oak", "Birch"],
+    forestTypes: ["Conifer", "Mixed"],
+    elevationMin: 400,
+    elevationMax: 1500,
+    edible: true,
+    difficulty: "intermediate",
+    imageUrl: "/images/porcini.jpg",
+    safetyNotes: "Avoid specimens with red pore surface or that bruise blue immediately.",
+    createdAt: new Date(),
+  },
+  {
+    id: "chanterelle",
+    name: "Chanterelle",
+    scientificName: "Cantharellus cibarius",
+    description: "Golden trumpet-shaped mushroom with a fruity aroma and peppery taste.",
+    season: "Summer",
+    phenologyShift: null,
+    optimalTemp: 21,
+    optimalHumidity: 85,
+    soilTempMin: 12,
+    treeAssociations: ["Oak", "Beech", "Birch", "Pine"],
+    forestTypes: ["Hardwood", "Mixed"],
+    elevationMin: 300,
+    elevationMax: 1200,
+    edible: true,
+    difficulty: "beginner",
+    imageUrl: "/images/chanterelle.jpg",
+    safetyNotes: "Distinguish from toxic Jack O'Lantern mushrooms by their false gills.",
+    createdAt: new Date(),
+  },
+  {
+    id: "morel",
+    name: "Morel",
+    scientificName: "Morchella esculenta",
+    description: "Honeycomb-textured spring mushroom, highly sought after by foragers.",
+    season: "Spring",
+    phenologyShift: { referenceElevation: 500, daysPer100m: 4 },
+    optimalTemp: 16,
+    optimalHumidity: 75,
+    soilTempMin: 12,
+    treeAssociations: ["Ash", "Elm", "Apple", "Cherry"],
+    forestTypes: ["Hardwood", "Mixed", "Riverbank"],
+    elevationMin: 200,
+    elevationMax: 1000,
+    edible: true,
+    difficulty: "expert",
+    imageUrl: "/images/morel.jpg",
+    safetyNotes: "Must be cooked thoroughly. Never eat raw. Distinguish from toxic false morels.",
+    createdAt: new Date(),
+  },
+  {
+    id: "oyster",
+    name: "Oyster Mushroom",
+    scientificName: "Pleurotus ostreatus",
+    description: "Fan-shaped mushroom growing on dead wood, available year-round.",
+    season: "All Year",
+    phenologyShift: null,
+    optimalTemp: 15,
+    optimalHumidity: 85,
+    soilTempMin: 5,
+    treeAssociations: ["Beech", "Oak", "Poplar", "Willow"],
+    forestTypes: ["Hardwood", "Mixed"],
+    elevationMin: 200,
+    elevationMax: 1400,
+    edible: true,
+    difficulty: "beginner",
+    imageUrl: "/images/oyster.jpg",
+    safetyNotes: "Generally safe for beginners. Grows on dead wood, not living trees.",
+    createdAt: new Date(),
+  }
+];
+
+// Foraging locations around Switzerland
+export const seedLocations: ForagingLocation[] = [
+  {
+    id: "uetliberg-trail",
+    name: "Uetliberg Forest Trail",
+    latitude: 47.3518,
+    longitude: 8.4942,
+    elevation: 745,
+    forestType: "Mixed Conifer",
+    treeSpecies: ["Spruce", "Fir", "Beech"],
+    accessibility: "moderate",
+    parkingAvailable: true,
+    description: "Popular hiking area with diverse forest types ideal for porcini and chanterelles.",
+    municipality: "Zurich",
+    canton: "Zurich",
+    createdAt: new Date(),
+  },
+  {
+    id: "zurichberg-grove",
+    name: "Zurichberg Oak Grove",
+    latitude: 47.3737,
+    longitude: 8.5703,
+    elevation: 680,
+    forestType: "Hardwood",
+    treeSpecies: ["Oak", "Beech", "Maple"],
+    accessibility: "easy",
+    parkingAvailable: true,
+    description: "Oak-dominated forest excellent for chanterelles, especially after rain.",
+    municipality: "Zurich",
+    canton: "Zurich",
+    createdAt: new Date(),
+  },
+  {
+    id: "adliswil-edge",
+    name: "Adliswil Forest Edge",
+    latitude: 47.3095,
+    longitude: 8.5268,
+    elevation: 520,
+    forestType: "Mixed",
+    treeSpecies: ["Ash", "Elm", "Oak", "Pine"],
+    accessibility: "easy",
+    parkingAvailable: false,
+    description: "Forest edge habitat ideal for morels in spring, mixed species year-round.",
+    municipality: "Adliswil",
+    canton: "Zurich",
+    createdAt: new Date(),
+  },
+  {
+    id: "albis-pass",
+    name: "Albis Pass Forest",
+    latitude: 47.2894,
+    longitude: 8.5158,
+    elevation: 790,
+    forestType: "Conifer",
+    treeSpecies: ["Spruce", "Fir", "Pine"],
+    accessibility: "moderate",
+    parkingAvailable: true,
+    description: "High-elevation conifer forest, excellent for porcini in fall.",
+    municipality: "Langnau am Albis",
+    canton: "Zurich",
+    createdAt: new Date(),
+  }
+];
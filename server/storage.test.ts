@@ -0,0 +1,182 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { MemStorage, type IStorage } from "./storage";
+import { createTestDbStorage } from "./fixtures/test-database";
+
+// Both backends run the same assertions through IStorage. Each test works on its own
+// rows far from the seeded Swiss locations, so the backends can be shared across tests.
+const backends: Array<[string, () => Promise<IStorage>]> = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DbStorage", createTestDbStorage],
+];
+
+describe.each(backends)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+  }, 60_000);
+
+  async function createLocation(name: string, latitude: number, longitude: number) {
+    return storage.createForagingLocation({ name, latitude, longitude });
+  }
+
+  describe("users", () => {
+    it("finds users by id and by username regardless of case", async () => {
+      const user = await storage.createUser({ username: "Morchel", password: "hash.salt" });
+      expect(await storage.getUser(user.id)).toMatchObject({ username: "Morchel" });
+      expect((await storage.getUserByUsername("morchel"))?.id).toBe(user.id);
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+  });
+
+  describe("mushroom species", () => {
+    it("seeds the built-in species with month weights", async () => {
+      const porcini = await storage.getMushroomSpeciesById("porcini");
+      expect(porcini?.monthWeights).toEqual([0.2, 0.2, 0.2, 0.2, 0.2, 0.2, 0.2, 0.6, 1, 1, 1, 0.6]);
+      expect(porcini?.peakMonths).toEqual([]);
+    });
+
+    it("derives month weights from the season unless given", async () => {
+      const base = { scientificName: "Test", difficulty: "beginner" };
+      const derived = await storage.createMushroomSpecies({ ...base, name: "Derived", season: "Spring" });
+      expect(derived.monthWeights).toEqual([0.2, 0.6, 1, 1, 1, 0.6, 0.2, 0.2, 0.2, 0.2, 0.2, 0.2]);
+
+      const weights = [0, 0, 0, 0, 0.5, 1, 1, 0.5, 0, 0, 0, 0];
+      const explicit = await storage.createMushroomSpecies({
+        ...base,
+        name: "Explicit",
+        season: "Summer",
+        monthWeights: weights,
+        peakMonths: [6, 7],
+      });
+      expect(await storage.getMushroomSpeciesById(explicit.id)).toMatchObject({ monthWeights: weights, peakMonths: [6, 7] });
+    });
+  });
+
+  describe("foraging locations", () => {
+    it("queries by radius, bounding box and nearest", async () => {
+      const near = await createLocation("Near", 10, 10);
+      const far = await createLocation("Far", 10.05, 10);
+      await createLocation("Outside", 11, 10);
+
+      expect(await storage.getForagingLocationById(far.id)).toMatchObject({ name: "Far", latitude: 10.05 });
+      expect((await storage.getForagingLocationsByIds([far.id, "missing", near.id])).map(l => l.id).sort())
+        .toEqual([near.id, far.id].sort());
+      expect(await storage.getForagingLocationsByIds([])).toEqual([]);
+
+      const nearby = await storage.getNearbyLocations(10.001, 10, 10);
+      expect(nearby.map(l => l.id)).toEqual([near.id, far.id]);
+
+      const inBounds = await storage.getLocationsInBounds({ minLat: 9.9, maxLat: 10.02, minLng: 9.9, maxLng: 10.1 });
+      expect(inBounds.map(l => l.id)).toEqual([near.id]);
+
+      expect((await storage.getNearestLocation(10.04, 10, 2))?.id).toBe(far.id);
+      expect(await storage.getNearestLocation(10.5, 10, 2)).toBeUndefined();
+    });
+  });
+
+  describe("weather data", () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    it("returns the latest reading, as of a date and over a history window", async () => {
+      const location = await createLocation("Weather", 20, 20);
+      await storage.createWeatherData({ locationId: location.id, temperature: 10 }, hoursAgo(48));
+      await storage.createWeatherData({ locationId: location.id, temperature: 12 }, hoursAgo(24));
+      await storage.createWeatherData({ locationId: location.id, temperature: 14 }, hoursAgo(1));
+
+      expect((await storage.getLatestWeatherForLocation(location.id))?.temperature).toBe(14);
+      expect((await storage.getLatestWeatherForLocation(location.id, hoursAgo(12)))?.temperature).toBe(12);
+      expect(await storage.getLatestWeatherForLocation(location.id, hoursAgo(72))).toBeUndefined();
+
+      const history = await storage.getWeatherHistory(location.id, hoursAgo(30));
+      expect(history.map(w => w.temperature)).toEqual([12, 14]);
+    });
+
+    it("batches latest readings and history by location", async () => {
+      const first = await createLocation("Batch A", 21, 21);
+      const second = await createLocation("Batch B", 21.1, 21);
+      const empty = await createLocation("Batch C", 21.2, 21);
+      await storage.createWeatherData({ locationId: first.id, humidity: 70 }, hoursAgo(5));
+      await storage.createWeatherData({ locationId: first.id, humidity: 80 }, hoursAgo(2));
+      await storage.createWeatherData({ locationId: second.id, humidity: 90 }, hoursAgo(3));
+
+      const latest = await storage.getLatestWeatherForLocations([first.id, second.id, empty.id]);
+      expect(latest.get(first.id)?.humidity).toBe(80);
+      expect(latest.get(second.id)?.humidity).toBe(90);
+      expect(latest.has(empty.id)).toBe(false);
+
+      const history = await storage.getWeatherHistoryForLocations([first.id, second.id], hoursAgo(4));
+      expect(history.get(first.id)?.map(w => w.humidity)).toEqual([80]);
+      expect(history.get(second.id)?.map(w => w.humidity)).toEqual([90]);
+      const window = await storage.getWeatherHistoryForLocations([first.id, second.id], hoursAgo(6), hoursAgo(2.5));
+      expect(window.get(first.id)?.map(w => w.humidity)).toEqual([70]);
+      expect(window.get(second.id)?.map(w => w.humidity)).toEqual([90]);
+      expect(await storage.getLatestWeatherForLocations([])).toEqual(new Map());
+    });
+
+    it("returns the latest station reading in a window per station", async () => {
+      await storage.createWeatherData({ stationId: "TST", temperature: 5 }, hoursAgo(6));
+      await storage.createWeatherData({ stationId: "TST", temperature: 6 }, hoursAgo(4));
+      await storage.createWeatherData({ stationId: "TST", temperature: 7 }, hoursAgo(1));
+      await storage.createWeatherData({ stationId: "TS2", temperature: 9 }, hoursAgo(20));
+
+      const readings = await storage.getLatestStationReadings(hoursAgo(8), hoursAgo(2));
+      expect(readings.filter(r => r.stationId === "TST").map(r => r.temperature)).toEqual([6]);
+      expect(readings.some(r => r.stationId === "TS2")).toBe(false);
+
+      const history = await storage.getStationWeatherHistory(hoursAgo(8), hoursAgo(2));
+      expect(history.get("TST")?.map(r => r.temperature)).toEqual([5, 6]);
+      expect(history.has("TS2")).toBe(false);
+    });
+  });
+
+  describe("user finds", () => {
+    it("scopes finds to their user and updates and deletes them", async () => {
+      const owner = await storage.createUser({ username: "finder", password: "hash.salt" });
+      const other = await storage.createUser({ username: "other-finder", password: "hash.salt" });
+      const find = await storage.createUserFind({ userId: owner.id, speciesId: "porcini", quantity: 2 });
+      await storage.createUserFind({ userId: other.id, speciesId: "morel", quantity: 1 });
+
+      expect((await storage.getUserFinds(owner.id)).map(f => f.id)).toEqual([find.id]);
+      expect(find.foundAt).toBeInstanceOf(Date);
+
+      const updated = await storage.updateUserFind(find.id, { quantity: 5, notes: "Under spruce" });
+      expect(updated).toMatchObject({ quantity: 5, notes: "Under spruce", speciesId: "porcini" });
+      expect((await storage.updateUserFind(find.id, {}))?.quantity).toBe(5);
+      expect(await storage.updateUserFind("missing", { quantity: 1 })).toBeUndefined();
+
+      expect(await storage.deleteUserFind(find.id)).toBe(true);
+      expect(await storage.getUserFindById(find.id)).toBeUndefined();
+      expect(await storage.deleteUserFind(find.id)).toBe(false);
+    });
+  });
+
+  describe("find photos", () => {
+    it("records uploads by url", async () => {
+      const owner = await storage.createUser({ username: "photographer", password: "hash.salt" });
+      const photo = await storage.createFindPhoto({
+        userId: owner.id,
+        photoUrl: "/uploads/abc.jpg",
+        thumbnailUrl: "/uploads/abc-thumb.jpg",
+      });
+
+      expect(await storage.getFindPhotoByUrl("/uploads/abc.jpg")).toMatchObject({ id: photo.id, userId: owner.id });
+      expect(await storage.getFindPhotoByUrl("/uploads/other.jpg")).toBeUndefined();
+      expect(await storage.deleteFindPhoto(photo.id)).toBe(true);
+      expect(await storage.getFindPhotoByUrl("/uploads/abc.jpg")).toBeUndefined();
+    });
+
+    it("lists uploads no find links", async () => {
+      const owner = await storage.createUser({ username: "orphan-photographer", password: "hash.salt" });
+      const linked = await storage.createFindPhoto({ userId: owner.id, photoUrl: "/uploads/linked.jpg", thumbnailUrl: "/uploads/linked-thumb.jpg" });
+      const orphan = await storage.createFindPhoto({ userId: owner.id, photoUrl: "/uploads/orphan.jpg", thumbnailUrl: "/uploads/orphan-thumb.jpg" });
+      await storage.createUserFind({ userId: owner.id, speciesId: "porcini", photoUrl: linked.photoUrl });
+
+      const later = new Date(Date.now() + 60_000);
+      const unattached = (await storage.getUnattachedFindPhotos(later)).map(p => p.id);
+      expect(unattached).toContain(orphan.id);
+      expect(unattached).not.toContain(linked.id);
+      expect((await storage.getUnattachedFindPhotos(new Date(Date.now() - 60_000))).map(p => p.id)).not.toContain(orphan.id);
+    });
+  });
+});
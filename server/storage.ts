@@ -1,4 +1,6 @@
 import { 
+  type User,
+  type InsertUser,
   type MushroomSpecies, 
   type InsertMushroomSpecies,
   type ForagingLocation, 
@@ -7,11 +9,44 @@ import {
   type InsertWeatherData,
   type UserFind,
   type InsertUserFind,
-  type LocationWithProbability
+  type FindPhoto,
+  type InsertFindPhoto,
+  type WeatherIngestionRun,
+  type InsertWeatherIngestionRun,
+  type LocationWithProbability,
+  users,
+  mushroomSpecies,
+  foragingLocations,
+  weatherData,
+  userFinds,
+  findPhotos,
+  weatherIngestionRuns,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, between, desc, eq, gte, inArray, isNotNull, isNull, lt, lte, notExists, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, type Database } from "./db";
+import { seedSpecies, seedLocations } from "./seed-data";
+import { PointIndex, boundsAround, type BoundingBox } from "./point-index";
+import { phenologyFromSeason } from "@shared/phenology";
+import { calculateDistance } from "@shared/math";
+
+const MemoryStore = createMemoryStore(session);
+
+// Roughly 1.5 x 2 km in Switzerland, a handful of spots per cell at national density
+const LOCATION_INDEX_CELL_DEGREES = 0.02;
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Users
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+
   // Mushroom species
   getMushroomSpecies(): Promise<MushroomSpecies[]>;
   getMushroomSpeciesById(id: string): Promise<MushroomSpecies | undefined>;
@@ -20,183 +55,97 @@ export interface IStorage {
   // Foraging locations
   getForagingLocations(): Promise<ForagingLocation[]>;
   getForagingLocationById(id: string): Promise<ForagingLocation | undefined>;
+  // Unknown ids are left out
+  getForagingLocationsByIds(ids: string[]): Promise<ForagingLocation[]>;
   getNearbyLocations(lat: number, lng: number, radiusKm: number): Promise<ForagingLocation[]>;
+  getLocationsInBounds(bounds: BoundingBox): Promise<ForagingLocation[]>;
+  getNearestLocation(lat: number, lng: number, maxRadiusKm: number): Promise<ForagingLocation | undefined>;
   createForagingLocation(location: InsertForagingLocation): Promise<ForagingLocation>;
 
   // Weather data
   getWeatherData(locationId: string): Promise<WeatherData | undefined>;
-  createWeatherData(weather: InsertWeatherData): Promise<WeatherData>;
-  getLatestWeatherForLocation(locationId: string): Promise<WeatherData | undefined>;
+  // observedAt defaults to now; station readings pass the time they were measured
+  createWeatherData(weather: InsertWeatherData, observedAt?: Date): Promise<WeatherData>;
+  // asOf excludes readings taken after it, for scoring a past date
+  getLatestWeatherForLocation(locationId: string, asOf?: Date): Promise<WeatherData | undefined>;
+  getWeatherHistory(locationId: string, since: Date): Promise<WeatherData[]>;
+  // Batched forms of the two above, keyed by location id; locations without readings are left out
+  getLatestWeatherForLocations(locationIds: string[]): Promise<Map<string, WeatherData>>;
+  getWeatherHistoryForLocations(locationIds: string[], since: Date, until?: Date): Promise<Map<string, WeatherData[]>>;
+  getLatestStationReadings(since: Date, until?: Date): Promise<WeatherData[]>;
+  // Every station reading in the window, oldest first and keyed by station id
+  getStationWeatherHistory(since: Date, until: Date): Promise<Map<string, WeatherData[]>>;
+
+  // Weather ingestion runs, newest first
+  getWeatherIngestionRuns(limit: number): Promise<WeatherIngestionRun[]>;
+  createWeatherIngestionRun(run: InsertWeatherIngestionRun): Promise<WeatherIngestionRun>;
 
   // User finds
   getUserFinds(userId?: string): Promise<UserFind[]>;
+  getUserFindById(id: string): Promise<UserFind | undefined>;
   createUserFind(find: InsertUserFind): Promise<UserFind>;
+  updateUserFind(id: string, updates: Partial<InsertUserFind>): Promise<UserFind | undefined>;
+  deleteUserFind(id: string): Promise<boolean>;
+
+  // Uploaded find photos
+  getFindPhotoByUrl(photoUrl: string): Promise<FindPhoto | undefined>;
+  // Uploads from before a date that no find links
+  getUnattachedFindPhotos(uploadedBefore: Date): Promise<FindPhoto[]>;
+  createFindPhoto(photo: InsertFindPhoto): Promise<FindPhoto>;
+  deleteFindPhoto(id: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private users: Map<string, User>;
   private mushroomSpecies: Map<string, MushroomSpecies>;
   private foragingLocations: Map<string, ForagingLocation>;
+  private locationIndex: PointIndex<ForagingLocation>;
   private weatherData: Map<string, WeatherData>;
   private userFinds: Map<string, UserFind>;
+  private findPhotos: Map<string, FindPhoto>;
+  private ingestionRuns: WeatherIngestionRun[];
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions daily
+    });
+    this.users = new Map();
     this.mushroomSpecies = new Map();
     this.foragingLocations = new Map();
+    this.locationIndex = new PointIndex(LOCATION_INDEX_CELL_DEGREES);
     this.weatherData = new Map();
     this.userFinds = new Map();
+    this.findPhotos = new Map();
+    this.ingestionRuns = [];
     
     // Initialize with real Swiss mushroom data
     this.initializeData();
   }
 
   private initializeData() {
-    // Initialize mushroom species
-    const species: MushroomSpecies[] = [
-      {
-        id: "porcini",
-        name: "Porcini",
-        scientificName: "Boletus edulis",
-        description: "Highly prized edible mushroom with a nutty flavor and meaty texture.",
-        season: "Fall",
-        optimalTemp: 18,
-        optimalHumidity: 80,
-        soilTempMin: 6,
-        treeAssociations: ["Spruce", "Pine", "Fir", "Beech", "Oak", "Birch"],
-        forestTypes: ["Conifer", "Mixed"],
-        elevationMin: 400,
-        elevationMax: 1500,
-        edible: true,
-        difficulty: "intermediate",
-        imageUrl: "/images/porcini.jpg",
-        safetyNotes: "Avoid specimens with red pore surface or that bruise blue immediately.",
-        createdAt: new Date(),
-      },
-      {
-        id: "chanterelle",
-        name: "Chanterelle",
-        scientificName: "Cantharellus cibarius",
-        description: "Golden trumpet-shaped mushroom with a fruity aroma and peppery taste.",
-        season: "Summer",
-        optimalTemp: 21,
-        optimalHumidity: 85,
-        soilTempMin: 12,
-        treeAssociations: ["Oak", "Beech", "Birch", "Pine"],
-        forestTypes: ["Hardwood", "Mixed"],
-        elevationMin: 300,
-        elevationMax: 1200,
-        edible: true,
-        difficulty: "beginner",
-        imageUrl: "/images/chanterelle.jpg",
-        safetyNotes: "Distinguish from toxic Jack O'Lantern mushrooms by their false gills.",
-        createdAt: new Date(),
-      },
-      {
-        id: "morel",
-        name: "Morel",
-        scientificName: "Morchella esculenta",
-        description: "Honeycomb-textured spring mushroom, highly sought after by foragers.",
-        season: "Spring",
-        optimalTemp: 16,
-        optimalHumidity: 75,
-        soilTempMin: 12,
-        treeAssociations: ["Ash", "Elm", "Apple", "Cherry"],
-        forestTypes: ["Hardwood", "Mixed", "Riverbank"],
-        elevationMin: 200,
-        elevationMax: 1000,
-        edible: true,
-        difficulty: "expert",
-        imageUrl: "/images/morel.jpg",
-        safetyNotes: "Must be cooked thoroughly. Never eat raw. Distinguish from toxic false morels.",
-        createdAt: new Date(),
-      },
-      {
-        id: "oyster",
-        name: "Oyster Mushroom",
-        scientificName: "Pleurotus ostreatus",
-        description: "Fan-shaped mushroom growing on dead wood, available year-round.",
-        season: "All Year",
-        optimalTemp: 15,
-        optimalHumidity: 85,
-        soilTempMin: 5,
-        treeAssociations: ["Beech", "Oak", "Poplar", "Willow"],
-        forestTypes: ["Hardwood", "Mixed"],
-        elevationMin: 200,
-        elevationMax: 1400,
-        edible: true,
-        difficulty: "beginner",
-        imageUrl: "/images/oyster.jpg",
-        safetyNotes: "Generally safe for beginners. Grows on dead wood, not living trees.",
-        createdAt: new Date(),
-      }
-    ];
-
-    species.forEach(s => this.mushroomSpecies.set(s.id, s));
-
-    // Initialize foraging locations around Switzerland
-    const locations: ForagingLocation[] = [
-      {
-        id: "uetliberg-trail",
-        name: "Uetliberg Forest Trail",
-        latitude: 47.3518,
-        longitude: 8.4942,
-        elevation: 745,
-        forestType: "Mixed Conifer",
-        treeSpecies: ["Spruce", "Fir", "Beech"],
-        accessibility: "moderate",
-        parkingAvailable: true,
-        description: "Popular hiking area with diverse forest types ideal for porcini and chanterelles.",
-        municipality: "Zurich",
-        canton: "Zurich",
-        createdAt: new Date(),
-      },
-      {
-        id: "zurichberg-grove",
-        name: "Zurichberg Oak Grove",
-        latitude: 47.3737,
-        longitude: 8.5703,
-        elevation: 680,
-        forestType: "Hardwood",
-        treeSpecies: ["Oak", "Beech", "Maple"],
-        accessibility: "easy",
-        parkingAvailable: true,
-        description: "Oak-dominated forest excellent for chanterelles, especially after rain.",
-        municipality: "Zurich",
-        canton: "Zurich",
-        createdAt: new Date(),
-      },
-      {
-        id: "adliswil-edge",
-        name: "Adliswil Forest Edge",
-        latitude: 47.3095,
-        longitude: 8.5268,
-        elevation: 520,
-        forestType: "Mixed",
-        treeSpecies: ["Ash", "Elm", "Oak", "Pine"],
-        accessibility: "easy",
-        parkingAvailable: false,
-        description: "Forest edge habitat ideal for morels in spring, mixed species year-round.",
-        municipality: "Adliswil",
-        canton: "Zurich",
-        createdAt: new Date(),
-      },
-      {
-        id: "albis-pass",
-        name: "Albis Pass Forest",
-        latitude: 47.2894,
-        longitude: 8.5158,
-        elevation: 790,
-        forestType: "Conifer",
-        treeSpecies: ["Spruce", "Fir", "Pine"],
-        accessibility: "moderate",
-        parkingAvailable: true,
-        description: "High-elevation conifer forest, excellent for porcini in fall.",
-        municipality: "Langnau am Albis",
-        canton: "Zurich",
-        createdAt: new Date(),
-      }
-    ];
+    seedSpecies.forEach(s => this.mushroomSpecies.set(s.id, withPhenology(s)));
+    seedLocations.forEach(l => {
+      this.foragingLocations.set(l.id, l);
+      this.locationIndex.insert(l);
+    });
+  }
 
-    locations.forEach(l => this.foragingLocations.set(l.id, l));
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      u => u.username.toLowerCase() === username.toLowerCase()
+    );
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const newUser: User = { ...user, id, createdAt: new Date() };
+    this.users.set(id, newUser);
+    return newUser;
   }
 
   async getMushroomSpecies(): Promise<MushroomSpecies[]> {
@@ -210,15 +159,19 @@ export class MemStorage implements IStorage {
   async createMushroomSpecies(species: InsertMushroomSpecies): Promise<MushroomSpecies> {
     const id = randomUUID();
     const newSpecies: MushroomSpecies = {
-      ...species,
+      ...withPhenology(species),
       id,
       createdAt: new Date(),
       description: species.description ?? null,
       optimalTemp: species.optimalTemp ?? null,
       optimalHumidity: species.optimalHumidity ?? null,
       soilTempMin: species.soilTempMin ?? null,
+      phenologyShift: species.phenologyShift ?? null,
+      treeAssociations: species.treeAssociations ?? [],
+      forestTypes: species.forestTypes ?? [],
       elevationMin: species.elevationMin ?? null,
       elevationMax: species.elevationMax ?? null,
+      edible: species.edible ?? true,
       imageUrl: species.imageUrl ?? null,
       safetyNotes: species.safetyNotes ?? null,
     };
@@ -234,33 +187,25 @@ export class MemStorage implements IStorage {
     return this.foragingLocations.get(id);
   }
 
+  async getForagingLocationsByIds(ids: string[]): Promise<ForagingLocation[]> {
+    return ids
+      .map(id => this.foragingLocations.get(id))
+      .filter((location): location is ForagingLocation => location !== undefined);
+  }
+
   async getNearbyLocations(lat: number, lng: number, radiusKm: number): Promise<ForagingLocation[]> {
-    const locations = await this.getForagingLocations();
-    
-    return locations.filter(location => {
-      const distance = this.calculateDistance(lat, lng, location.latitude, location.longitude);
-      return distance <= radiusKm;
-    }).sort((a, b) => {
-      const distA = this.calculateDistance(lat, lng, a.latitude, a.longitude);
-      const distB = this.calculateDistance(lat, lng, b.latitude, b.longitude);
-      return distA - distB;
-    });
+    const candidates = this.locationIndex.withinBounds(boundsAround(lat, lng, radiusKm));
+    return filterByDistance(candidates, lat, lng, radiusKm);
   }
 
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLng = this.deg2rad(lng2 - lng1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.deg2rad(lat1)) * Math.cos(this.deg2rad(lat2)) *
-      Math.sin(dLng / 2) * Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+  async getLocationsInBounds(bounds: BoundingBox): Promise<ForagingLocation[]> {
+    return this.locationIndex.withinBounds(bounds);
   }
 
-  private deg2rad(deg: number): number {
-    return deg * (Math.PI / 180);
+  async getNearestLocation(lat: number, lng: number, maxRadiusKm: number): Promise<ForagingLocation | undefined> {
+    // Nearby locations come back sorted by distance
+    const [nearest] = await this.getNearbyLocations(lat, lng, maxRadiusKm);
+    return nearest;
   }
 
   async createForagingLocation(location: InsertForagingLocation): Promise<ForagingLocation> {
@@ -279,6 +224,7 @@ export class MemStorage implements IStorage {
       canton: location.canton ?? null,
     };
     this.foragingLocations.set(id, newLocation);
+    this.locationIndex.insert(newLocation);
     return newLocation;
   }
 
@@ -286,13 +232,15 @@ export class MemStorage implements IStorage {
     return Array.from(this.weatherData.values()).find(w => w.locationId === locationId);
   }
 
-  async createWeatherData(weather: InsertWeatherData): Promise<WeatherData> {
+  async createWeatherData(weather: InsertWeatherData, observedAt = new Date()): Promise<WeatherData> {
     const id = randomUUID();
     const newWeather: WeatherData = {
       ...weather,
       id,
-      timestamp: new Date(),
+      timestamp: observedAt,
       locationId: weather.locationId ?? null,
+      stationId: weather.stationId ?? null,
+      source: weather.source ?? null,
       temperature: weather.temperature ?? null,
       humidity: weather.humidity ?? null,
       soilTemperature: weather.soilTemperature ?? null,
@@ -305,14 +253,75 @@ export class MemStorage implements IStorage {
     return newWeather;
   }
 
-  async getLatestWeatherForLocation(locationId: string): Promise<WeatherData | undefined> {
+  async getLatestWeatherForLocation(locationId: string, asOf?: Date): Promise<WeatherData | undefined> {
     const weatherEntries = Array.from(this.weatherData.values())
-      .filter(w => w.locationId === locationId)
+      .filter(w => w.locationId === locationId && (!asOf || (w.timestamp && w.timestamp <= asOf)))
       .sort((a, b) => (b.timestamp?.getTime() || 0) - (a.timestamp?.getTime() || 0));
     
     return weatherEntries[0];
   }
 
+  async getWeatherHistory(locationId: string, since: Date): Promise<WeatherData[]> {
+    return Array.from(this.weatherData.values())
+      .filter(w => w.locationId === locationId && w.timestamp && w.timestamp >= since)
+      .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+  }
+
+  async getLatestWeatherForLocations(locationIds: string[]): Promise<Map<string, WeatherData>> {
+    const ids = new Set(locationIds);
+    const latest = new Map<string, WeatherData>();
+    this.weatherData.forEach(w => {
+      if (!w.locationId || !ids.has(w.locationId)) return;
+      const current = latest.get(w.locationId);
+      if (!current || (current.timestamp?.getTime() || 0) < (w.timestamp?.getTime() || 0)) {
+        latest.set(w.locationId, w);
+      }
+    });
+    return latest;
+  }
+
+  async getWeatherHistoryForLocations(locationIds: string[], since: Date, until?: Date): Promise<Map<string, WeatherData[]>> {
+    const ids = new Set(locationIds);
+    const readings = Array.from(this.weatherData.values())
+      .filter(w => w.locationId && ids.has(w.locationId) && w.timestamp && w.timestamp >= since && (!until || w.timestamp <= until))
+      .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+    return groupBy(readings, reading => reading.locationId!);
+  }
+
+  async getLatestStationReadings(since: Date, until?: Date): Promise<WeatherData[]> {
+    return latestPerStation(
+      Array.from(this.weatherData.values())
+        .filter(w => w.stationId && w.timestamp && w.timestamp >= since && (!until || w.timestamp <= until)),
+    );
+  }
+
+  async getStationWeatherHistory(since: Date, until: Date): Promise<Map<string, WeatherData[]>> {
+    const readings = Array.from(this.weatherData.values())
+      .filter(w => w.stationId && w.timestamp && w.timestamp >= since && w.timestamp <= until)
+      .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+    return groupBy(readings, reading => reading.stationId!);
+  }
+
+  async getWeatherIngestionRuns(limit: number): Promise<WeatherIngestionRun[]> {
+    // Reversed first so runs started in the same millisecond stay newest first
+    return this.ingestionRuns
+      .slice()
+      .reverse()
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async createWeatherIngestionRun(run: InsertWeatherIngestionRun): Promise<WeatherIngestionRun> {
+    const newRun: WeatherIngestionRun = {
+      ...run,
+      id: randomUUID(),
+      stations: run.stations ?? null,
+      stationsError: run.stationsError ?? null,
+    };
+    this.ingestionRuns.push(newRun);
+    return newRun;
+  }
+
   async getUserFinds(userId?: string): Promise<UserFind[]> {
     if (userId) {
       return Array.from(this.userFinds.values()).filter(f => f.userId === userId);
@@ -332,11 +341,345 @@ export class MemStorage implements IStorage {
       quantity: find.quantity ?? null,
       notes: find.notes ?? null,
       photoUrl: find.photoUrl ?? null,
-      verified: find.verified ?? null,
+      thumbnailUrl: find.thumbnailUrl ?? null,
+      latitude: find.latitude ?? null,
+      longitude: find.longitude ?? null,
+      accuracy: find.accuracy ?? null,
+      elevation: find.elevation ?? null,
+      canton: find.canton ?? null,
+      verified: find.verified ?? false,
     };
     this.userFinds.set(id, newFind);
     return newFind;
   }
+
+  async getUserFindById(id: string): Promise<UserFind | undefined> {
+    return this.userFinds.get(id);
+  }
+
+  async updateUserFind(id: string, updates: Partial<InsertUserFind>): Promise<UserFind | undefined> {
+    const existing = this.userFinds.get(id);
+    if (!existing) return undefined;
+
+    const updatedFind: UserFind = { ...existing };
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== undefined) {
+        (updatedFind as Record<string, unknown>)[key] = value;
+      }
+    }
+    this.userFinds.set(id, updatedFind);
+    return updatedFind;
+  }
+
+  async deleteUserFind(id: string): Promise<boolean> {
+    return this.userFinds.delete(id);
+  }
+
+  async getFindPhotoByUrl(photoUrl: string): Promise<FindPhoto | undefined> {
+    return Array.from(this.findPhotos.values()).find(p => p.photoUrl === photoUrl);
+  }
+
+  async getUnattachedFindPhotos(uploadedBefore: Date): Promise<FindPhoto[]> {
+    const linked = new Set(Array.from(this.userFinds.values()).map(find => find.photoUrl));
+    return Array.from(this.findPhotos.values())
+      .filter(photo => photo.createdAt && photo.createdAt < uploadedBefore && !linked.has(photo.photoUrl));
+  }
+
+  async createFindPhoto(photo: InsertFindPhoto): Promise<FindPhoto> {
+    const id = randomUUID();
+    const newPhoto: FindPhoto = { ...photo, id, createdAt: new Date() };
+    this.findPhotos.set(id, newPhoto);
+    return newPhoto;
+  }
+
+  async deleteFindPhoto(id: string): Promise<boolean> {
+    return this.findPhotos.delete(id);
+  }
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, sessionStore: session.Store) {
+    this.sessionStore = sessionStore;
+  }
+
+  /**
+   * Insert the built-in species and locations, leaving existing rows untouched
+   */
+  async seed(): Promise<void> {
+    await this.db.insert(mushroomSpecies).values(seedSpecies).onConflictDoNothing();
+    await this.db.insert(foragingLocations).values(seedLocations).onConflictDoNothing();
+  }
+
+  /**
+   * Give species stored before month-level phenology the weights of their season string
+   */
+  async backfillPhenology(): Promise<number> {
+    const pending = await this.db.select().from(mushroomSpecies).where(isNull(mushroomSpecies.monthWeights));
+    for (const species of pending) {
+      await this.db.update(mushroomSpecies)
+        .set(phenologyFromSeason(species.season))
+        .where(eq(mushroomSpecies.id, species.id));
+    }
+    return pending.length;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(sql`lower(${users.username}) = lower(${username})`);
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [newUser] = await this.db.insert(users).values(user).returning();
+    return newUser;
+  }
+
+  async getMushroomSpecies(): Promise<MushroomSpecies[]> {
+    return this.db.select().from(mushroomSpecies);
+  }
+
+  async getMushroomSpeciesById(id: string): Promise<MushroomSpecies | undefined> {
+    const [species] = await this.db.select().from(mushroomSpecies).where(eq(mushroomSpecies.id, id));
+    return species;
+  }
+
+  async createMushroomSpecies(species: InsertMushroomSpecies): Promise<MushroomSpecies> {
+    const [newSpecies] = await this.db.insert(mushroomSpecies).values(withPhenology(species)).returning();
+    return newSpecies;
+  }
+
+  async getForagingLocations(): Promise<ForagingLocation[]> {
+    return this.db.select().from(foragingLocations);
+  }
+
+  async getForagingLocationById(id: string): Promise<ForagingLocation | undefined> {
+    const [location] = await this.db.select().from(foragingLocations).where(eq(foragingLocations.id, id));
+    return location;
+  }
+
+  async getForagingLocationsByIds(ids: string[]): Promise<ForagingLocation[]> {
+    if (ids.length === 0) return [];
+    return this.db.select().from(foragingLocations).where(inArray(foragingLocations.id, ids));
+  }
+
+  async getNearbyLocations(lat: number, lng: number, radiusKm: number): Promise<ForagingLocation[]> {
+    // Narrow the candidates with a bounding box in SQL, then apply the exact radius
+    const candidates = await this.getLocationsInBounds(boundsAround(lat, lng, radiusKm));
+    return filterByDistance(candidates, lat, lng, radiusKm);
+  }
+
+  async getLocationsInBounds(bounds: BoundingBox): Promise<ForagingLocation[]> {
+    return this.db.select().from(foragingLocations).where(and(
+      between(foragingLocations.latitude, bounds.minLat, bounds.maxLat),
+      between(foragingLocations.longitude, bounds.minLng, bounds.maxLng),
+    ));
+  }
+
+  async getNearestLocation(lat: number, lng: number, maxRadiusKm: number): Promise<ForagingLocation | undefined> {
+    // Nearby locations come back sorted by distance
+    const [nearest] = await this.getNearbyLocations(lat, lng, maxRadiusKm);
+    return nearest;
+  }
+
+  async createForagingLocation(location: InsertForagingLocation): Promise<ForagingLocation> {
+    const [newLocation] = await this.db.insert(foragingLocations).values(location).returning();
+    return newLocation;
+  }
+
+  async getWeatherData(locationId: string): Promise<WeatherData | undefined> {
+    const [weather] = await this.db.select().from(weatherData).where(eq(weatherData.locationId, locationId)).limit(1);
+    return weather;
+  }
+
+  async createWeatherData(weather: InsertWeatherData, observedAt = new Date()): Promise<WeatherData> {
+    const [newWeather] = await this.db.insert(weatherData).values({ ...weather, timestamp: observedAt }).returning();
+    return newWeather;
+  }
+
+  async getLatestWeatherForLocation(locationId: string, asOf?: Date): Promise<WeatherData | undefined> {
+    const [weather] = await this.db.select().from(weatherData)
+      .where(and(eq(weatherData.locationId, locationId), asOf ? lte(weatherData.timestamp, asOf) : undefined))
+      .orderBy(desc(weatherData.timestamp))
+      .limit(1);
+    return weather;
+  }
+
+  async getWeatherHistory(locationId: string, since: Date): Promise<WeatherData[]> {
+    return this.db.select().from(weatherData)
+      .where(and(eq(weatherData.locationId, locationId), gte(weatherData.timestamp, since)))
+      .orderBy(asc(weatherData.timestamp));
+  }
+
+  async getLatestWeatherForLocations(locationIds: string[]): Promise<Map<string, WeatherData>> {
+    if (locationIds.length === 0) return new Map();
+    const readings = await this.db.selectDistinctOn([weatherData.locationId]).from(weatherData)
+      .where(inArray(weatherData.locationId, locationIds))
+      .orderBy(weatherData.locationId, desc(weatherData.timestamp));
+    return new Map(readings.map(reading => [reading.locationId!, reading]));
+  }
+
+  async getWeatherHistoryForLocations(locationIds: string[], since: Date, until?: Date): Promise<Map<string, WeatherData[]>> {
+    if (locationIds.length === 0) return new Map();
+    const readings = await this.db.select().from(weatherData)
+      .where(and(
+        inArray(weatherData.locationId, locationIds),
+        gte(weatherData.timestamp, since),
+        until ? lte(weatherData.timestamp, until) : undefined,
+      ))
+      .orderBy(asc(weatherData.timestamp));
+    return groupBy(readings, reading => reading.locationId!);
+  }
+
+  async getLatestStationReadings(since: Date, until?: Date): Promise<WeatherData[]> {
+    const readings = await this.db.select().from(weatherData)
+      .where(and(
+        isNotNull(weatherData.stationId),
+        gte(weatherData.timestamp, since),
+        until ? lte(weatherData.timestamp, until) : undefined,
+      ));
+    return latestPerStation(readings);
+  }
+
+  async getStationWeatherHistory(since: Date, until: Date): Promise<Map<string, WeatherData[]>> {
+    const readings = await this.db.select().from(weatherData)
+      .where(and(isNotNull(weatherData.stationId), gte(weatherData.timestamp, since), lte(weatherData.timestamp, until)))
+      .orderBy(asc(weatherData.timestamp));
+    return groupBy(readings, reading => reading.stationId!);
+  }
+
+  async getWeatherIngestionRuns(limit: number): Promise<WeatherIngestionRun[]> {
+    return this.db.select().from(weatherIngestionRuns).orderBy(desc(weatherIngestionRuns.startedAt)).limit(limit);
+  }
+
+  async createWeatherIngestionRun(run: InsertWeatherIngestionRun): Promise<WeatherIngestionRun> {
+    const [newRun] = await this.db.insert(weatherIngestionRuns).values(run).returning();
+    return newRun;
+  }
+
+  async getUserFinds(userId?: string): Promise<UserFind[]> {
+    if (userId) {
+      return this.db.select().from(userFinds).where(eq(userFinds.userId, userId));
+    }
+    return this.db.select().from(userFinds);
+  }
+
+  async createUserFind(find: InsertUserFind): Promise<UserFind> {
+    const [newFind] = await this.db.insert(userFinds).values(find).returning();
+    return newFind;
+  }
+
+  async getUserFindById(id: string): Promise<UserFind | undefined> {
+    const [find] = await this.db.select().from(userFinds).where(eq(userFinds.id, id));
+    return find;
+  }
+
+  async updateUserFind(id: string, updates: Partial<InsertUserFind>): Promise<UserFind | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getUserFindById(id);
+    }
+    const [updatedFind] = await this.db.update(userFinds).set(updates).where(eq(userFinds.id, id)).returning();
+    return updatedFind;
+  }
+
+  async deleteUserFind(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(userFinds).where(eq(userFinds.id, id)).returning({ id: userFinds.id });
+    return deleted.length > 0;
+  }
+
+  async getFindPhotoByUrl(photoUrl: string): Promise<FindPhoto | undefined> {
+    const [photo] = await this.db.select().from(findPhotos).where(eq(findPhotos.photoUrl, photoUrl));
+    return photo;
+  }
+
+  async getUnattachedFindPhotos(uploadedBefore: Date): Promise<FindPhoto[]> {
+    return this.db.select().from(findPhotos).where(and(
+      lt(findPhotos.createdAt, uploadedBefore),
+      notExists(this.db.select({ id: userFinds.id }).from(userFinds).where(eq(userFinds.photoUrl, findPhotos.photoUrl))),
+    ));
+  }
+
+  async createFindPhoto(photo: InsertFindPhoto): Promise<FindPhoto> {
+    const [newPhoto] = await this.db.insert(findPhotos).values(photo).returning();
+    return newPhoto;
+  }
+
+  async deleteFindPhoto(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(findPhotos).where(eq(findPhotos.id, id)).returning({ id: findPhotos.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// Species without month weights of their own get the ones their season string implies
+function withPhenology<T extends Pick<InsertMushroomSpecies, "season" | "monthWeights" | "peakMonths">>(
+  species: T,
+): T & { monthWeights: number[]; peakMonths: number[] } {
+  if (species.monthWeights && species.monthWeights.length === 12) {
+    return { ...species, monthWeights: species.monthWeights, peakMonths: species.peakMonths ?? [] };
+  }
+  return { ...species, ...phenologyFromSeason(species.season) };
+}
+
+function groupBy(readings: WeatherData[], key: (reading: WeatherData) => string): Map<string, WeatherData[]> {
+  const grouped = new Map<string, WeatherData[]>();
+  for (const reading of readings) {
+    const list = grouped.get(key(reading));
+    if (list) {
+      list.push(reading);
+    } else {
+      grouped.set(key(reading), [reading]);
+    }
+  }
+  return grouped;
+}
+
+function latestPerStation(readings: WeatherData[]): WeatherData[] {
+  const latest = new Map<string, WeatherData>();
+  for (const reading of readings) {
+    const current = latest.get(reading.stationId!);
+    if (!current || current.timestamp!.getTime() < reading.timestamp!.getTime()) {
+      latest.set(reading.stationId!, reading);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+function filterByDistance(locations: ForagingLocation[], lat: number, lng: number, radiusKm: number): ForagingLocation[] {
+  return locations
+    .map(location => ({ location, distance: calculateDistance(lat, lng, location.latitude, location.longitude) }))
+    .filter(({ distance }) => distance <= radiusKm)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ location }) => location);
+}
+
+// Use Postgres when a database is provisioned, otherwise keep everything in memory
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    const sessionStore = new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+    return new DbStorage(createDb(process.env.DATABASE_URL), sessionStore);
+  }
+  return new MemStorage();
+}
+
+export const storage = createStorage();
+
+/**
+ * Prepare the selected storage backend before the server starts handling requests
+ */
+export async function initializeStorage(): Promise<void> {
+  if (storage instanceof DbStorage) {
+    await storage.seed();
+    const migrated = await storage.backfillPhenology();
+    if (migrated > 0) {
+      console.log(`Derived month-level phenology for ${migrated} species from their season`);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { InsertMushroomSpecies } from '@shared/schema';
+import { phenologyFromMonths, phenologyFromSeason } from '@shared/phenology';
 
 export interface SwissFungiSpecies {
   scientificName: string;
@@ -194,8 +195,11 @@ export class SwissFungiFetcher {
     // Determine difficulty based on various factors
     const difficulty = this.determineDifficulty(swissSpecies);
     
-    // Determine season based on phenology
+    // Determine season based on phenology, keeping the months it came from
     const season = this.determineSeason(swissSpecies.phenology);
+    const { monthWeights, peakMonths } =
+      phenologyFromMonths(swissSpecies.phenology.months, swissSpecies.phenology.peakMonths) ??
+      phenologyFromSeason(season);
 
     // Extract tree associations from substrates
     const treeAssociations = this.extractTreeAssociations(swissSpecies.substrates);
@@ -208,6 +212,8 @@ export class SwissFungiFetcher {
       scientificName: swissSpecies.scientificName,
       description: this.generateDescription(swissSpecies),
       season,
+      monthWeights,
+      peakMonths,
       optimalTemp: this.estimateOptimalTemp(swissSpecies),
       optimalHumidity: this.estimateOptimalHumidity(swissSpecies),
       soilTempMin: this.estimateSoilTempMin(swissSpecies),
@@ -1,6 +1,7 @@
 import { swissFungiFetcher, SwissFungiSpecies } from './swiss-fungi-fetcher';
 import { storage } from './storage';
 import { MushroomSpecies, InsertMushroomSpecies } from '@shared/schema';
+import { phenologyFromMonths } from '@shared/phenology';
 
 export interface SyncReport {
   totalSwissSpecies: number;
@@ -236,6 +237,13 @@ export class SwissFungiSyncService {
       merged.elevationMax = swissData.elevationRange.max;
     }
 
+    // Recorded months are more precise than a season string or the weights derived from it
+    const phenology = phenologyFromMonths(swissData.phenology.months, swissData.phenology.peakMonths);
+    if (phenology) {
+      merged.monthWeights = phenology.monthWeights;
+      merged.peakMonths = phenology.peakMonths;
+    }
+
     // Enhance description with Swiss data
     if (swissData.conservationStatus || swissData.redListStatus) {
       let additionalInfo = '';
@@ -268,7 +276,9 @@ export class SwissFungiSyncService {
       updated.elevationMin !== existing.elevationMin ||
       updated.elevationMax !== existing.elevationMax ||
       updated.description !== existing.description ||
-      updated.safetyNotes !== existing.safetyNotes
+      updated.safetyNotes !== existing.safetyNotes ||
+      JSON.stringify(updated.monthWeights) !== JSON.stringify(existing.monthWeights) ||
+      JSON.stringify(updated.peakMonths) !== JSON.stringify(existing.peakMonths)
     );
   }
 
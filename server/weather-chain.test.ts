@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CircuitBreaker, WeatherProviderChain, weatherChain, withTimeout } from "./weather-chain";
+import type { CurrentWeather, CurrentWeatherSource } from "./weather-provider";
+
+const now = new Date("2025-09-18T12:00:00Z");
+
+const conditions = (source: CurrentWeather["source"], temperature: number): CurrentWeather => ({
+  temperature,
+  humidity: 80,
+  soilTemperature: null,
+  precipitation: 0,
+  windSpeed: null,
+  pressure: null,
+  lastRainfall: null,
+  station: "SMA",
+  dataSource: source,
+  source,
+  isFallback: source === "interpolated",
+  observedAt: now,
+});
+
+// Answers every request the same way and counts them
+class StubSource implements CurrentWeatherSource {
+  calls = 0;
+
+  constructor(readonly name: string, private answer: () => Promise<CurrentWeather | null>) {}
+
+  getCurrentWeather(): Promise<CurrentWeather | null> {
+    this.calls++;
+    return this.answer();
+  }
+}
+
+const never = () => new Promise<never>(() => {});
+const failing = () => Promise.reject(new Error("503 Service Unavailable"));
+
+function chainOf(meteoSwiss: StubSource, openMeteo: StubSource, interpolated: StubSource, timeoutMs = 50) {
+  return new WeatherProviderChain([meteoSwiss, openMeteo, interpolated].map(source => ({ source, timeoutMs })));
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("withTimeout", () => {
+  it("passes through what settles in time", async () => {
+    await expect(withTimeout(Promise.resolve(7), 50, "fast")).resolves.toBe(7);
+    await expect(withTimeout(failing(), 50, "broken")).rejects.toThrow("503 Service Unavailable");
+  });
+
+  it("rejects with the source's name once the time is up", async () => {
+    await expect(withTimeout(never(), 20, "slow")).rejects.toThrow("slow timed out after 20 ms");
+  });
+});
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(now);
+  });
+
+  it("opens after consecutive failures and lets one trial through after the cooldown", () => {
+    const breaker = new CircuitBreaker(3, 60_000);
+    breaker.recordFailure("one");
+    breaker.recordFailure("two");
+    expect(breaker.state).toBe("closed");
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.recordFailure("three");
+    expect(breaker).toMatchObject({ state: "open", consecutiveFailures: 3, lastError: "three" });
+    expect(breaker.retryAt).toEqual(new Date(now.getTime() + 60_000));
+    expect(breaker.tryAcquire()).toBe(false);
+
+    vi.setSystemTime(now.getTime() + 60_000);
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker).toMatchObject({ state: "closed", consecutiveFailures: 0, lastError: null, retryAt: null });
+  });
+
+  it("reopens when the trial fails", () => {
+    const breaker = new CircuitBreaker(1, 60_000);
+    breaker.recordFailure("down");
+    vi.setSystemTime(now.getTime() + 60_000);
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.recordFailure("still down");
+    expect(breaker.state).toBe("open");
+    expect(breaker.retryAt).toEqual(new Date(now.getTime() + 120_000));
+  });
+
+  it("counts only consecutive failures", () => {
+    const breaker = new CircuitBreaker(2, 60_000);
+    breaker.recordFailure("one");
+    breaker.recordSuccess();
+    breaker.recordFailure("two");
+    expect(breaker.state).toBe("closed");
+  });
+});
+
+describe("WeatherProviderChain", () => {
+  it("prefers MeteoSwiss, then Open-Meteo, then interpolated readings", () => {
+    expect(weatherChain.getStatus().map(status => status.name)).toEqual([
+      expect.stringMatching(/^MeteoSwiss/),
+      expect.stringMatching(/^Open-Meteo/),
+      "Interpolated SwissMetNet readings",
+    ]);
+  });
+
+  it("answers from the first source with data and leaves the others alone", async () => {
+    const meteoSwiss = new StubSource("MeteoSwiss", async () => conditions("meteoswiss", 14));
+    const openMeteo = new StubSource("Open-Meteo", async () => conditions("open-meteo", 15));
+    const interpolated = new StubSource("Interpolated", async () => conditions("interpolated", 16));
+
+    const weather = await chainOf(meteoSwiss, openMeteo, interpolated).getCurrentWeather(47.37, 8.54);
+    expect(weather).toMatchObject({ source: "meteoswiss", temperature: 14, isFallback: false });
+    expect([openMeteo.calls, interpolated.calls]).toEqual([0, 0]);
+  });
+
+  it("does not count a source without data for the point as a fallback", async () => {
+    const meteoSwiss = new StubSource("MeteoSwiss", async () => null);
+    const openMeteo = new StubSource("Open-Meteo", async () => conditions("open-meteo", 15));
+    const interpolated = new StubSource("Interpolated", async () => conditions("interpolated", 16));
+
+    const chain = chainOf(meteoSwiss, openMeteo, interpolated);
+    expect(await chain.getCurrentWeather(47.37, 8.54)).toMatchObject({ source: "open-meteo", isFallback: false });
+    expect(chain.getStatus()[0]).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  it("falls back past a failing source and a slow one, marking the answer", async () => {
+    const meteoSwiss = new StubSource("MeteoSwiss", failing);
+    const openMeteo = new StubSource("Open-Meteo", never);
+    const interpolated = new StubSource("Interpolated", async () => conditions("interpolated", 16));
+
+    const chain = chainOf(meteoSwiss, openMeteo, interpolated, 20);
+    expect(await chain.getCurrentWeather(47.37, 8.54)).toMatchObject({ source: "interpolated", isFallback: true });
+    expect(chain.getStatus().map(status => status.lastError)).toEqual([
+      "503 Service Unavailable",
+      "Open-Meteo timed out after 20 ms",
+      null,
+    ]);
+  });
+
+  it("marks a later source's answer as a fallback even when it claims not to be one", async () => {
+    const meteoSwiss = new StubSource("MeteoSwiss", failing);
+    const openMeteo = new StubSource("Open-Meteo", async () => conditions("open-meteo", 15));
+    const interpolated = new StubSource("Interpolated", async () => conditions("interpolated", 16));
+
+    expect(await chainOf(meteoSwiss, openMeteo, interpolated).getCurrentWeather(47.37, 8.54))
+      .toMatchObject({ source: "open-meteo", isFallback: true });
+  });
+
+  it("skips a source whose circuit is open until its cooldown has passed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(now);
+    let meteoSwissUp = false;
+    const meteoSwiss = new StubSource("MeteoSwiss", () => (meteoSwissUp ? Promise.resolve(conditions("meteoswiss", 14)) : failing()));
+    const openMeteo = new StubSource("Open-Meteo", async () => conditions("open-meteo", 15));
+    const interpolated = new StubSource("Interpolated", async () => conditions("interpolated", 16));
+    const chain = chainOf(meteoSwiss, openMeteo, interpolated);
+
+    for (let i = 0; i < 3; i++) {
+      await chain.getCurrentWeather(47.37, 8.54);
+    }
+    expect(chain.getStatus()[0]).toMatchObject({ state: "open", consecutiveFailures: 3 });
+
+    meteoSwissUp = true;
+    expect(await chain.getCurrentWeather(47.37, 8.54)).toMatchObject({ source: "open-meteo", isFallback: true });
+    expect(meteoSwiss.calls).toBe(3);
+
+    vi.setSystemTime(chain.getStatus()[0].retryAt!);
+    expect(await chain.getCurrentWeather(47.37, 8.54)).toMatchObject({ source: "meteoswiss", isFallback: false });
+    expect(chain.getStatus()[0].state).toBe("closed");
+  });
+
+  it("returns null when no source has data", async () => {
+    const none = () => new StubSource("Empty", async () => null);
+    expect(await chainOf(none(), none(), none()).getCurrentWeather(47.37, 8.54)).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { interpolateWeather } from "./weather-interpolation";
+import { MeteoSwissWeatherProvider, meteoSwissClient } from "./meteoswiss";
+import { weatherProvider, type CurrentWeather, type CurrentWeatherSource } from "./weather-provider";
+
+/**
+ * Current weather from the first of several sources, in order of preference, that has
+ * data for a point. Every source gets a timeout, and one that keeps failing is skipped
+ * for a cooldown instead of making every request wait out its timeout again.
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface SourceStatus {
+  name: string;
+  timeoutMs: number;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError: string | null;
+  retryAt: Date | null; // when an open circuit lets a trial request through
+}
+
+export interface ChainedSource {
+  source: CurrentWeatherSource;
+  timeoutMs: number;
+}
+
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 5 * 60 * 1000;
+
+/**
+ * Opens after FAILURE_THRESHOLD consecutive failures. Once the cooldown has passed a
+ * single trial request is let through; its outcome closes or reopens the circuit.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil: number | null = null;
+  private trialInFlight = false;
+  lastError: string | null = null;
+
+  constructor(
+    private failureThreshold = FAILURE_THRESHOLD,
+    private cooldownMs = COOLDOWN_MS,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openUntil === null) return "closed";
+    return Date.now() < this.openUntil ? "open" : "half-open";
+  }
+
+  get consecutiveFailures() {
+    return this.failures;
+  }
+
+  get retryAt(): Date | null {
+    return this.openUntil === null ? null : new Date(this.openUntil);
+  }
+
+  /**
+   * Whether a request may go through, claiming the trial slot of a half-open circuit
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "open" || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openUntil = null;
+    this.trialInFlight = false;
+    this.lastError = null;
+  }
+
+  recordFailure(error: string) {
+    this.failures++;
+    this.lastError = error;
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      this.openUntil = Date.now() + this.cooldownMs;
+    }
+    this.trialInFlight = false;
+  }
+}
+
+export class WeatherProviderChain {
+  private breakers: CircuitBreaker[];
+
+  constructor(private sources: ChainedSource[]) {
+    this.breakers = sources.map(() => new CircuitBreaker());
+  }
+
+  get name() {
+    return this.sources.map(({ source }) => source.name).join(" → ");
+  }
+
+  /**
+   * Conditions from the first source with data for the point, or null when none has
+   * any. The result is marked as a fallback when a source ahead of it failed or was
+   * skipped; a source without data for the point does not count.
+   */
+  async getCurrentWeather(lat: number, lng: number): Promise<CurrentWeather | null> {
+    let skippedPreferred = false;
+
+    for (let i = 0; i < this.sources.length; i++) {
+      const { source, timeoutMs } = this.sources[i];
+      const breaker = this.breakers[i];
+      if (!breaker.tryAcquire()) {
+        skippedPreferred = true;
+        continue;
+      }
+
+      try {
+        const weather = await withTimeout(source.getCurrentWeather(lat, lng), timeoutMs, source.name);
+        breaker.recordSuccess();
+        if (weather) {
+          return { ...weather, isFallback: weather.isFallback || skippedPreferred };
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error(`Weather source ${source.name} failed:`, message);
+        breaker.recordFailure(message);
+        skippedPreferred = true;
+      }
+    }
+    return null;
+  }
+
+  getStatus(): SourceStatus[] {
+    return this.sources.map(({ source, timeoutMs }, i) => {
+      const breaker = this.breakers[i];
+      return {
+        name: source.name,
+        timeoutMs,
+        state: breaker.state,
+        consecutiveFailures: breaker.consecutiveFailures,
+        lastError: breaker.lastError,
+        retryAt: breaker.retryAt,
+      };
+    });
+  }
+}
+
+/**
+ * The promise's outcome, or a rejection naming the source once ms have passed first
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, name: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${name} timed out after ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Stored station readings interpolated to the point; always an estimate
+ */
+export const interpolatedWeatherSource: CurrentWeatherSource = {
+  name: "Interpolated SwissMetNet readings",
+
+  async getCurrentWeather(lat, lng) {
+    const estimate = await interpolateWeather(lat, lng);
+    if (!estimate || estimate.temperature === null) {
+      return null;
+    }
+
+    return {
+      temperature: estimate.temperature,
+      humidity: estimate.humidity,
+      soilTemperature: estimate.soilTemperature,
+      precipitation: estimate.precipitation,
+      windSpeed: null,
+      pressure: null,
+      lastRainfall: null,
+      station: estimate.stations.map(station => station.stationId).join(", "),
+      dataSource: this.name,
+      source: "interpolated",
+      isFallback: true,
+      observedAt: new Date(estimate.observedAt),
+    };
+  },
+};
+
+export const weatherChain = new WeatherProviderChain([
+  { source: new MeteoSwissWeatherProvider(meteoSwissClient), timeoutMs: 8000 },
+  { source: weatherProvider, timeoutMs: 5000 },
+  { source: interpolatedWeatherSource, timeoutMs: 3000 },
+]);
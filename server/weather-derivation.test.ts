@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { DerivedWeatherMetrics } from "@shared/schema";
+import { storage } from "./storage";
+import { interpolateDerivedMetrics, loadStationMetrics } from "./weather-derivation";
+import type { InterpolatedWeather, StationContribution } from "./weather-interpolation";
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date("2025-09-18T12:00:00Z");
+
+const station = (stationId: string, elevation: number, weight: number): StationContribution =>
+  ({ stationId, name: stationId, distance: 5, elevation, weight, observedAt: now.toISOString() });
+
+const estimate = (stations: StationContribution[], elevation: number | null): InterpolatedWeather => ({
+  latitude: 47,
+  longitude: 8,
+  elevation,
+  temperature: 12,
+  soilTemperature: null,
+  humidity: 80,
+  precipitation: 0,
+  lapseRate: 0.006,
+  observedAt: now.toISOString(),
+  stations,
+});
+
+const metrics = (derived: Partial<DerivedWeatherMetrics>): DerivedWeatherMetrics => ({
+  daysSinceRain: null,
+  precipitation7d: 0,
+  precipitation14d: 0,
+  soilTemperatureEstimate: null,
+  historyDays: 14,
+  ...derived,
+});
+
+describe("loadStationMetrics", () => {
+  it("derives rain and soil metrics from each station's own readings", async () => {
+    for (let hour = 0; hour < 96; hour++) {
+      await storage.createWeatherData(
+        { stationId: "TDR", temperature: 10, precipitation: hour === 30 ? 6 : 0 },
+        new Date(now.getTime() - hour * HOUR_MS),
+      );
+    }
+    await storage.createWeatherData({ stationId: "TDR", temperature: 30, precipitation: 9 }, new Date(now.getTime() + HOUR_MS));
+
+    expect((await loadStationMetrics(now)).get("TDR")).toEqual({
+      daysSinceRain: 1,
+      precipitation7d: 6,
+      precipitation14d: 6,
+      soilTemperatureEstimate: 10,
+      historyDays: 4,
+    });
+  });
+});
+
+describe("interpolateDerivedMetrics", () => {
+  const byStation = new Map([
+    ["WET", metrics({ daysSinceRain: 1, precipitation7d: 20, precipitation14d: 30, soilTemperatureEstimate: 14 })],
+    ["DRY", metrics({ precipitation7d: 0, precipitation14d: 2, soilTemperatureEstimate: 8, historyDays: 10 })],
+  ]);
+
+  it("weights station metrics like the interpolated weather", () => {
+    const derived = interpolateDerivedMetrics(estimate([station("WET", 500, 0.75), station("DRY", 500, 0.25)], null), byStation);
+    expect(derived).toEqual({
+      daysSinceRain: 4, // a station without rain counts as dry for the whole fortnight
+      precipitation7d: 15,
+      precipitation14d: 23,
+      soilTemperatureEstimate: 12.5,
+      historyDays: 10,
+    });
+  });
+
+  it("moves soil temperature to the point's elevation and leaves dry areas without rain", () => {
+    const derived = interpolateDerivedMetrics(estimate([station("DRY", 500, 1)], 1500), byStation);
+    expect(derived).toMatchObject({ daysSinceRain: null, soilTemperatureEstimate: 2 });
+  });
+
+  it("skips stations without history", () => {
+    expect(interpolateDerivedMetrics(estimate([station("NEW", 500, 1)], 500), byStation)).toBeUndefined();
+    expect(interpolateDerivedMetrics(estimate([station("NEW", 500, 0.5), station("WET", 500, 0.5)], 500), byStation))
+      .toMatchObject({ daysSinceRain: 1, precipitation7d: 20 });
+  });
+});
@@ -0,0 +1,291 @@
+import { storage } from "./storage";
+import {
+  interpolateWeatherForLocation,
+  latestReadingAt,
+  loadStationHistory,
+  loadStationReadings,
+  stationReadingsAt,
+  type InterpolatedWeather,
+} from "./weather-interpolation";
+import { DAILY_PAST_DAYS, type DailyWeather } from "./weather-provider";
+import {
+  WEATHER_SOURCES,
+  type DerivedWeatherMetrics,
+  type ForagingLocation,
+  type WeatherConditions,
+  type WeatherData,
+  type WeatherSource,
+} from "@shared/schema";
+import { roundTo, sum } from "@shared/math";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const HISTORY_DAYS = 14;
+const SIGNIFICANT_RAIN_MM = 1; // per day
+
+// Soil at 5-10 cm follows air temperature with a damped, delayed response
+const SOIL_LAG_HOURS = 12;
+const SOIL_WINDOW_HOURS = 72;
+const SOIL_MIN_SAMPLES = 12;
+
+/**
+ * Derive rainfall and soil metrics from a location's weather history.
+ * Each observation's precipitation is the total over the preceding hour, so
+ * observations closer together than an hour only count for the gap between them.
+ */
+export function deriveWeatherMetrics(history: WeatherData[], now = new Date()): DerivedWeatherMetrics {
+  const observations = history
+    .filter(w => w.timestamp && w.timestamp.getTime() <= now.getTime())
+    .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+
+  const rainByDaysAgo = new Array<number>(HISTORY_DAYS).fill(0);
+  let previousTime: number | null = null;
+
+  for (const observation of observations) {
+    const time = observation.timestamp!.getTime();
+    const coveredHours = previousTime === null ? 1 : Math.min((time - previousTime) / HOUR_MS, 1);
+    previousTime = time;
+
+    const daysAgo = Math.floor((now.getTime() - time) / DAY_MS);
+    if (daysAgo < HISTORY_DAYS && observation.precipitation !== null) {
+      rainByDaysAgo[daysAgo] += observation.precipitation * coveredHours;
+    }
+  }
+
+  const rainyDay = rainByDaysAgo.findIndex(mm => mm >= SIGNIFICANT_RAIN_MM);
+  const historyMs = observations.length > 0 ? now.getTime() - observations[0].timestamp!.getTime() : 0;
+
+  return {
+    daysSinceRain: rainyDay >= 0 ? rainyDay : null,
+    precipitation7d: roundTo(sum(rainByDaysAgo.slice(0, 7)), 1),
+    precipitation14d: roundTo(sum(rainByDaysAgo), 1),
+    soilTemperatureEstimate: estimateSoilTemperature(observations, now),
+    historyDays: roundTo(Math.min(historyMs / DAY_MS, HISTORY_DAYS), 1),
+  };
+}
+
+/**
+ * Mean air temperature over a window that ends SOIL_LAG_HOURS before now
+ */
+function estimateSoilTemperature(observations: WeatherData[], now: Date): number | null {
+  const windowEnd = now.getTime() - SOIL_LAG_HOURS * HOUR_MS;
+  const windowStart = windowEnd - SOIL_WINDOW_HOURS * HOUR_MS;
+
+  const temperatures = observations
+    .filter(w => {
+      const time = w.timestamp!.getTime();
+      return time >= windowStart && time <= windowEnd && w.temperature !== null;
+    })
+    .map(w => w.temperature!);
+
+  if (temperatures.length < SOIL_MIN_SAMPLES) {
+    return null;
+  }
+  return roundTo(sum(temperatures) / temperatures.length, 1);
+}
+
+/**
+ * Latest stored weather for a location together with metrics derived from its history,
+ * both as of now, which can be in the past. Locations with no readings of their own use
+ * weather interpolated from nearby stations, flagged as a fallback.
+ */
+export async function getWeatherConditions(locationId: string, now = new Date()): Promise<WeatherConditions | undefined> {
+  const latest = await storage.getLatestWeatherForLocation(locationId, now);
+  if (!latest) {
+    const location = await storage.getForagingLocationById(locationId);
+    const interpolated = location && await interpolateWeatherForLocation(location, now);
+    return interpolated && withProvenance(interpolated, true);
+  }
+
+  const history = await storage.getWeatherHistory(locationId, new Date(now.getTime() - HISTORY_DAYS * DAY_MS));
+  return { ...withProvenance(latest, false), derived: deriveWeatherMetrics(history, now) };
+}
+
+/**
+ * getWeatherConditions for many locations with a fixed number of storage queries.
+ * Readings already loaded by the caller can be passed as latest.
+ */
+export async function getWeatherConditionsForLocations(
+  locations: ForagingLocation[],
+  now = new Date(),
+  latest?: Map<string, WeatherData>,
+): Promise<Map<string, WeatherConditions>> {
+  const latestByLocation = latest ?? await storage.getLatestWeatherForLocations(locations.map(l => l.id));
+  const withReadings = locations.filter(l => latestByLocation.has(l.id));
+  const withoutReadings = locations.filter(l => !latestByLocation.has(l.id));
+
+  const [histories, stationReadings] = await Promise.all([
+    storage.getWeatherHistoryForLocations(withReadings.map(l => l.id), new Date(now.getTime() - HISTORY_DAYS * DAY_MS)),
+    withoutReadings.length > 0 ? loadStationReadings(now) : [],
+  ]);
+
+  const conditions = new Map<string, WeatherConditions>();
+  for (const location of withReadings) {
+    conditions.set(location.id, {
+      ...withProvenance(latestByLocation.get(location.id)!, false),
+      derived: deriveWeatherMetrics(histories.get(location.id) ?? [], now),
+    });
+  }
+  await Promise.all(withoutReadings.map(async location => {
+    const interpolated = await interpolateWeatherForLocation(location, now, stationReadings);
+    if (interpolated) conditions.set(location.id, withProvenance(interpolated, true));
+  }));
+  return conditions;
+}
+
+/**
+ * getWeatherConditions for many locations, each as of its own time, with a fixed number
+ * of storage queries, for replaying past visits. Only the fortnight before the earliest
+ * time is read, so a location whose last reading is older than that at a visit is
+ * interpolated like one without readings.
+ */
+export async function getWeatherConditionsAtTimes(
+  visits: Array<{ location: ForagingLocation; at: Date }>,
+): Promise<Array<WeatherConditions | undefined>> {
+  if (visits.length === 0) {
+    return [];
+  }
+  const times = visits.map(visit => visit.at.getTime());
+  const earliest = new Date(times.reduce((min, time) => Math.min(min, time)));
+  const latest = new Date(times.reduce((max, time) => Math.max(max, time)));
+
+  const locationIds = Array.from(new Set(visits.map(visit => visit.location.id)));
+  const histories = await storage.getWeatherHistoryForLocations(
+    locationIds,
+    new Date(earliest.getTime() - HISTORY_DAYS * DAY_MS),
+    latest,
+  );
+
+  const conditions = visits.map(({ location, at }): WeatherConditions | undefined => {
+    const history = (histories.get(location.id) ?? []).filter(w => w.timestamp!.getTime() >= at.getTime() - HISTORY_DAYS * DAY_MS);
+    const reading = latestReadingAt(history, at);
+    return reading && { ...withProvenance(reading, false), derived: deriveWeatherMetrics(history, at) };
+  });
+
+  // Station history is only read when some visit has to be interpolated
+  if (conditions.some(c => !c)) {
+    const stationHistory = await loadStationHistory(earliest, latest);
+    await Promise.all(visits.map(async ({ location, at }, i) => {
+      if (conditions[i]) return;
+      const interpolated = await interpolateWeatherForLocation(location, at, stationReadingsAt(stationHistory, at));
+      conditions[i] = interpolated && withProvenance(interpolated, true);
+    }));
+  }
+  return conditions;
+}
+
+/**
+ * Metrics derived from each station's own history, as of now, keyed by station id
+ */
+export async function loadStationMetrics(now = new Date()): Promise<Map<string, DerivedWeatherMetrics>> {
+  const histories = await storage.getStationWeatherHistory(new Date(now.getTime() - HISTORY_DAYS * DAY_MS), now);
+  const metrics = new Map<string, DerivedWeatherMetrics>();
+  histories.forEach((history, stationId) => metrics.set(stationId, deriveWeatherMetrics(history, now)));
+  return metrics;
+}
+
+/**
+ * Station metrics weighted like the stations behind an interpolated estimate, for
+ * points with no history of their own. A station without rain in its history counts
+ * as dry for all of it, and soil temperature follows the estimate's lapse rate.
+ */
+export function interpolateDerivedMetrics(
+  estimate: InterpolatedWeather,
+  metrics: Map<string, DerivedWeatherMetrics>,
+): DerivedWeatherMetrics | undefined {
+  const samples = estimate.stations
+    .map(station => ({ station, derived: metrics.get(station.stationId) }))
+    .filter((sample): sample is { station: typeof sample.station; derived: DerivedWeatherMetrics } => !!sample.derived);
+  const totalWeight = sum(samples.map(s => s.station.weight));
+  if (totalWeight === 0) {
+    return undefined;
+  }
+  const weighted = (value: (derived: DerivedWeatherMetrics) => number) =>
+    sum(samples.map(s => value(s.derived) * s.station.weight)) / totalWeight;
+
+  const daysSinceRain = Math.round(weighted(d => d.daysSinceRain ?? HISTORY_DAYS));
+  // Like interpolated air temperature, moved along the lapse rate to the point's elevation
+  const soil = samples.filter(s => s.derived.soilTemperatureEstimate !== null);
+  const soilWeight = sum(soil.map(s => s.station.weight));
+  const lapse = (stationElevation: number) =>
+    estimate.elevation === null ? 0 : (stationElevation - estimate.elevation) * estimate.lapseRate;
+  const soilTemperature = soilWeight > 0
+    ? sum(soil.map(s => (s.derived.soilTemperatureEstimate! + lapse(s.station.elevation)) * s.station.weight)) / soilWeight
+    : null;
+
+  return {
+    daysSinceRain: daysSinceRain < HISTORY_DAYS ? daysSinceRain : null,
+    precipitation7d: roundTo(weighted(d => d.precipitation7d), 1),
+    precipitation14d: roundTo(weighted(d => d.precipitation14d), 1),
+    soilTemperatureEstimate: roundTo(soilTemperature, 1),
+    historyDays: Math.min(...samples.map(s => s.derived.historyDays)),
+  };
+}
+
+function withProvenance(weather: WeatherData, isFallback: boolean): WeatherConditions {
+  return {
+    ...weather,
+    source: isWeatherSource(weather.source) ? weather.source : "stored",
+    observedAt: (weather.timestamp ?? new Date()).toISOString(),
+    isFallback,
+  };
+}
+
+function isWeatherSource(source: string | null): source is WeatherSource {
+  return source !== null && (WEATHER_SOURCES as readonly string[]).indexOf(source) >= 0;
+}
+
+const FORECAST_SOIL_WINDOW_DAYS = 3;
+
+/**
+ * Turn a daily series (past days followed by forecast days) into per-day conditions
+ * the probability model can score. Rain and soil temperature carry over from earlier
+ * days, so a wet weekend raises the following days rather than only the day it falls.
+ * startingDaysSinceRain covers rain from before the series, counted from its first forecast day.
+ */
+export function buildForecastConditions(
+  locationId: string,
+  daily: DailyWeather[],
+  startingDaysSinceRain: number | null,
+): Array<{ date: string; weather: WeatherData }> {
+  const forecastStart = Math.min(DAILY_PAST_DAYS, daily.length);
+
+  return daily.slice(forecastStart).map((day, offset) => {
+    const index = forecastStart + offset;
+
+    let daysSinceRain: number | null = null;
+    for (let back = 0; back <= index; back++) {
+      if (daily[index - back].precipitation >= SIGNIFICANT_RAIN_MM) {
+        daysSinceRain = back;
+        break;
+      }
+    }
+    if (daysSinceRain === null && startingDaysSinceRain !== null) {
+      daysSinceRain = startingDaysSinceRain + offset;
+    }
+
+    const soilWindow = daily.slice(Math.max(index - FORECAST_SOIL_WINDOW_DAYS, 0), index);
+    const soilTemperature = soilWindow.length > 0
+      ? roundTo(sum(soilWindow.map(d => d.temperatureMean)) / soilWindow.length, 1)
+      : null;
+
+    return {
+      date: day.date,
+      weather: {
+        id: `forecast-${locationId}-${day.date}`,
+        locationId,
+        stationId: null,
+        source: "open-meteo",
+        timestamp: new Date(`${day.date}T12:00:00`),
+        temperature: day.temperatureMean,
+        humidity: day.humidity,
+        soilTemperature,
+        precipitation: day.precipitation,
+        windSpeed: day.windSpeed,
+        pressure: null,
+        lastRainfall: daysSinceRain,
+      },
+    };
+  });
+}
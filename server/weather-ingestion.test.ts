@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { WeatherProviderChain } from "./weather-chain";
+import { WeatherIngestionScheduler, parseIngestionInterval } from "./weather-ingestion";
+import type { CurrentWeather, CurrentWeatherSource } from "./weather-provider";
+
+const observedAt = new Date(Date.now() - 3 * 60 * 60 * 1000);
+
+function stubSource(fail: () => boolean): CurrentWeatherSource {
+  return {
+    name: "Stub",
+    async getCurrentWeather(): Promise<CurrentWeather> {
+      if (fail()) throw new Error("Stub is down");
+      return {
+        temperature: 14,
+        humidity: 88,
+        soilTemperature: null,
+        precipitation: 0.4,
+        windSpeed: 5,
+        pressure: 950,
+        lastRainfall: 0,
+        station: "Stub",
+        dataSource: "Stub",
+        source: "open-meteo",
+        isFallback: false,
+        observedAt,
+      };
+    },
+  };
+}
+
+describe("WeatherIngestionScheduler", () => {
+  it("stores readings at their observation time, once, and keeps run history in storage", async () => {
+    let failing = false;
+    const chain = new WeatherProviderChain([{ source: stubSource(() => failing), timeoutMs: 30_000 }]);
+    const scheduler = new WeatherIngestionScheduler(chain, 60);
+    const locations = await storage.getForagingLocations();
+
+    const first = await scheduler.runOnce();
+    expect(first.locationsSucceeded).toBe(locations.length);
+    const history = await storage.getWeatherHistory(locations[0].id, new Date(0));
+    expect(history.map(w => w.timestamp)).toEqual([observedAt]);
+
+    // The provider repeating its last observation must not store it again
+    await scheduler.runOnce();
+    expect(await storage.getWeatherHistory(locations[0].id, new Date(0))).toHaveLength(1);
+
+    failing = true;
+    await scheduler.runOnce();
+    await scheduler.runOnce();
+
+    // A fresh scheduler, as after a restart, reads the same history back
+    const status = await new WeatherIngestionScheduler(chain, 60).getStatus();
+    expect(status.history).toHaveLength(4);
+    expect(status.lastRun).toMatchObject({ locationsSucceeded: 0, locationsTotal: locations.length });
+    expect(status.locations[0]).toMatchObject({
+      lastObservationAt: observedAt,
+      consecutiveFailures: 2,
+      lastError: expect.any(String),
+    });
+  });
+});
+
+describe("parseIngestionInterval", () => {
+  it("reads minutes, with 0 disabling the schedule", () => {
+    expect(parseIngestionInterval(undefined)).toBe(60);
+    expect(parseIngestionInterval("15")).toBe(15);
+    expect(parseIngestionInterval("0")).toBe(0);
+  });
+
+  it("falls back to an hour for values that would poll in a tight loop", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    for (const value of ["soon", "-5", "0.01", "Infinity", " "]) {
+      expect(parseIngestionInterval(value)).toBe(60);
+    }
+    expect(warn).toHaveBeenCalledTimes(4);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,217 @@
+import { storage } from "./storage";
+import { weatherChain, type WeatherProviderChain } from "./weather-chain";
+import { ingestStationObservations, meteoSwissClient, type MeteoSwissStacClient } from "./meteoswiss";
+import type { InsertWeatherIngestionRun } from "@shared/schema";
+
+// A run as it is built up; finishedAt is set when it completes
+export type IngestionRun = Omit<InsertWeatherIngestionRun, "finishedAt"> & { finishedAt?: Date };
+
+export interface LocationIngestionStatus {
+  locationId: string;
+  name: string;
+  lastObservationAt: Date | null;
+  ageMinutes: number | null;
+  stale: boolean;
+  consecutiveFailures: number;
+  lastError?: string;
+}
+
+const MAX_RUN_HISTORY = 24;
+
+export class WeatherIngestionScheduler {
+  private timer?: NodeJS.Timeout;
+  private currentRun?: Promise<IngestionRun>;
+  private inProgress?: IngestionRun;
+
+  constructor(
+    private provider: WeatherProviderChain,
+    readonly intervalMinutes: number,
+    private stationClient?: MeteoSwissStacClient,
+  ) {}
+
+  /**
+   * Run an ingestion immediately and then every intervalMinutes.
+   * An interval of 0 disables scheduling; runOnce can still be called manually.
+   */
+  start() {
+    if (this.timer || this.intervalMinutes <= 0) return;
+
+    const tick = () => {
+      this.runOnce().catch(error => console.error("Weather ingestion failed:", error));
+    };
+    tick();
+    this.timer = setInterval(tick, this.intervalMinutes * 60 * 1000);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Fetch and store the latest station observations, then current conditions for
+   * every foraging location. Overlapping calls share the run that is already in progress.
+   */
+  runOnce(): Promise<IngestionRun> {
+    if (!this.currentRun) {
+      this.currentRun = this.ingestAll().finally(() => {
+        this.currentRun = undefined;
+        this.inProgress = undefined;
+      });
+    }
+    return this.currentRun;
+  }
+
+  private async ingestAll(): Promise<IngestionRun> {
+    const locations = await storage.getForagingLocations();
+    const run: IngestionRun = {
+      startedAt: new Date(),
+      locationsTotal: locations.length,
+      locationsSucceeded: 0,
+      failures: [],
+    };
+    this.inProgress = run;
+
+    if (this.stationClient) {
+      try {
+        run.stations = await ingestStationObservations(this.stationClient);
+      } catch (error) {
+        run.stationsError = error instanceof Error ? error.message : "Unknown error";
+      }
+    }
+
+    // Providers cache observations, so the same one can come back on the next run
+    const latestStored = await storage.getLatestWeatherForLocations(locations.map(location => location.id));
+
+    // Sequential on purpose: the location list is small and the provider is rate limited
+    for (const location of locations) {
+      try {
+        const weather = await this.provider.getCurrentWeather(location.latitude, location.longitude);
+        // Interpolated values are derived from stored readings and must not be stored as one
+        if (!weather || weather.source === "interpolated") {
+          throw new Error("No weather source with observations available");
+        }
+
+        const stored = latestStored.get(location.id)?.timestamp;
+        if (stored && stored.getTime() >= weather.observedAt.getTime()) {
+          run.locationsSucceeded++;
+          continue;
+        }
+        await storage.createWeatherData({
+          locationId: location.id,
+          source: weather.source,
+          temperature: weather.temperature,
+          humidity: weather.humidity,
+          soilTemperature: weather.soilTemperature,
+          precipitation: weather.precipitation,
+          windSpeed: weather.windSpeed,
+          pressure: weather.pressure,
+          lastRainfall: weather.lastRainfall,
+        }, weather.observedAt);
+        run.locationsSucceeded++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        run.failures.push({ locationId: location.id, error: message });
+      }
+    }
+
+    run.finishedAt = new Date();
+    await storage.createWeatherIngestionRun({ ...run, finishedAt: run.finishedAt });
+    return run;
+  }
+
+  /**
+   * Describe recent runs and how fresh the stored weather is for each location.
+   * A location is stale once its latest observation is older than two intervals.
+   */
+  async getStatus() {
+    const staleAfterMinutes = Math.max(this.intervalMinutes, 1) * 2;
+    const now = Date.now();
+    const [locations, finishedRuns] = await Promise.all([
+      storage.getForagingLocations(),
+      storage.getWeatherIngestionRuns(MAX_RUN_HISTORY),
+    ]);
+    const latest = await storage.getLatestWeatherForLocations(locations.map(location => location.id));
+    const history: IngestionRun[] = this.inProgress ? [this.inProgress, ...finishedRuns] : finishedRuns;
+
+    const locationStatus: LocationIngestionStatus[] = locations.map(location => {
+      const lastObservationAt = latest.get(location.id)?.timestamp ?? null;
+      const ageMinutes = lastObservationAt
+        ? Math.round((now - lastObservationAt.getTime()) / 60000)
+        : null;
+      const { count, lastError } = consecutiveFailures(finishedRuns, location.id);
+
+      return {
+        locationId: location.id,
+        name: location.name,
+        lastObservationAt,
+        ageMinutes,
+        stale: ageMinutes === null || ageMinutes > staleAfterMinutes,
+        consecutiveFailures: count,
+        lastError,
+      };
+    });
+
+    return {
+      scheduled: !!this.timer,
+      inProgress: !!this.currentRun,
+      intervalMinutes: this.intervalMinutes,
+      provider: this.provider.name,
+      providers: this.provider.getStatus(),
+      stationProvider: this.stationClient?.name ?? null,
+      lastRun: history[0] ?? null,
+      history,
+      staleLocations: locationStatus.filter(location => location.stale).length,
+      locations: locationStatus,
+    };
+  }
+}
+
+/**
+ * How many of the latest finished runs in a row failed for a location, and the error
+ * of the most recent one. Counts stop at the runs kept for the status page.
+ */
+function consecutiveFailures(
+  runs: InsertWeatherIngestionRun[],
+  locationId: string,
+): { count: number; lastError?: string } {
+  let count = 0;
+  let lastError: string | undefined;
+  for (const run of runs) {
+    const failure = run.failures.find(f => f.locationId === locationId);
+    if (!failure) break;
+    lastError = lastError ?? failure.error;
+    count++;
+  }
+  return { count, lastError };
+}
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+const MIN_INTERVAL_MINUTES = 1;
+
+/**
+ * The ingestion interval from WEATHER_INGEST_INTERVAL_MINUTES: 0 disables scheduling,
+ * and anything that is not a number of at least a minute falls back to the default
+ * rather than calling the weather APIs in a tight loop
+ */
+export function parseIngestionInterval(value: string | undefined): number {
+  if (value === undefined || value.trim() === "") {
+    return DEFAULT_INTERVAL_MINUTES;
+  }
+  const minutes = Number(value);
+  if (minutes === 0) {
+    return 0;
+  }
+  if (!isFinite(minutes) || minutes < MIN_INTERVAL_MINUTES) {
+    console.warn(`Ignoring WEATHER_INGEST_INTERVAL_MINUTES=${value}; using ${DEFAULT_INTERVAL_MINUTES} minutes`);
+    return DEFAULT_INTERVAL_MINUTES;
+  }
+  return minutes;
+}
+
+export const weatherIngestion = new WeatherIngestionScheduler(
+  weatherChain,
+  parseIngestionInterval(process.env.WEATHER_INGEST_INTERVAL_MINUTES),
+  meteoSwissClient,
+);
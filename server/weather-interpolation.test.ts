@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { WeatherData } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  fitLapseRate,
+  idwWeights,
+  interpolateWeather,
+  loadStationHistory,
+  loadStationReadings,
+  stationReadingsAt,
+} from "./weather-interpolation";
+import { STANDARD_LAPSE_RATE } from "./weather-stations";
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date("2025-09-18T12:00:00Z");
+
+const reading = (stationId: string, values: Partial<WeatherData>): WeatherData => ({
+  id: stationId,
+  locationId: null,
+  stationId,
+  source: "meteoswiss",
+  timestamp: new Date(now.getTime() - HOUR_MS),
+  temperature: null,
+  humidity: null,
+  soilTemperature: null,
+  precipitation: null,
+  windSpeed: null,
+  pressure: null,
+  lastRainfall: null,
+  ...values,
+});
+
+const station = (elevation: number, temperature: number | null) => ({ elevation, reading: { temperature } });
+
+describe("idwWeights", () => {
+  it("weights stations by inverse squared distance", () => {
+    const weights = idwWeights([{ distance: 1 }, { distance: 2 }]);
+    expect(weights[0]).toBeCloseTo(0.8, 10);
+    expect(weights[1]).toBeCloseTo(0.2, 10);
+  });
+
+  it("gives a station at the point the whole weight", () => {
+    expect(idwWeights([{ distance: 0.005 }, { distance: 1 }, { distance: 2 }])).toEqual([1, 0, 0]);
+    expect(idwWeights([{ distance: 0 }, { distance: 1 }])).toEqual([1, 0]);
+  });
+
+  it("weights the others normally when the station at the point lacks the value", () => {
+    const weights = idwWeights([{ distance: 0.005 }, { distance: 1 }, { distance: 2 }], i => i !== 0);
+    expect(weights[0]).toBe(0);
+    expect(weights[1]).toBeCloseTo(0.8, 10);
+    expect(weights[2]).toBeCloseTo(0.2, 10);
+  });
+
+  it("gives no weight when no station reports", () => {
+    expect(idwWeights([{ distance: 1 }, { distance: 2 }], () => false)).toEqual([0, 0]);
+  });
+});
+
+describe("fitLapseRate", () => {
+  it("fits the temperature drop per metre across the stations", () => {
+    expect(fitLapseRate([station(400, 15), station(900, 12.5), station(1400, 10)])).toBeCloseTo(0.005, 10);
+  });
+
+  it("falls back to the standard rate with too few stations or too little height between them", () => {
+    expect(fitLapseRate([station(400, 15), station(1400, 10)])).toBe(STANDARD_LAPSE_RATE);
+    expect(fitLapseRate([station(400, 15), station(500, 14), station(650, 9)])).toBe(STANDARD_LAPSE_RATE);
+    expect(fitLapseRate([station(400, 15), station(900, null), station(1400, 10)])).toBe(STANDARD_LAPSE_RATE);
+  });
+
+  it("clamps steep drops to the dry adiabatic rate and inversions to a mild one", () => {
+    expect(fitLapseRate([station(400, 15), station(900, 5), station(1400, -5)])).toBe(0.0098);
+    expect(fitLapseRate([station(400, 5), station(900, 10), station(1400, 15)])).toBe(-0.002);
+  });
+});
+
+describe("interpolateWeather", () => {
+  // Zürich / Fluntern
+  const fluntern = { lat: 47.377925, lng: 8.565742 };
+
+  it("answers with the station at the point where it has the value", async () => {
+    const estimate = await interpolateWeather(fluntern.lat, fluntern.lng, {
+      elevation: 556,
+      now,
+      readings: [reading("SMA", { temperature: 14, humidity: 70 }), reading("KLO", { temperature: 20, humidity: 90 })],
+    });
+    expect(estimate).toMatchObject({ temperature: 14, humidity: 70 });
+    expect(estimate!.stations.map(s => s.stationId)).toEqual(["SMA"]);
+  });
+
+  it("interpolates from the other stations what the station at the point does not report", async () => {
+    const estimate = await interpolateWeather(fluntern.lat, fluntern.lng, {
+      elevation: 556,
+      now,
+      readings: [reading("SMA", { humidity: 70 }), reading("KLO", { temperature: 12, humidity: 90 })],
+    });
+    expect(estimate!.humidity).toBe(70);
+    // Kloten at 426 m, carried up 130 m along the standard lapse rate
+    expect(estimate!.temperature).toBeCloseTo(12 - 130 * STANDARD_LAPSE_RATE, 1);
+  });
+
+  it("returns null without readings from nearby stations", async () => {
+    expect(await interpolateWeather(fluntern.lat, fluntern.lng, { elevation: 556, now, readings: [] })).toBeNull();
+  });
+});
+
+describe("stale readings", () => {
+  it("are left out of the current readings and of readings replayed from history", async () => {
+    await storage.createWeatherData({ stationId: "STALE", temperature: 9 }, new Date(now.getTime() - 4 * HOUR_MS));
+    await storage.createWeatherData({ stationId: "FRESH", temperature: 11 }, new Date(now.getTime() - 2 * HOUR_MS));
+    await storage.createWeatherData({ stationId: "LATER", temperature: 13 }, new Date(now.getTime() + HOUR_MS));
+
+    const stationIds = (readings: WeatherData[]) =>
+      readings.map(r => r.stationId).filter(id => ["STALE", "FRESH", "LATER"].indexOf(id!) >= 0);
+
+    expect(stationIds(await loadStationReadings(now))).toEqual(["FRESH"]);
+
+    const history = await loadStationHistory(new Date(now.getTime() - HOUR_MS), new Date(now.getTime() + HOUR_MS));
+    expect(stationIds(stationReadingsAt(history, now))).toEqual(["FRESH"]);
+    expect(stationIds(stationReadingsAt(history, new Date(now.getTime() + HOUR_MS))).sort()).toEqual(["FRESH", "LATER"]);
+  });
+});
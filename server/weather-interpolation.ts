@@ -0,0 +1,264 @@
+import { storage } from "./storage";
+import { elevationService } from "./elevation";
+import { STANDARD_LAPSE_RATE, stationRegistry } from "./weather-stations";
+import { roundTo } from "@shared/math";
+import type { ForagingLocation, WeatherData } from "@shared/schema";
+
+/**
+ * Weather at an arbitrary point estimated from nearby station readings by inverse
+ * distance weighting. Temperatures are first reduced to sea level along a lapse rate
+ * fitted to the contributing stations, interpolated, then raised to the target's
+ * elevation, so a valley spot is not given the reading of a summit station.
+ */
+
+export interface StationContribution {
+  stationId: string;
+  name: string;
+  distance: number; // km
+  elevation: number; // metres
+  weight: number; // share of the estimate, 0-1
+  observedAt: string;
+}
+
+export interface InterpolatedWeather {
+  latitude: number;
+  longitude: number;
+  elevation: number | null; // metres; null when no DEM covers the point
+  temperature: number | null;
+  soilTemperature: number | null;
+  humidity: number | null;
+  precipitation: number | null;
+  lapseRate: number; // °C per metre used for detrending
+  observedAt: string; // oldest contributing reading
+  stations: StationContribution[];
+}
+
+const MAX_STATIONS = 6;
+const SEARCH_RADIUS_KM = 50;
+const READING_MAX_AGE_MS = 3 * 60 * 60 * 1000;
+const IDW_POWER = 2;
+// A station this close is taken as the answer rather than weighted
+const COINCIDENT_KM = 0.01;
+
+// A fitted lapse rate needs stations spread over enough height to be meaningful,
+// and is kept between a mild inversion and the dry adiabatic rate
+const LAPSE_FIT_MIN_STATIONS = 3;
+const LAPSE_FIT_MIN_RANGE_M = 300;
+const LAPSE_RATE_MIN = -0.002;
+const LAPSE_RATE_MAX = 0.0098;
+
+interface StationSample {
+  stationId: string;
+  name: string;
+  distance: number;
+  elevation: number;
+  reading: WeatherData;
+}
+
+/**
+ * Estimate current weather at a point, or null when no station near it has a recent
+ * reading. The target elevation is looked up in the DEM unless given, and callers
+ * interpolating many points can pass the station readings from loadStationReadings.
+ */
+export async function interpolateWeather(
+  lat: number,
+  lng: number,
+  options: { elevation?: number | null; now?: Date; readings?: WeatherData[] } = {},
+): Promise<InterpolatedWeather | null> {
+  const now = options.now ?? new Date();
+  const [stations, readings, elevation] = await Promise.all([
+    stationRegistry.nearest(lat, lng, SEARCH_RADIUS_KM),
+    options.readings ?? loadStationReadings(now),
+    options.elevation !== undefined ? options.elevation : elevationService.getElevation(lat, lng),
+  ]);
+
+  const samples: StationSample[] = [];
+  for (const station of stations) {
+    const reading = readings.find(r => r.stationId === station.id);
+    if (reading) {
+      samples.push({ stationId: station.id, name: station.name, distance: station.distance, elevation: station.elevation, reading });
+    }
+    if (samples.length === MAX_STATIONS) break;
+  }
+  if (samples.length === 0) {
+    return null;
+  }
+
+  const weights = idwWeights(samples);
+  const lapseRate = fitLapseRate(samples);
+
+  // With no target elevation there is nothing to detrend towards
+  const detrended = (value: (r: WeatherData) => number | null) => {
+    if (elevation === null) return interpolate(samples, value);
+    const seaLevel = interpolate(samples, (r, stationElevation) => {
+      const reading = value(r);
+      return reading === null ? null : reading + stationElevation * lapseRate;
+    });
+    return seaLevel === null ? null : seaLevel - elevation * lapseRate;
+  };
+
+  return {
+    latitude: lat,
+    longitude: lng,
+    elevation,
+    temperature: roundTo(detrended(r => r.temperature), 1),
+    soilTemperature: roundTo(detrended(r => r.soilTemperature), 1),
+    humidity: roundTo(interpolate(samples, r => r.humidity), 0),
+    precipitation: roundTo(interpolate(samples, r => r.precipitation), 1),
+    lapseRate: Math.round(lapseRate * 100000) / 100000,
+    observedAt: new Date(Math.min(...samples.map(s => s.reading.timestamp!.getTime()))).toISOString(),
+    stations: samples
+      .map((sample, i) => ({
+        stationId: sample.stationId,
+        name: sample.name,
+        distance: Math.round(sample.distance * 100) / 100,
+        elevation: sample.elevation,
+        weight: Math.round(weights[i] * 1000) / 1000,
+        observedAt: sample.reading.timestamp!.toISOString(),
+      }))
+      .filter(station => station.weight > 0),
+  };
+}
+
+/**
+ * Interpolated weather shaped as a stored reading, for locations with no readings
+ * of their own
+ */
+export async function interpolateWeatherForLocation(
+  location: ForagingLocation,
+  now = new Date(),
+  readings?: WeatherData[],
+): Promise<WeatherData | undefined> {
+  const estimate = await interpolateWeather(location.latitude, location.longitude, {
+    elevation: location.elevation ?? undefined,
+    now,
+    readings,
+  });
+  if (!estimate) {
+    return undefined;
+  }
+
+  return {
+    id: `interpolated-${location.id}`,
+    locationId: location.id,
+    stationId: null,
+    source: "interpolated",
+    timestamp: new Date(estimate.observedAt),
+    temperature: estimate.temperature,
+    humidity: estimate.humidity,
+    soilTemperature: estimate.soilTemperature,
+    precipitation: estimate.precipitation,
+    windSpeed: null,
+    pressure: null,
+    lastRainfall: null,
+  };
+}
+
+/**
+ * The latest reading of every station recent enough to interpolate from, as of now
+ */
+export function loadStationReadings(now = new Date()): Promise<WeatherData[]> {
+  return storage.getLatestStationReadings(new Date(now.getTime() - READING_MAX_AGE_MS), now);
+}
+
+/**
+ * Station readings covering interpolation at any time from since to until, keyed by
+ * station, for picking what loadStationReadings would have returned with stationReadingsAt
+ */
+export function loadStationHistory(since: Date, until: Date): Promise<Map<string, WeatherData[]>> {
+  return storage.getStationWeatherHistory(new Date(since.getTime() - READING_MAX_AGE_MS), until);
+}
+
+// What loadStationReadings would have returned as of now, from loadStationHistory
+export function stationReadingsAt(history: Map<string, WeatherData[]>, now: Date): WeatherData[] {
+  const readings: WeatherData[] = [];
+  history.forEach(stationReadings => {
+    const reading = latestReadingAt(stationReadings, now);
+    if (reading && reading.timestamp!.getTime() >= now.getTime() - READING_MAX_AGE_MS) {
+      readings.push(reading);
+    }
+  });
+  return readings;
+}
+
+/**
+ * The last reading taken at or before a time, from readings sorted oldest first
+ */
+export function latestReadingAt(readings: WeatherData[], at: Date): WeatherData | undefined {
+  let low = 0;
+  let high = readings.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (readings[middle].timestamp!.getTime() <= at.getTime()) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low > 0 ? readings[low - 1] : undefined;
+}
+
+/**
+ * Inverse distance weights over the stations that report a value, all of them by
+ * default. A reporting station at the point takes the whole weight; one at the
+ * point without the value leaves the others weighted as if it were not there.
+ */
+export function idwWeights(
+  samples: Array<{ distance: number }>,
+  reports: (index: number) => boolean = () => true,
+): number[] {
+  const coincident = samples.findIndex((s, i) => s.distance < COINCIDENT_KM && reports(i));
+  if (coincident >= 0) {
+    return samples.map((_, i) => (i === coincident ? 1 : 0));
+  }
+
+  const raw = samples.map((s, i) => (reports(i) ? 1 / Math.pow(s.distance, IDW_POWER) : 0));
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  return total > 0 ? raw.map(w => w / total) : raw;
+}
+
+/**
+ * Weighted mean over the stations that report a value, with the weights taken
+ * among those that do
+ */
+function interpolate(
+  samples: StationSample[],
+  value: (reading: WeatherData, stationElevation: number) => number | null,
+): number | null {
+  const values = samples.map(sample => value(sample.reading, sample.elevation));
+  const weights = idwWeights(samples, i => values[i] !== null);
+
+  let weighted = 0;
+  let total = 0;
+  values.forEach((v, i) => {
+    if (v === null || weights[i] === 0) return;
+    weighted += v * weights[i];
+    total += weights[i];
+  });
+  return total > 0 ? weighted / total : null;
+}
+
+/**
+ * Least-squares temperature/elevation slope across the stations, falling back to
+ * the standard lapse rate when they do not span enough height, and clamped between
+ * a mild inversion and the dry adiabatic rate
+ */
+export function fitLapseRate(samples: Array<{ elevation: number; reading: Pick<WeatherData, "temperature"> }>): number {
+  const points = samples.filter(s => s.reading.temperature !== null);
+  const elevations = points.map(s => s.elevation);
+  if (points.length < LAPSE_FIT_MIN_STATIONS || Math.max(...elevations) - Math.min(...elevations) < LAPSE_FIT_MIN_RANGE_M) {
+    return STANDARD_LAPSE_RATE;
+  }
+
+  const meanZ = elevations.reduce((sum, z) => sum + z, 0) / points.length;
+  const meanT = points.reduce((sum, s) => sum + s.reading.temperature!, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const s of points) {
+    covariance += (s.elevation - meanZ) * (s.reading.temperature! - meanT);
+    variance += (s.elevation - meanZ) * (s.elevation - meanZ);
+  }
+
+  // Temperature falls with height, so the lapse rate is the negated slope
+  return Math.min(Math.max(-covariance / variance, LAPSE_RATE_MIN), LAPSE_RATE_MAX);
+}
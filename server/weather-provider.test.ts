@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { openMeteoForecastFixture } from "./fixtures/open-meteo-forecast";
+import {
+  CachedWeatherProvider,
+  FixtureWeatherProvider,
+  MAX_CACHE_ENTRIES,
+  type CurrentWeather,
+  type DailyWeather,
+  type OpenMeteoForecast,
+  type WeatherProvider,
+} from "./weather-provider";
+
+type ForecastChanges = { [K in "current" | "hourly" | "daily"]?: Partial<OpenMeteoForecast[K]> };
+
+// The recorded Zürich response with some of its values replaced
+const recorded = (changes: ForecastChanges) =>
+  new FixtureWeatherProvider({
+    ...openMeteoForecastFixture,
+    current: { ...openMeteoForecastFixture.current, ...changes.current },
+    hourly: { ...openMeteoForecastFixture.hourly, ...changes.hourly },
+    daily: { ...openMeteoForecastFixture.daily, ...changes.daily },
+  });
+
+describe("OpenMeteoWeatherProvider", () => {
+  it("takes soil temperature and rain from the hour the 15-minute reading falls in", async () => {
+    const weather = await recorded({ current: { time: "2025-09-18T12:45" } }).getCurrentWeather(47.37, 8.54);
+    expect(weather).toMatchObject({
+      temperature: 17.4,
+      soilTemperature: 14.6,
+      precipitation: 0.2,
+      source: "open-meteo",
+      isFallback: false,
+      observedAt: new Date("2025-09-18T12:45:00Z"),
+    });
+  });
+
+  it("falls back to no soil temperature and the current rain when the hour is missing", async () => {
+    const outside = await recorded({ current: { time: "2025-09-18T15:00", precipitation: 0.7 } }).getCurrentWeather(47.37, 8.54);
+    expect(outside).toMatchObject({ soilTemperature: null, precipitation: 0.7 });
+
+    const gap = await recorded({ hourly: { soil_temperature_6cm: [14.1, null, 15] } }).getCurrentWeather(47.37, 8.54);
+    expect(gap.soilTemperature).toBeNull();
+  });
+
+  it("counts days since at least 1 mm fell, capped at a week", async () => {
+    // 2.1 mm fell on 2025-09-16, two days before the reading
+    expect((await recorded({}).getCurrentWeather(47.37, 8.54)).lastRainfall).toBe(2);
+    expect((await recorded({ daily: { precipitation_sum: [0, 0, 0, 0, 0, 0, 0, 1] } }).getCurrentWeather(47.37, 8.54)).lastRainfall).toBe(0);
+    // Rain eight days ago is beyond the look-back
+    expect((await recorded({ daily: { precipitation_sum: [9, 0, 0, 0, 0, 0, 0, 0] } }).getCurrentWeather(47.37, 8.54)).lastRainfall).toBe(7);
+    expect((await recorded({ daily: { precipitation_sum: [0, 0, null, 0, 0, 0, 0, null] } }).getCurrentWeather(47.37, 8.54)).lastRainfall).toBe(7);
+  });
+});
+
+/**
+ * Answers current weather from calls the test settles by hand
+ */
+class ManualProvider implements WeatherProvider {
+  readonly name = "manual";
+  calls: Array<{ lat: number; lng: number; resolve: (weather: CurrentWeather) => void; reject: (error: Error) => void }> = [];
+
+  getCurrentWeather(lat: number, lng: number): Promise<CurrentWeather> {
+    return new Promise((resolve, reject) => this.calls.push({ lat, lng, resolve, reject }));
+  }
+
+  async getDailyWeather(): Promise<DailyWeather[]> {
+    return [];
+  }
+}
+
+const weather = { temperature: 12 } as CurrentWeather;
+
+describe("CachedWeatherProvider", () => {
+  it("shares one in-flight request between callers within about a kilometre", async () => {
+    const source = new ManualProvider();
+    const cached = new CachedWeatherProvider(source);
+
+    const first = cached.getCurrentWeather(47.3712, 8.5414);
+    const second = cached.getCurrentWeather(47.3689, 8.5386);
+    expect(source.calls).toHaveLength(1);
+    expect(source.calls[0]).toMatchObject({ lat: 47.37, lng: 8.54 });
+
+    source.calls[0].resolve(weather);
+    expect(await first).toBe(weather);
+    expect(await second).toBe(weather);
+    await cached.getCurrentWeather(47.37, 8.54);
+    expect(source.calls).toHaveLength(1);
+  });
+
+  it("does not keep failed requests", async () => {
+    const source = new ManualProvider();
+    const cached = new CachedWeatherProvider(source);
+
+    const failed = cached.getCurrentWeather(46.5, 7.5);
+    source.calls[0].reject(new Error("Open-Meteo request failed: 503"));
+    await expect(failed).rejects.toThrow("503");
+
+    const retried = cached.getCurrentWeather(46.5, 7.5);
+    expect(source.calls).toHaveLength(2);
+    source.calls[1].resolve(weather);
+    expect(await retried).toBe(weather);
+  });
+
+  it("evicts the oldest entry beyond MAX_CACHE_ENTRIES", async () => {
+    const source = new ManualProvider();
+    const cached = new CachedWeatherProvider(source);
+
+    for (let i = 0; i <= MAX_CACHE_ENTRIES; i++) {
+      cached.getCurrentWeather(45 + i / 100, 6);
+    }
+    source.calls.forEach(call => call.resolve(weather));
+    expect(source.calls).toHaveLength(MAX_CACHE_ENTRIES + 1);
+
+    await cached.getCurrentWeather(45 + MAX_CACHE_ENTRIES / 100, 6);
+    expect(source.calls).toHaveLength(MAX_CACHE_ENTRIES + 1);
+    cached.getCurrentWeather(45, 6);
+    expect(source.calls).toHaveLength(MAX_CACHE_ENTRIES + 2);
+  });
+});
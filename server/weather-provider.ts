@@ -0,0 +1,283 @@
+import { openMeteoDailyForecastFixture, openMeteoForecastFixture } from "./fixtures/open-meteo-forecast";
+import type { WeatherSource } from "@shared/schema";
+
+export interface CurrentWeather {
+  temperature: number; // Celsius
+  humidity: number | null; // Percentage
+  soilTemperature: number | null; // Celsius
+  precipitation: number | null; // mm over the preceding hour
+  windSpeed: number | null; // km/h
+  pressure: number | null; // hPa
+  lastRainfall: number | null; // days since at least 1 mm fell, capped at a week; null when the source cannot tell
+  station: string;
+  dataSource: string;
+  source: WeatherSource;
+  isFallback: boolean;
+  observedAt: Date;
+}
+
+export interface DailyWeather {
+  date: string; // YYYY-MM-DD
+  temperatureMin: number; // Celsius
+  temperatureMax: number; // Celsius
+  temperatureMean: number; // Celsius
+  humidity: number; // daily mean percentage
+  precipitation: number; // mm
+  windSpeed: number; // daily max km/h
+}
+
+// Days before today included in daily series, so lagged effects can be computed for day one
+export const DAILY_PAST_DAYS = 3;
+export const DAILY_FORECAST_DAYS = 7;
+
+/**
+ * Source of current weather conditions and daily forecasts for a coordinate
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  getCurrentWeather(lat: number, lng: number): Promise<CurrentWeather>;
+  /** DAILY_PAST_DAYS observed days followed by DAILY_FORECAST_DAYS forecast days starting today */
+  getDailyWeather(lat: number, lng: number): Promise<DailyWeather[]>;
+}
+
+/**
+ * Source of current conditions that may not cover every coordinate
+ */
+export interface CurrentWeatherSource {
+  readonly name: string;
+  /** Conditions at the point, or null when the source has no data there */
+  getCurrentWeather(lat: number, lng: number): Promise<CurrentWeather | null>;
+}
+
+/**
+ * Subset of the Open-Meteo /v1/forecast response requested by this module
+ */
+export interface OpenMeteoForecast {
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  timezone: string;
+  current: {
+    time: string;
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    precipitation: number;
+    wind_speed_10m: number;
+    surface_pressure: number;
+  };
+  hourly: {
+    time: string[];
+    precipitation: Array<number | null>;
+    soil_temperature_6cm: Array<number | null>;
+  };
+  daily: {
+    time: string[];
+    precipitation_sum: Array<number | null>;
+  };
+}
+
+/**
+ * Subset of the Open-Meteo /v1/forecast daily response requested by this module
+ */
+export interface OpenMeteoDailyForecast {
+  daily: {
+    time: string[];
+    temperature_2m_min: number[];
+    temperature_2m_max: number[];
+    temperature_2m_mean: number[];
+    relative_humidity_2m_mean: number[];
+    precipitation_sum: Array<number | null>;
+    wind_speed_10m_max: number[];
+  };
+}
+
+const SIGNIFICANT_RAIN_MM = 1;
+const RAINFALL_LOOKBACK_DAYS = 7;
+
+export class OpenMeteoWeatherProvider implements WeatherProvider {
+  readonly name: string = "Open-Meteo";
+
+  constructor(private baseUrl = "https://api.open-meteo.com/v1") {}
+
+  async getCurrentWeather(lat: number, lng: number): Promise<CurrentWeather> {
+    return this.parseForecast(await this.fetchForecast(lat, lng));
+  }
+
+  async getDailyWeather(lat: number, lng: number): Promise<DailyWeather[]> {
+    const { daily } = await this.fetchDailyForecast(lat, lng);
+
+    return daily.time.map((date, i) => ({
+      date,
+      temperatureMin: daily.temperature_2m_min[i],
+      temperatureMax: daily.temperature_2m_max[i],
+      temperatureMean: daily.temperature_2m_mean[i],
+      humidity: daily.relative_humidity_2m_mean[i],
+      precipitation: daily.precipitation_sum[i] ?? 0,
+      windSpeed: daily.wind_speed_10m_max[i],
+    }));
+  }
+
+  protected async fetchForecast(lat: number, lng: number): Promise<OpenMeteoForecast> {
+    const params = new URLSearchParams({
+      latitude: String(lat),
+      longitude: String(lng),
+      current: "temperature_2m,relative_humidity_2m,precipitation,wind_speed_10m,surface_pressure",
+      hourly: "precipitation,soil_temperature_6cm",
+      daily: "precipitation_sum",
+      past_days: String(RAINFALL_LOOKBACK_DAYS),
+      forecast_days: "1",
+      past_hours: "1",
+      forecast_hours: "2",
+      timezone: "GMT",
+    });
+
+    return this.request(params);
+  }
+
+  protected async fetchDailyForecast(lat: number, lng: number): Promise<OpenMeteoDailyForecast> {
+    const params = new URLSearchParams({
+      latitude: String(lat),
+      longitude: String(lng),
+      daily: "temperature_2m_min,temperature_2m_max,temperature_2m_mean,relative_humidity_2m_mean,precipitation_sum,wind_speed_10m_max",
+      past_days: String(DAILY_PAST_DAYS),
+      forecast_days: String(DAILY_FORECAST_DAYS),
+      timezone: "Europe/Zurich", // daily sums follow local days
+    });
+    return this.request(params);
+  }
+
+  private async request<T>(params: URLSearchParams): Promise<T> {
+    const response = await fetch(`${this.baseUrl}/forecast?${params}`);
+    if (!response.ok) {
+      throw new Error(`Open-Meteo request failed: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  private parseForecast(data: OpenMeteoForecast): CurrentWeather {
+    const { current } = data;
+
+    // Hourly values are stamped on the full hour, current values every 15 minutes
+    const currentHour = `${current.time.slice(0, 13)}:00`;
+    const hourIndex = data.hourly.time.indexOf(currentHour);
+    const soilTemperature = hourIndex >= 0 ? data.hourly.soil_temperature_6cm[hourIndex] : null;
+    // Hourly precipitation is the sum over the preceding hour, which stored history can add up
+    const hourlyPrecipitation = hourIndex >= 0 ? data.hourly.precipitation[hourIndex] : null;
+
+    return {
+      temperature: current.temperature_2m,
+      humidity: current.relative_humidity_2m,
+      soilTemperature: soilTemperature ?? null,
+      precipitation: hourlyPrecipitation ?? current.precipitation,
+      windSpeed: current.wind_speed_10m,
+      pressure: current.surface_pressure,
+      lastRainfall: daysSinceRain(data.daily, current.time.slice(0, 10)),
+      station: `Open-Meteo grid ${data.latitude.toFixed(2)}, ${data.longitude.toFixed(2)} (${Math.round(data.elevation)} m)`,
+      dataSource: this.name,
+      source: "open-meteo",
+      isFallback: false,
+      observedAt: new Date(`${current.time}Z`), // requested in GMT
+    };
+  }
+}
+
+/**
+ * Serves recorded Open-Meteo responses for every coordinate, for offline development and tests
+ */
+export class FixtureWeatherProvider extends OpenMeteoWeatherProvider {
+  readonly name = "Open-Meteo (recorded fixture)";
+
+  constructor(
+    private fixture: OpenMeteoForecast = openMeteoForecastFixture,
+    private dailyFixture: OpenMeteoDailyForecast = openMeteoDailyForecastFixture,
+  ) {
+    super();
+  }
+
+  protected async fetchForecast(): Promise<OpenMeteoForecast> {
+    return this.fixture;
+  }
+
+  protected async fetchDailyForecast(): Promise<OpenMeteoDailyForecast> {
+    return this.dailyFixture;
+  }
+}
+
+const CACHE_TTL_MS = 10 * 60 * 1000; // Open-Meteo refreshes current conditions every 15 minutes
+export const MAX_CACHE_ENTRIES = 1000;
+
+/**
+ * Caches another provider per coordinate rounded to two decimals (roughly 1 km),
+ * sharing in-flight requests so concurrent callers trigger a single fetch
+ */
+export class CachedWeatherProvider implements WeatherProvider {
+  private cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+  constructor(
+    private provider: WeatherProvider,
+    private ttlMs = CACHE_TTL_MS,
+  ) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  getCurrentWeather(lat: number, lng: number): Promise<CurrentWeather> {
+    return this.cached("current", lat, lng, (roundedLat, roundedLng) =>
+      this.provider.getCurrentWeather(roundedLat, roundedLng),
+    );
+  }
+
+  getDailyWeather(lat: number, lng: number): Promise<DailyWeather[]> {
+    return this.cached("daily", lat, lng, (roundedLat, roundedLng) =>
+      this.provider.getDailyWeather(roundedLat, roundedLng),
+    );
+  }
+
+  private cached<T>(kind: string, lat: number, lng: number, load: (lat: number, lng: number) => Promise<T>): Promise<T> {
+    const roundedLat = Math.round(lat * 100) / 100;
+    const roundedLng = Math.round(lng * 100) / 100;
+    const key = `${kind}:${roundedLat},${roundedLng}`;
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value as Promise<T>;
+    }
+
+    const value = load(roundedLat, roundedLng);
+    this.cache.delete(key);
+    this.cache.set(key, { expiresAt: Date.now() + this.ttlMs, value });
+
+    // Failed lookups are not cached so the next request retries
+    value.catch(() => this.cache.delete(key));
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    return value;
+  }
+}
+
+function daysSinceRain(daily: OpenMeteoForecast["daily"], today: string): number {
+  const todayIndex = daily.time.indexOf(today);
+  const lastIndex = todayIndex >= 0 ? todayIndex : daily.time.length - 1;
+
+  for (let days = 0; days <= lastIndex && days < RAINFALL_LOOKBACK_DAYS; days++) {
+    if ((daily.precipitation_sum[lastIndex - days] ?? 0) >= SIGNIFICANT_RAIN_MM) {
+      return days;
+    }
+  }
+  return RAINFALL_LOOKBACK_DAYS;
+}
+
+export function createWeatherProvider(): WeatherProvider {
+  const provider = process.env.WEATHER_PROVIDER === "fixture"
+    ? new FixtureWeatherProvider()
+    : new OpenMeteoWeatherProvider(process.env.OPEN_METEO_API_URL);
+
+  return new CachedWeatherProvider(provider);
+}
+
+export const weatherProvider = createWeatherProvider();
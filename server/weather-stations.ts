@@ -0,0 +1,130 @@
+import fs from "fs/promises";
+import path from "path";
+import { lv95ToWgs84 } from "@shared/swiss-coordinates";
+import { calculateDistance } from "@shared/math";
+
+/**
+ * SwissMetNet station registry and elevation correction of station temperatures.
+ *
+ * Stations are read from MeteoSwiss' ogd-smn_meta_stations.csv (semicolon separated,
+ * Windows-1252). The bundled file is an excerpt of the main automatic stations;
+ * point SMN_STATIONS_PATH at the full metadata file to use every station.
+ */
+
+export interface WeatherStation {
+  id: string; // station abbreviation, e.g. SMA
+  name: string;
+  canton: string | null;
+  type: string | null;
+  latitude: number;
+  longitude: number;
+  elevation: number; // metres above sea level
+}
+
+export interface NearbyStation extends WeatherStation {
+  distance: number; // km
+}
+
+// Standard environmental lapse rate of the troposphere
+export const STANDARD_LAPSE_RATE = 0.0065; // °C per metre
+
+export class StationRegistry {
+  private stations?: Promise<WeatherStation[]>;
+
+  constructor(private csvPath: string) {}
+
+  async all(): Promise<WeatherStation[]> {
+    return this.load();
+  }
+
+  async get(id: string): Promise<WeatherStation | undefined> {
+    const stations = await this.load();
+    return stations.find(station => station.id === id.toUpperCase());
+  }
+
+  /**
+   * Stations within radiusKm of a point, nearest first, at most limit of them
+   */
+  async nearest(lat: number, lng: number, radiusKm: number, limit = Infinity): Promise<NearbyStation[]> {
+    const stations = await this.load();
+    return stations
+      .map(station => ({ ...station, distance: calculateDistance(lat, lng, station.latitude, station.longitude) }))
+      .filter(station => station.distance <= radiusKm)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+  }
+
+  private load(): Promise<WeatherStation[]> {
+    if (!this.stations) {
+      this.stations = fs.readFile(this.csvPath).then(parseStationCsv);
+      // Allow a later call to retry after a failed read
+      this.stations.catch(() => {
+        this.stations = undefined;
+      });
+    }
+    return this.stations;
+  }
+}
+
+/**
+ * Parse SwissMetNet station metadata. Rows without a usable position or height are
+ * skipped; positions fall back to the LV95 columns when WGS84 ones are missing.
+ */
+export function parseStationCsv(contents: Buffer | string): WeatherStation[] {
+  let text = typeof contents === "string" ? contents : contents.toString("utf8");
+  // MeteoSwiss publishes its metadata in Windows-1252
+  if (typeof contents !== "string" && text.indexOf("\uFFFD") >= 0) {
+    text = contents.toString("latin1");
+  }
+
+  const [headerLine, ...lines] = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter(line => line.trim());
+  if (!headerLine) return [];
+  const header = headerLine.split(";").map(column => column.trim().toLowerCase());
+  const column = (row: string[], name: string) => {
+    const value = row[header.indexOf(name)]?.trim();
+    return value ? value : null;
+  };
+
+  const stations: WeatherStation[] = [];
+  for (const line of lines) {
+    const row = line.split(";");
+    const id = column(row, "station_abbr");
+    const elevation = parseFloat(column(row, "station_height_masl") ?? "");
+
+    let latitude = parseFloat(column(row, "station_coordinates_wgs84_lat") ?? "");
+    let longitude = parseFloat(column(row, "station_coordinates_wgs84_lon") ?? "");
+    if (Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      const east = parseFloat(column(row, "station_coordinates_lv95_east") ?? "");
+      const north = parseFloat(column(row, "station_coordinates_lv95_north") ?? "");
+      ({ lat: latitude, lng: longitude } = lv95ToWgs84(east, north));
+    }
+
+    if (!id || Number.isNaN(latitude) || Number.isNaN(longitude) || Number.isNaN(elevation)) continue;
+    stations.push({
+      id: id.toUpperCase(),
+      name: column(row, "station_name") ?? id,
+      canton: column(row, "station_canton"),
+      type: column(row, "station_type_en"),
+      latitude,
+      longitude,
+      elevation,
+    });
+  }
+  return stations;
+}
+
+/**
+ * Move a temperature measured at one elevation to another along a lapse rate
+ */
+export function correctTemperatureForElevation(
+  temperature: number,
+  fromElevation: number,
+  toElevation: number,
+  lapseRate = STANDARD_LAPSE_RATE,
+): number {
+  return Math.round((temperature - (toElevation - fromElevation) * lapseRate) * 10) / 10;
+}
+
+export const stationRegistry = new StationRegistry(
+  path.resolve(process.env.SMN_STATIONS_PATH || "server/data/smn-stations.csv"),
+);
@@ -0,0 +1,44 @@
+/**
+ * Numeric and distance helpers shared by the server modules and the client
+ */
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle (haversine) distance between two WGS84 points in kilometers
+ */
+export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = deg2rad(lat2 - lat1);
+  const dLng = deg2rad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+export function deg2rad(deg: number): number {
+  return deg * (Math.PI / 180);
+}
+
+// Missing values stay missing rather than rounding to 0
+export function roundTo(value: number, decimals: number): number;
+export function roundTo(value: number | null, decimals: number): number | null;
+export function roundTo(value: number | null, decimals: number): number | null {
+  if (value === null) return null;
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+export function mean(values: number[]): number {
+  return sum(values) / values.length;
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,209 @@
+import type { ForagingLocation, MushroomSpecies, PhenologyShift } from "./schema";
+
+/**
+ * When in the year a species fruits: a relative occurrence weight for each month,
+ * January first, and the peak months numbered 1-12 as Swiss Fungi lists them.
+ * Species from before month-level data carry only a season string such as
+ * "Summer, Fall", which phenologyFromSeason turns into the same weights the
+ * probability engine used to give it.
+ *
+ * The stored curve holds at a reference elevation. seasonTiming moves it later with
+ * height (and optionally with latitude or south of the Alps) and widens or narrows it,
+ * treating the monthly weights as a continuous curve through each month's midpoint.
+ */
+
+export interface SpeciesPhenology {
+  monthWeights: number[]; // 12 values, 0-1
+  peakMonths: number[]; // 1-12
+}
+
+export interface SeasonTiming {
+  weight: number; // occurrence at this location and date, 0-1
+  shiftDays: number; // how much later than the stored curve the season runs here
+  elevationShiftDays: number; // the part of shiftDays due to elevation
+  daysToPeak: number | null; // negative once the peak has passed; null without a single peak
+}
+
+export const MONTH_LABELS = ["J", "F", "M", "A", "M", "J", "J", "A", "S", "O", "N", "D"];
+
+// Roughly the Swiss average; species override any of these with their phenologyShift
+export const DEFAULT_PHENOLOGY_SHIFT: PhenologyShift = {
+  referenceElevation: 600,
+  daysPer100m: 2,
+  stretchPer1000m: 0,
+  daysPerDegreeNorth: 0,
+  southOfAlpsDays: -10,
+};
+
+const REFERENCE_LATITUDE = 46.8;
+const SOUTH_OF_ALPS_CANTONS = ["Ticino", "Tessin", "TI"];
+const YEAR_DAYS = 365;
+const MONTH_DAYS = YEAR_DAYS / 12;
+// A season cannot shrink to nothing however high the location
+const MIN_STRETCH = 0.25;
+
+// Occurrence weights for months in a season, next to one, and everywhere else
+const IN_SEASON_WEIGHT = 1;
+const ADJACENT_WEIGHT = 0.6;
+const OFF_SEASON_WEIGHT = 0.2;
+
+// Months (0 = January) of each season and the single months either side of it
+const SEASON_MONTHS: Record<string, { months: number[]; adjacent: number[] }> = {
+  Spring: { months: [2, 3, 4], adjacent: [1, 5] },
+  Summer: { months: [5, 6, 7], adjacent: [4, 8] },
+  Fall: { months: [8, 9, 10], adjacent: [7, 11] },
+  Winter: { months: [11, 0, 1], adjacent: [2, 10] },
+};
+
+/**
+ * Month weights equivalent to a season string, for migrating species that predate them
+ */
+export function phenologyFromSeason(season: string): SpeciesPhenology {
+  if (season === "All Year") {
+    return { monthWeights: new Array<number>(12).fill(IN_SEASON_WEIGHT), peakMonths: [] };
+  }
+
+  const monthWeights = new Array<number>(12).fill(OFF_SEASON_WEIGHT);
+  for (const name of season.split(",").map(s => s.trim())) {
+    const months = SEASON_MONTHS[name];
+    if (!months) continue;
+    months.adjacent.forEach(m => (monthWeights[m] = Math.max(monthWeights[m], ADJACENT_WEIGHT)));
+    months.months.forEach(m => (monthWeights[m] = IN_SEASON_WEIGHT));
+  }
+  return { monthWeights, peakMonths: [] };
+}
+
+/**
+ * Month weights from the months (1-12) a species has been recorded in and its peak
+ * months. Peaks count fully and the other recorded months as if next to the season;
+ * without peaks the recorded months count fully and their neighbours as adjacent,
+ * the same shape a season string gets. Null when nothing was recorded.
+ */
+export function phenologyFromMonths(months: number[], peakMonths: number[]): SpeciesPhenology | null {
+  const peaks = sortedUnique(peakMonths.filter(isMonth));
+  const recorded = sortedUnique(months.filter(isMonth).concat(peaks));
+  if (recorded.length === 0) {
+    return null;
+  }
+
+  const monthWeights = new Array<number>(12).fill(OFF_SEASON_WEIGHT);
+  if (peaks.length > 0) {
+    recorded.forEach(m => (monthWeights[m - 1] = ADJACENT_WEIGHT));
+    peaks.forEach(m => (monthWeights[m - 1] = IN_SEASON_WEIGHT));
+  } else {
+    // Neighbours wrap over the new year: December sits next to January
+    recorded.forEach(m => {
+      monthWeights[(m + 10) % 12] = Math.max(monthWeights[(m + 10) % 12], ADJACENT_WEIGHT);
+      monthWeights[m % 12] = Math.max(monthWeights[m % 12], ADJACENT_WEIGHT);
+    });
+    recorded.forEach(m => (monthWeights[m - 1] = IN_SEASON_WEIGHT));
+  }
+
+  return { monthWeights, peakMonths: peaks };
+}
+
+/**
+ * Occurrence weight of a month (0 = January), falling back to the season string for
+ * species stored before month weights
+ */
+export function monthWeight(
+  species: Pick<MushroomSpecies, "season" | "monthWeights">,
+  month: number,
+): number {
+  return storedWeights(species)[month];
+}
+
+/**
+ * Occurrence of a species at a location on a date, with its season moved for the
+ * location's elevation, latitude and side of the Alps
+ */
+export function seasonTiming(
+  species: Pick<MushroomSpecies, "season" | "monthWeights" | "peakMonths" | "phenologyShift">,
+  location: Pick<ForagingLocation, "elevation" | "latitude" | "canton">,
+  date: Date,
+): SeasonTiming {
+  const weights = storedWeights(species);
+  const shift: PhenologyShift = { ...DEFAULT_PHENOLOGY_SHIFT, ...species.phenologyShift };
+
+  const aboveReference = location.elevation !== null ? location.elevation - shift.referenceElevation : 0;
+  const elevationShiftDays = (shift.daysPer100m * aboveReference) / 100;
+  const southOfAlps = location.canton !== null && SOUTH_OF_ALPS_CANTONS.indexOf(location.canton) >= 0;
+  const shiftDays = elevationShiftDays +
+    shift.daysPerDegreeNorth * (location.latitude - REFERENCE_LATITUDE) +
+    (southOfAlps ? shift.southOfAlpsDays : 0);
+  const stretch = Math.max(1 + (shift.stretchPer1000m * aboveReference) / 1000, MIN_STRETCH);
+
+  // Read the stored curve at the day that corresponds to today once the local season
+  // is moved back and squeezed to the reference length around its peak
+  const day = dayOfYear(date);
+  const peak = peakDay(weights, species.peakMonths ?? []);
+  const centre = peak ?? 0;
+  const referenceDay = centre + dayDifference(day - shiftDays, centre) / stretch;
+
+  return {
+    weight: Math.round(curveAt(weights, referenceDay) * 1000) / 1000,
+    shiftDays: Math.round(shiftDays),
+    elevationShiftDays: Math.round(elevationShiftDays),
+    daysToPeak: peak === null ? null : Math.round(dayDifference(peak + shiftDays, day)),
+  };
+}
+
+function storedWeights(species: Pick<MushroomSpecies, "season" | "monthWeights">): number[] {
+  return species.monthWeights && species.monthWeights.length === 12
+    ? species.monthWeights
+    : phenologyFromSeason(species.season).monthWeights;
+}
+
+// Linear between month midpoints, wrapping from December to January
+function curveAt(weights: number[], day: number): number {
+  const position = wrap(day, YEAR_DAYS) / MONTH_DAYS - 0.5;
+  const before = Math.floor(position);
+  const fraction = position - before;
+  const from = weights[(before + 12) % 12];
+  const to = weights[(before + 13) % 12];
+  return from + (to - from) * fraction;
+}
+
+/**
+ * Day of the stored curve's peak: the middle of the peak months, or of the months at
+ * the curve's maximum. Null when every month weighs the same.
+ */
+function peakDay(weights: number[], peakMonths: number[]): number | null {
+  const max = Math.max(...weights);
+  if (Math.min(...weights) === max) {
+    return null;
+  }
+
+  const months = peakMonths.length > 0
+    ? peakMonths.map(m => m - 1)
+    : weights.map((weight, month) => (weight === max ? month : -1)).filter(month => month >= 0);
+
+  // Circular mean, so a December-January peak lands at the turn of the year
+  const angles = months.map(month => (((month + 0.5) * MONTH_DAYS) / YEAR_DAYS) * 2 * Math.PI);
+  const x = angles.reduce((sum, angle) => sum + Math.cos(angle), 0);
+  const y = angles.reduce((sum, angle) => sum + Math.sin(angle), 0);
+  return wrap((Math.atan2(y, x) / (2 * Math.PI)) * YEAR_DAYS, YEAR_DAYS);
+}
+
+// Days from b to a the short way round the year, between -182.5 and 182.5
+function dayDifference(a: number, b: number): number {
+  return wrap(a - b + YEAR_DAYS / 2, YEAR_DAYS) - YEAR_DAYS / 2;
+}
+
+function dayOfYear(date: Date): number {
+  const start = new Date(date.getFullYear(), 0, 1);
+  const end = new Date(date.getFullYear() + 1, 0, 1);
+  return ((date.getTime() - start.getTime()) / (end.getTime() - start.getTime())) * YEAR_DAYS;
+}
+
+function wrap(value: number, size: number): number {
+  return ((value % size) + size) % size;
+}
+
+function isMonth(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= 12;
+}
+
+function sortedUnique(values: number[]): number[] {
+  return values.filter((value, i) => values.indexOf(value) === i).sort((a, b) => a - b);
+}
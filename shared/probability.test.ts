@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyWeatherScenario,
+  calculateLocationProbability,
+  calculateSpeciesProbability,
+  explainProbability,
+  type ProbabilityWeather,
+} from "./probability";
+import type { ForagingLocation, MushroomSpecies } from "./schema";
+
+// Golden values: these pin the engine's output, so a change here means a change in
+// scores and PROBABILITY_ENGINE_VERSION should be bumped with it
+
+const porcini: MushroomSpecies = {
+  id: "porcini",
+  name: "Porcini",
+  scientificName: "Boletus edulis",
+  description: null,
+  season: "Fall",
+  monthWeights: null,
+  peakMonths: [],
+  phenologyShift: { referenceElevation: 600, daysPer100m: 3 },
+  optimalTemp: 18,
+  optimalHumidity: 80,
+  soilTempMin: 6,
+  treeAssociations: ["Spruce", "Pine", "Fir", "Beech", "Oak", "Birch"],
+  forestTypes: ["Conifer", "Mixed"],
+  elevationMin: 400,
+  elevationMax: 1500,
+  edible: true,
+  difficulty: "intermediate",
+  imageUrl: null,
+  safetyNotes: null,
+  createdAt: null,
+};
+
+const morel: MushroomSpecies = {
+  ...porcini,
+  id: "morel",
+  name: "Morel",
+  season: "Spring",
+  phenologyShift: { referenceElevation: 500, daysPer100m: 4 },
+  optimalTemp: 16,
+  optimalHumidity: 75,
+  soilTempMin: 12,
+  treeAssociations: ["Ash", "Elm", "Apple", "Cherry"],
+  forestTypes: ["Hardwood", "Mixed", "Riverbank"],
+  elevationMin: 200,
+  elevationMax: 1000,
+};
+
+const location: ForagingLocation = {
+  id: "sihlwald",
+  name: "Sihlwald",
+  latitude: 46.8,
+  longitude: 8.2,
+  elevation: 800,
+  forestType: "Mixed",
+  treeSpecies: ["Spruce", "Beech"],
+  accessibility: null,
+  parkingAvailable: null,
+  description: null,
+  municipality: null,
+  canton: null,
+  createdAt: null,
+};
+
+const mildWeather: ProbabilityWeather = { temperature: 17, humidity: 82, soilTemperature: 12, lastRainfall: 2 };
+const midSeptember = new Date(2024, 8, 15, 12);
+
+describe("calculateSpeciesProbability", () => {
+  it("scores a species in ideal conditions", () => {
+    expect(calculateSpeciesProbability(porcini, location, mildWeather, midSeptember)).toEqual({
+      probability: 100,
+      factors: {
+        temperature: 25,
+        humidity: 20,
+        soilTemperature: 12,
+        recentRainfall: 15,
+        elevation: 10,
+        forestType: 10,
+        treeSpecies: 15,
+        season: 9,
+        totalScore: 100,
+      },
+      phenology: { weight: 0.911, shiftDays: 6, elevationShiftDays: 6, daysToPeak: 37 },
+    });
+  });
+
+  it("falls back to neutral weather scores without weather", () => {
+    const { probability, factors } = calculateSpeciesProbability(porcini, location, null, midSeptember);
+    expect(probability).toBe(87);
+    expect(factors).toMatchObject({ temperature: 15, humidity: 12, soilTemperature: 8, recentRainfall: 8 });
+  });
+
+  it("treats zero readings and sea level as measurements, not missing data", () => {
+    const frozen: ProbabilityWeather = { temperature: 0, humidity: 0, soilTemperature: 0, lastRainfall: 30 };
+    const { probability, factors, phenology } = calculateSpeciesProbability(
+      porcini,
+      { ...location, elevation: 0 },
+      frozen,
+      midSeptember,
+    );
+    expect(factors).toEqual({
+      temperature: 5,
+      humidity: 5,
+      soilTemperature: 2,
+      recentRainfall: 1,
+      elevation: 4,
+      forestType: 10,
+      treeSpecies: 15,
+      season: 10,
+      totalScore: 52,
+    });
+    expect(probability).toBe(52);
+    expect(phenology.shiftDays).toBe(-18);
+  });
+
+  it("caps rainfall after a dry fortnight and prefers the derived soil estimate", () => {
+    const { factors } = calculateSpeciesProbability(porcini, location, {
+      ...mildWeather,
+      lastRainfall: 1,
+      derived: { daysSinceRain: 1, precipitation7d: 2, precipitation14d: 2, soilTemperatureEstimate: 11, historyDays: 14 },
+    }, midSeptember);
+    expect(factors.recentRainfall).toBe(6);
+    expect(factors.soilTemperature).toBe(12);
+  });
+
+  it("shifts the season by elevation and south of the Alps", () => {
+    const { probability, factors, phenology } = calculateSpeciesProbability(
+      morel,
+      { ...location, elevation: 1400, canton: "Ticino" },
+      mildWeather,
+      new Date(2024, 3, 20, 12),
+    );
+    expect(probability).toBe(90);
+    expect(factors).toMatchObject({ temperature: 25, humidity: 15, elevation: 4, treeSpecies: 3, season: 10 });
+    expect(phenology).toEqual({ weight: 1, shiftDays: 26, elevationShiftDays: 36, daysToPeak: 22 });
+  });
+});
+
+describe("calculateLocationProbability", () => {
+  it("weights the best species and lists the suitable ones", () => {
+    const result = calculateLocationProbability(location, [morel, porcini], null, midSeptember);
+    expect(result.speciesProbabilities.map(sp => [sp.species.id, sp.probability])).toEqual([
+      ["porcini", 87],
+      ["morel", 68],
+    ]);
+    expect(result.probability).toBe(59);
+    expect(result.suitableSpecies).toEqual(["Porcini", "Morel"]);
+    expect(result.version).toBe(3);
+  });
+});
+
+describe("applyWeatherScenario", () => {
+  it("overrides readings and adds rain to the derived totals", () => {
+    const weather = applyWeatherScenario({
+      ...mildWeather,
+      derived: { daysSinceRain: 9, precipitation7d: 0, precipitation14d: 3, soilTemperatureEstimate: 10, historyDays: 14 },
+    }, { temperature: 0, rain: { amount: 12, daysAgo: 1 } });
+    expect(weather).toEqual({
+      temperature: 0,
+      humidity: 82,
+      soilTemperature: 12,
+      lastRainfall: 1,
+      derived: { daysSinceRain: 1, precipitation7d: 12, precipitation14d: 15, soilTemperatureEstimate: 10, historyDays: 14 },
+    });
+  });
+});
+
+describe("explainProbability", () => {
+  it("names the measured values behind strong factors", () => {
+    const { factors, phenology } = calculateSpeciesProbability(porcini, location, mildWeather, midSeptember);
+    expect(explainProbability(factors, { species: porcini, location, weather: mildWeather, phenology })).toEqual([
+      "Optimal temperature conditions (17°C)",
+      "Excellent humidity levels (82%)",
+      "Perfect recent rainfall (2 days ago)",
+      "Warm enough soil for fruiting",
+      "Excellent tree species match",
+      "Excellent forest type match (Mixed)",
+      "Peak season for Porcini",
+      "Season peak expected in 5 weeks at this altitude",
+      "Optimal elevation zone (800m)",
+    ]);
+  });
+});
@@ -0,0 +1,449 @@
+import type { DerivedWeatherMetrics, ForagingLocation, MushroomSpecies, WeatherData } from "./schema";
+import { seasonTiming, type SeasonTiming } from "./phenology";
+
+/**
+ * Bump whenever the same inputs would produce different scores, so stored or
+ * cached probabilities can be told apart from ones computed by a newer engine.
+ */
+export const PROBABILITY_ENGINE_VERSION = 3;
+
+export interface ProbabilityFactors {
+  temperature: number; // 0-25
+  humidity: number; // 0-20
+  soilTemperature: number; // 0-15
+  recentRainfall: number; // 0-15
+  elevation: number; // 0-10
+  forestType: number; // 0-10
+  treeSpecies: number; // 0-15
+  season: number; // 0-10
+  totalScore: number; // capped at 100
+}
+
+export type ProbabilityWeather = Pick<WeatherData, "temperature" | "humidity" | "soilTemperature" | "lastRainfall"> & {
+  derived?: DerivedWeatherMetrics;
+};
+
+/**
+ * What-if changes to the weather a location is scored with. Values replace the
+ * observed ones, and rain adds a shower of that many mm the given number of days
+ * before the evaluation date.
+ */
+export interface WeatherScenario {
+  temperature?: number;
+  humidity?: number;
+  soilTemperature?: number;
+  rain?: { amount: number; daysAgo: number };
+}
+
+export interface SpeciesProbability {
+  probability: number;
+  factors: ProbabilityFactors;
+  phenology: SeasonTiming; // behind the season factor
+}
+
+export interface LocationProbability {
+  version: number;
+  probability: number;
+  suitableSpecies: string[];
+  topSpecies: MushroomSpecies[];
+  speciesProbabilities: Array<SpeciesProbability & { species: MushroomSpecies }>;
+}
+
+// Species scoring at least this much are listed as suitable for a location
+export const SUITABLE_SPECIES_THRESHOLD = 35;
+
+const SIGNIFICANT_RAIN_MM = 1;
+
+/**
+ * Names the engine version and the exact species data scores were computed from,
+ * so caches drop their scores when a species is added, removed or edited
+ */
+export function speciesCacheKey(species: MushroomSpecies[]): string {
+  // 32-bit FNV-1a; collisions only cost a missed invalidation between two edits
+  const text = JSON.stringify(species);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${PROBABILITY_ENGINE_VERSION}:${species.length}:${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * Score how likely a species is to be fruiting at a location on a given date
+ */
+export function calculateSpeciesProbability(
+  species: MushroomSpecies,
+  location: ForagingLocation,
+  weather: ProbabilityWeather | null | undefined,
+  date: Date,
+): SpeciesProbability {
+  const phenology = seasonTiming(species, location, date);
+  const factors: ProbabilityFactors = {
+    temperature: scoreTemperature(species, weather),
+    humidity: scoreHumidity(species, weather),
+    soilTemperature: scoreSoilTemperature(species, weather),
+    recentRainfall: scoreRainfall(weather),
+    elevation: scoreElevation(species, location),
+    forestType: scoreForestType(species, location),
+    treeSpecies: scoreTreeSpecies(species, location),
+    season: Math.round(phenology.weight * 10),
+    totalScore: 0,
+  };
+
+  factors.totalScore = Math.min(
+    factors.temperature +
+    factors.humidity +
+    factors.soilTemperature +
+    factors.recentRainfall +
+    factors.elevation +
+    factors.forestType +
+    factors.treeSpecies +
+    factors.season,
+    100
+  );
+
+  return { probability: factors.totalScore, factors, phenology };
+}
+
+/**
+ * Score a location across all species: a weighted average of its three best species
+ */
+export function calculateLocationProbability(
+  location: ForagingLocation,
+  allSpecies: MushroomSpecies[],
+  weather: ProbabilityWeather | null | undefined,
+  date: Date,
+): LocationProbability {
+  const speciesProbabilities = allSpecies
+    .map(species => ({ species, ...calculateSpeciesProbability(species, location, weather, date) }))
+    .sort((a, b) => b.probability - a.probability);
+
+  const weights = [0.4, 0.35, 0.25];
+  const overallProbability = Math.round(
+    speciesProbabilities.slice(0, weights.length).reduce((sum, sp, index) => sum + sp.probability * weights[index], 0)
+  );
+
+  return {
+    version: PROBABILITY_ENGINE_VERSION,
+    probability: Math.min(overallProbability, 100),
+    suitableSpecies: speciesProbabilities
+      .filter(sp => sp.probability >= SUITABLE_SPECIES_THRESHOLD)
+      .map(sp => sp.species.name),
+    topSpecies: speciesProbabilities.slice(0, 5).map(sp => sp.species),
+    speciesProbabilities,
+  };
+}
+
+/**
+ * Observed weather with a scenario applied, for scoring what-if conditions. Works
+ * without observed weather too, in which case only the scenario's values are known.
+ */
+export function applyWeatherScenario(
+  weather: ProbabilityWeather | null | undefined,
+  scenario: WeatherScenario,
+): ProbabilityWeather {
+  const result: ProbabilityWeather = {
+    temperature: scenario.temperature ?? weather?.temperature ?? null,
+    humidity: scenario.humidity ?? weather?.humidity ?? null,
+    soilTemperature: scenario.soilTemperature ?? weather?.soilTemperature ?? null,
+    lastRainfall: weather?.lastRainfall ?? null,
+    derived: weather?.derived && { ...weather.derived },
+  };
+
+  // The soil estimate from air temperature history would otherwise win over the scenario
+  if (result.derived && scenario.soilTemperature !== undefined) {
+    result.derived.soilTemperatureEstimate = scenario.soilTemperature;
+  }
+
+  if (scenario.rain) {
+    const { amount, daysAgo } = scenario.rain;
+    if (amount >= SIGNIFICANT_RAIN_MM) {
+      const observed = effectiveDaysSinceRain(weather);
+      result.lastRainfall = observed === null ? daysAgo : Math.min(observed, daysAgo);
+      if (result.derived) result.derived.daysSinceRain = result.lastRainfall;
+    }
+    if (result.derived) {
+      if (daysAgo < 7) result.derived.precipitation7d += amount;
+      if (daysAgo < 14) result.derived.precipitation14d += amount;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Human-readable reasons behind a factor breakdown. Species, location and weather
+ * add specifics such as the measured values and safety warnings when given.
+ */
+export function explainProbability(
+  factors: ProbabilityFactors,
+  context: {
+    species?: MushroomSpecies;
+    location?: ForagingLocation;
+    weather?: ProbabilityWeather | null;
+    phenology?: SeasonTiming;
+  } = {},
+): string[] {
+  const { species, location, weather, phenology } = context;
+  const explanations: string[] = [];
+
+  if (factors.temperature >= 20) {
+    explanations.push(weather?.temperature != null
+      ? `Optimal temperature conditions (${weather.temperature}°C)`
+      : "Optimal temperature conditions");
+  } else if (factors.temperature >= 15) explanations.push("Good temperature");
+  else if (factors.temperature >= 10) explanations.push("Adequate temperature");
+  else explanations.push("Temperature not ideal");
+
+  if (factors.humidity >= 15) {
+    explanations.push(weather?.humidity != null
+      ? `Excellent humidity levels (${weather.humidity}%)`
+      : "Excellent humidity levels");
+  } else if (factors.humidity >= 10) explanations.push("Good humidity");
+  else if (factors.humidity >= 5) explanations.push("Fair humidity");
+  else explanations.push("Low humidity conditions");
+
+  const daysSinceRain = effectiveDaysSinceRain(weather);
+  if (factors.recentRainfall >= 12) {
+    explanations.push(daysSinceRain != null
+      ? `Perfect recent rainfall (${daysSinceRain} days ago)`
+      : "Perfect recent rainfall");
+  } else if (factors.recentRainfall >= 8) explanations.push("Good soil moisture");
+  else if (factors.recentRainfall >= 4) explanations.push("Some soil moisture");
+  else explanations.push("Dry conditions");
+
+  if (factors.soilTemperature >= 10) explanations.push("Warm enough soil for fruiting");
+  else if (factors.soilTemperature >= 5) explanations.push("Fair soil temperature");
+  else explanations.push("Soil temperature not optimal");
+
+  if (factors.treeSpecies >= 12) explanations.push("Excellent tree species match");
+  else if (factors.treeSpecies >= 8) explanations.push("Good tree compatibility");
+  else if (factors.treeSpecies >= 5) explanations.push("Fair tree match");
+  else explanations.push("Limited tree species match");
+
+  if (factors.forestType >= 10) {
+    explanations.push(location?.forestType
+      ? `Excellent forest type match (${location.forestType})`
+      : "Excellent forest type match");
+  } else if (factors.forestType >= 6) explanations.push("Good forest compatibility");
+  else explanations.push("Limited forest type compatibility");
+
+  if (factors.season >= 8) explanations.push(species ? `Peak season for ${species.name}` : "Peak season for mushrooms");
+  else if (factors.season >= 6) explanations.push("Good seasonal timing");
+  else if (factors.season >= 4) explanations.push("Fair seasonal timing");
+  else explanations.push("Outside optimal season");
+
+  const peakTiming = phenology && describePeakTiming(phenology);
+  if (peakTiming) explanations.push(peakTiming);
+
+  if (factors.elevation >= 8) {
+    explanations.push(location?.elevation != null
+      ? `Optimal elevation zone (${location.elevation}m)`
+      : "Optimal elevation zone");
+  } else if (factors.elevation >= 6) explanations.push("Good elevation");
+  else if (factors.elevation >= 4) explanations.push("Fair elevation");
+  else explanations.push("Elevation not ideal");
+
+  // Safety note for dangerous species
+  if (species && species.edible === false) {
+    if (species.safetyNotes?.includes("DEADLY") || species.safetyNotes?.includes("DANGEROUS")) {
+      explanations.push(`⚠️ WARNING: ${species.name} is highly toxic - never consume!`);
+    } else {
+      explanations.push(`ℹ️ Note: ${species.name} is not edible`);
+    }
+  }
+
+  return explanations;
+}
+
+function scoreTemperature(species: MushroomSpecies, weather: ProbabilityWeather | null | undefined): number {
+  if (weather?.temperature != null && species.optimalTemp != null) {
+    const tempDiff = Math.abs(weather.temperature - species.optimalTemp);
+    if (tempDiff <= 2) return 25;
+    if (tempDiff <= 5) return 20;
+    if (tempDiff <= 8) return 15;
+    if (tempDiff <= 12) return 10;
+    return 5;
+  }
+  if (weather?.temperature != null) {
+    // General temperature assessment for Swiss conditions
+    if (weather.temperature >= 15 && weather.temperature <= 22) return 20;
+    if (weather.temperature >= 10 && weather.temperature <= 25) return 15;
+    if (weather.temperature >= 5 && weather.temperature <= 30) return 10;
+    return 5;
+  }
+  // Default moderate score if no weather data
+  return 15;
+}
+
+function scoreHumidity(species: MushroomSpecies, weather: ProbabilityWeather | null | undefined): number {
+  if (weather?.humidity != null && species.optimalHumidity != null) {
+    const humidityDiff = Math.abs(weather.humidity - species.optimalHumidity);
+    if (humidityDiff <= 5) return 20;
+    if (humidityDiff <= 10) return 15;
+    if (humidityDiff <= 15) return 12;
+    if (humidityDiff <= 20) return 8;
+    return 5;
+  }
+  if (weather?.humidity != null) {
+    // Mushrooms prefer high humidity
+    if (weather.humidity >= 80) return 20;
+    if (weather.humidity >= 70) return 15;
+    if (weather.humidity >= 60) return 10;
+    if (weather.humidity >= 50) return 5;
+    return 2;
+  }
+  return 12;
+}
+
+function scoreSoilTemperature(species: MushroomSpecies, weather: ProbabilityWeather | null | undefined): number {
+  // Prefer the estimate derived from air temperature history over a single reading
+  const soilTemperature = weather?.derived?.soilTemperatureEstimate ?? weather?.soilTemperature;
+
+  if (soilTemperature != null && species.soilTempMin != null) {
+    if (soilTemperature >= species.soilTempMin + 8) return 15;
+    if (soilTemperature >= species.soilTempMin + 5) return 12;
+    if (soilTemperature >= species.soilTempMin + 2) return 10;
+    if (soilTemperature >= species.soilTempMin) return 8;
+    if (soilTemperature >= species.soilTempMin - 3) return 5;
+    return 2;
+  }
+  if (soilTemperature != null) {
+    if (soilTemperature >= 12) return 12;
+    if (soilTemperature >= 8) return 10;
+    if (soilTemperature >= 5) return 6;
+    return 3;
+  }
+  return 8;
+}
+
+function effectiveDaysSinceRain(weather: ProbabilityWeather | null | undefined): number | null {
+  return weather?.derived?.daysSinceRain ?? weather?.lastRainfall ?? null;
+}
+
+function scoreRainfall(weather: ProbabilityWeather | null | undefined): number {
+  const lastRainfall = effectiveDaysSinceRain(weather);
+
+  let score: number;
+  if (lastRainfall === null) score = 8;
+  else if (lastRainfall <= 2) score = 15; // Perfect
+  else if (lastRainfall <= 4) score = 12; // Excellent
+  else if (lastRainfall <= 7) score = 10; // Good
+  else if (lastRainfall <= 14) score = 6; // Fair
+  else if (lastRainfall <= 21) score = 3; // Poor
+  else score = 1; // Very dry
+
+  // A single shower after a dry fortnight does not wet the soil enough
+  const derived = weather?.derived;
+  if (derived && derived.historyDays >= 13 && derived.precipitation14d < 5) {
+    score = Math.min(score, 6);
+  }
+  return score;
+}
+
+function scoreElevation(species: MushroomSpecies, location: ForagingLocation): number {
+  if (location.elevation != null && species.elevationMin != null && species.elevationMax != null) {
+    if (location.elevation >= species.elevationMin && location.elevation <= species.elevationMax) {
+      return 10;
+    }
+    const closestDiff = Math.min(
+      Math.abs(location.elevation - species.elevationMin),
+      Math.abs(location.elevation - species.elevationMax),
+    );
+    if (closestDiff <= 50) return 9;
+    if (closestDiff <= 100) return 8;
+    if (closestDiff <= 200) return 6;
+    if (closestDiff <= 400) return 4;
+    if (closestDiff <= 600) return 2;
+    return 1;
+  }
+  if (location.elevation != null) {
+    // General Swiss elevation assessment
+    if (location.elevation >= 400 && location.elevation <= 1200) return 8;
+    if (location.elevation >= 200 && location.elevation <= 1600) return 6;
+    if (location.elevation >= 100 && location.elevation <= 2000) return 4;
+    return 2;
+  }
+  return 6;
+}
+
+function scoreForestType(species: MushroomSpecies, location: ForagingLocation): number {
+  const locationType = location.forestType?.toLowerCase();
+
+  if (locationType && species.forestTypes && species.forestTypes.length > 0) {
+    const forestMatch = species.forestTypes.some(type => {
+      const speciesType = type.toLowerCase();
+      if (locationType === speciesType) return true;
+
+      // Partial matches for Swiss forest types
+      if (locationType.includes("mixed") && speciesType.includes("mixed")) return true;
+      if (locationType.includes("conifer") && (speciesType.includes("conifer") || speciesType.includes("softwood"))) return true;
+      if (locationType.includes("hardwood") && (speciesType.includes("hardwood") || speciesType.includes("deciduous"))) return true;
+      if (locationType.includes("deciduous") && speciesType.includes("hardwood")) return true;
+      return false;
+    });
+    return forestMatch ? 10 : 3;
+  }
+  if (locationType) {
+    if (locationType.includes("mixed")) return 8;
+    if (locationType.includes("conifer") || locationType.includes("hardwood")) return 6;
+    return 4;
+  }
+  return 5;
+}
+
+// Common and Latin/German names for the trees mushrooms associate with
+const TREE_ALIASES: Array<[string[], string[]]> = [
+  [["spruce", "fichte"], ["spruce", "picea"]],
+  [["beech", "buche"], ["beech", "fagus"]],
+  [["fir", "tanne"], ["fir", "abies"]],
+  [["pine", "kiefer"], ["pine", "pinus"]],
+  [["oak", "eiche"], ["oak", "quercus"]],
+  [["birch", "birke"], ["birch", "betula"]],
+];
+
+function treesMatch(tree: string, association: string): boolean {
+  const treeStr = tree.toLowerCase();
+  const assocStr = association.toLowerCase();
+  if (treeStr === assocStr) return true;
+
+  const aliasMatch = TREE_ALIASES.some(([treeNames, assocNames]) =>
+    treeNames.some(name => treeStr.includes(name)) && assocNames.some(name => assocStr.includes(name))
+  );
+  return aliasMatch || treeStr.includes(assocStr) || assocStr.includes(treeStr);
+}
+
+function scoreTreeSpecies(species: MushroomSpecies, location: ForagingLocation): number {
+  if (!location.treeSpecies || !species.treeAssociations || species.treeAssociations.length === 0) {
+    return 8;
+  }
+
+  const associations = species.treeAssociations;
+  const matchingTrees = location.treeSpecies.filter(tree => associations.some(assoc => treesMatch(tree, assoc)));
+  const matchRatio = matchingTrees.length / Math.max(location.treeSpecies.length, 1);
+
+  if (matchRatio >= 0.7) return 15;
+  if (matchRatio >= 0.5) return 12;
+  if (matchRatio >= 0.3) return 10;
+  if (matchRatio >= 0.1) return 6;
+  return 3;
+}
+
+const PEAK_NOW_DAYS = 7;
+const PEAK_HORIZON_DAYS = 60;
+
+// "Season peak expected in 3 weeks at this altitude", while the peak is near
+function describePeakTiming({ daysToPeak, shiftDays, elevationShiftDays }: SeasonTiming): string | null {
+  if (daysToPeak === null || Math.abs(daysToPeak) > PEAK_HORIZON_DAYS) return null;
+
+  // Name the altitude when it accounts for most of the shift
+  const where = shiftDays === 0 ? ""
+    : Math.abs(elevationShiftDays) * 2 >= Math.abs(shiftDays) ? " at this altitude"
+    : " here";
+  if (Math.abs(daysToPeak) <= PEAK_NOW_DAYS) return `Season peak now${where}`;
+
+  const days = Math.abs(daysToPeak);
+  const span = days < 14 ? `${days} days` : `${Math.round(days / 7)} weeks`;
+  return daysToPeak > 0 ? `Season peak expected in ${span}${where}` : `Season peak passed ${span} ago${where}`;
+}
@@ -1,14 +1,33 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, integer, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, real, integer, timestamp, jsonb, boolean, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(), // scrypt hash, never sent to clients
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// How a species' monthly curve moves with a location; unset fields take the engine's defaults
+export type PhenologyShift = {
+  referenceElevation: number; // metres at which monthWeights hold as stored
+  daysPer100m: number; // later per 100 m above the reference, earlier below it
+  stretchPer1000m: number; // season widens by this fraction per 1000 m above the reference
+  daysPerDegreeNorth: number; // later per degree of latitude north of 46.8°
+  southOfAlpsDays: number; // added south of the Alps (Ticino), usually negative
+};
+
 export const mushroomSpecies = pgTable("mushroom_species", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   scientificName: text("scientific_name").notNull(),
   description: text("description"),
   season: text("season").notNull(), // Spring, Summer, Fall, Winter
+  monthWeights: jsonb("month_weights").$type<number[]>(), // occurrence per month, January first, 0-1
+  peakMonths: jsonb("peak_months").$type<number[]>().default([]), // 1-12
+  phenologyShift: jsonb("phenology_shift").$type<Partial<PhenologyShift>>(),
   optimalTemp: real("optimal_temp"), // Celsius
   optimalHumidity: real("optimal_humidity"), // Percentage
   soilTempMin: real("soil_temp_min"), // Celsius
@@ -37,11 +56,20 @@ export const foragingLocations = pgTable("foraging_locations", {
   municipality: text("municipality"),
   canton: text("canton"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // Serves radius and bounding-box queries, which range over both coordinates
+  index("foraging_locations_position_idx").on(table.latitude, table.longitude),
+]);
+
+// Where weather data came from. "stored" covers readings posted directly or stored before sources were tracked.
+export const WEATHER_SOURCES = ["meteoswiss", "open-meteo", "interpolated", "stored"] as const;
+export type WeatherSource = typeof WEATHER_SOURCES[number];
 
 export const weatherData = pgTable("weather_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   locationId: varchar("location_id").references(() => foragingLocations.id),
+  stationId: varchar("station_id"), // SwissMetNet station abbreviation, for station readings
+  source: text("source"), // WeatherSource of the reading, null when unknown
   timestamp: timestamp("timestamp").defaultNow(),
   temperature: real("temperature"), // Celsius
   humidity: real("humidity"), // Percentage
@@ -54,38 +82,133 @@ export const weatherData = pgTable("weather_data", {
 
 export const userFinds = pgTable("user_finds", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id"), // Would reference users table in full implementation
+  userId: varchar("user_id").references(() => users.id),
   speciesId: varchar("species_id").references(() => mushroomSpecies.id),
   locationId: varchar("location_id").references(() => foragingLocations.id),
   foundAt: timestamp("found_at").defaultNow(),
-  quantity: integer("quantity"),
+  quantity: integer("quantity"), // 0 records an empty visit: searched, nothing found
   notes: text("notes"),
   photoUrl: text("photo_url"),
+  thumbnailUrl: text("thumbnail_url"),
+  latitude: real("latitude"),
+  longitude: real("longitude"),
+  accuracy: real("accuracy"), // meters, as reported by the device
+  elevation: real("elevation"), // meters
+  canton: text("canton"),
   verified: boolean("verified").default(false),
 });
 
+// Outcome of storing the latest SwissMetNet observations during an ingestion run
+export type StationIngestionResult = {
+  stationsTotal: number;
+  stored: number;
+  unchanged: number; // latest observation was already stored
+  failures: Array<{ stationId: string; error: string }>;
+};
+
+// Finished weather ingestion runs, kept so the status endpoint survives restarts
+export const weatherIngestionRuns = pgTable("weather_ingestion_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").notNull(),
+  locationsTotal: integer("locations_total").notNull(),
+  locationsSucceeded: integer("locations_succeeded").notNull(),
+  failures: jsonb("failures").$type<Array<{ locationId: string; error: string }>>().notNull(),
+  stations: jsonb("stations").$type<StationIngestionResult>(),
+  stationsError: text("stations_error"),
+}, (table) => [
+  index("weather_ingestion_runs_started_at_idx").on(table.startedAt),
+]);
+
+// Photos uploaded through /api/finds/photos and who uploaded them, so finds can only
+// link, and deleting a find can only remove, its owner's own files
+export const findPhotos = pgTable("find_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  photoUrl: text("photo_url").notNull().unique(),
+  thumbnailUrl: text("thumbnail_url").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Zod schemas for validation
-export const insertMushroomSpeciesSchema = createInsertSchema(mushroomSpecies).omit({
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().trim().min(3).max(32),
+  password: z.string().min(8),
+}).pick({
+  username: true,
+  password: true,
+});
+
+export const insertMushroomSpeciesSchema = createInsertSchema(mushroomSpecies, {
+  treeAssociations: z.array(z.string()).nullable().optional(),
+  forestTypes: z.array(z.string()).nullable().optional(),
+  monthWeights: z.array(z.number().min(0).max(1)).length(12).nullable().optional(),
+  peakMonths: z.array(z.number().int().min(1).max(12)).nullable().optional(),
+  phenologyShift: z.object({
+    referenceElevation: z.number().min(0).max(4000),
+    daysPer100m: z.number().min(-30).max(30),
+    stretchPer1000m: z.number().min(-0.9).max(2),
+    daysPerDegreeNorth: z.number().min(-60).max(60),
+    southOfAlpsDays: z.number().min(-90).max(90),
+  }).partial().nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertForagingLocationSchema = createInsertSchema(foragingLocations).omit({
+export const insertForagingLocationSchema = createInsertSchema(foragingLocations, {
+  treeSpecies: z.array(z.string()).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertWeatherDataSchema = createInsertSchema(weatherData).omit({
+export const insertWeatherDataSchema = createInsertSchema(weatherData, {
+  source: z.enum(WEATHER_SOURCES).nullable().optional(),
+}).omit({
   id: true,
   timestamp: true,
 });
 
-export const insertUserFindSchema = createInsertSchema(userFinds).omit({
+export const insertUserFindSchema = createInsertSchema(userFinds, {
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  accuracy: z.number().nonnegative().nullable().optional(),
+}).omit({
   id: true,
   foundAt: true,
 });
 
+// What a forager may send for a find. The owner comes from the session, and verification
+// and the canton are set by the server, so they are stripped.
+export const userFindInputSchema = insertUserFindSchema.omit({
+  userId: true,
+  verified: true,
+  canton: true,
+});
+
+export const insertWeatherIngestionRunSchema = createInsertSchema(weatherIngestionRuns, {
+  failures: z.array(z.object({ locationId: z.string(), error: z.string() })),
+  stations: z.object({
+    stationsTotal: z.number().int(),
+    stored: z.number().int(),
+    unchanged: z.number().int(),
+    failures: z.array(z.object({ stationId: z.string(), error: z.string() })),
+  }).nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export const insertFindPhotoSchema = createInsertSchema(findPhotos).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "password">;
+
 export type MushroomSpecies = typeof mushroomSpecies.$inferSelect;
 export type InsertMushroomSpecies = z.infer<typeof insertMushroomSpeciesSchema>;
 
@@ -98,12 +221,78 @@ export type InsertWeatherData = z.infer<typeof insertWeatherDataSchema>;
 export type UserFind = typeof userFinds.$inferSelect;
 export type InsertUserFind = z.infer<typeof insertUserFindSchema>;
 
+export type WeatherIngestionRun = typeof weatherIngestionRuns.$inferSelect;
+export type InsertWeatherIngestionRun = z.infer<typeof insertWeatherIngestionRunSchema>;
+
+export type FindPhoto = typeof findPhotos.$inferSelect;
+export type InsertFindPhoto = z.infer<typeof insertFindPhotoSchema>;
+
 // Additional types for API responses
 export type LocationWithProbability = ForagingLocation & {
   probability: number;
   distance: number;
   suitableSpecies: string[];
-  currentConditions?: WeatherData;
+  currentConditions?: WeatherConditions;
+};
+
+// Metrics derived from a location's stored weather history
+export type DerivedWeatherMetrics = {
+  daysSinceRain: number | null; // null when no significant rain is in the history
+  precipitation7d: number; // mm
+  precipitation14d: number; // mm
+  soilTemperatureEstimate: number | null; // Celsius
+  historyDays: number; // span of the observations the metrics are based on
+};
+
+// Carried by every weather payload so clients can tell measured data from stand-ins
+export type WeatherProvenance = {
+  source: WeatherSource;
+  observedAt: string; // ISO timestamp of the underlying observation
+  isFallback: boolean; // a preferred source failed, or the values are an estimate
+};
+
+export type WeatherConditions = Omit<WeatherData, "source"> & WeatherProvenance & {
+  derived?: DerivedWeatherMetrics;
+};
+
+export type ForecastDay = {
+  date: string; // YYYY-MM-DD
+  probability: number;
+  topSpecies: string[];
+  conditions: {
+    temperature: number | null;
+    humidity: number | null;
+    precipitation: number | null;
+    soilTemperature: number | null;
+    daysSinceRain: number | null;
+  };
+};
+
+export type LocationForecast = {
+  locationId: string;
+  dataSource: string;
+  days: ForecastDay[];
+};
+
+// Square cell of the probability heat map, aligned to the LV95 grid
+export type ProbabilityGridCell = {
+  type: "Feature";
+  geometry: { type: "Polygon"; coordinates: Array<Array<[number, number]>> }; // WGS84 [lng, lat]
+  properties: {
+    probability: number;
+    elevation: number | null;
+    forestType: string | null; // null where only the region's forest share is known
+    forestShare: number; // 0-1; probability is already scaled by it
+    topSpecies: string[];
+  };
+};
+
+export type ProbabilityGrid = {
+  type: "FeatureCollection";
+  features: ProbabilityGridCell[]; // forest cells only
+  resolution: number; // cell edge in metres
+  species: string | null; // species id the cells are scored for, or null for all species
+  weatherObservedAt: string | null; // latest station reading the weather is interpolated from
 };
 
 export type SpeciesWithConditions = MushroomSpecies & {
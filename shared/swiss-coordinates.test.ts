@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectSwissGrid,
+  formatSwissGrid,
+  lv03ToLv95,
+  lv95ToLv03,
+  lv95ToWgs84,
+  parseSwissGrid,
+  wgs84ToLv95,
+} from "./swiss-coordinates";
+
+// LV95 points and their WGS84 positions under EPSG:2056 (swisstopo's CH1903+ parameters),
+// computed with proj4js. Closeness to 2 decimals in metres and 7 in degrees is within a centimetre.
+const REFERENCE_POINTS: Array<[string, number, number, number, number]> = [
+  ["the projection origin in Bern", 2600000, 1200000, 46.951082771, 7.438632421],
+  ["Zimmerwald observatory", 2602030.74, 1191775.03, 46.877094413, 7.465273062],
+  ["Geneva", 2500000, 1118000, 46.206006992, 6.142954192],
+  ["Schaffhausen", 2690000, 1283000, 47.691433676, 8.6374492],
+  ["Monte Generoso", 2722758, 1087875, 45.931328054, 9.021264206],
+  ["Piz Bernina", 2791300, 1142000, 46.402061466, 9.926565722],
+];
+
+const arcSeconds = (d: number, m: number, s: number) => d + m / 60 + s / 3600;
+
+describe("wgs84ToLv95 and lv95ToWgs84", () => {
+  it.each(REFERENCE_POINTS)("match the reference for %s", (_name, east, north, lat, lng) => {
+    const grid = wgs84ToLv95(lat, lng);
+    expect(grid.east).toBeCloseTo(east, 2);
+    expect(grid.north).toBeCloseTo(north, 2);
+
+    const position = lv95ToWgs84(east, north);
+    expect(position.lat).toBeCloseTo(lat, 7);
+    expect(position.lng).toBeCloseTo(lng, 7);
+  });
+
+  it("reproduce swisstopo's worked example to its published 0.01\"", () => {
+    const grid = wgs84ToLv95(arcSeconds(46, 2, 38.87), arcSeconds(8, 43, 49.79));
+    expect(Math.abs(grid.east - 2700000)).toBeLessThan(0.3);
+    expect(Math.abs(grid.north - 1100000)).toBeLessThan(0.3);
+  });
+});
+
+describe("lv03ToLv95", () => {
+  it("adds the false-origin offsets and back", () => {
+    expect(lv03ToLv95(600000, 200000)).toEqual({ east: 2600000, north: 1200000 });
+    expect(lv03ToLv95(683250.5, 247980.25)).toEqual({ east: 2683250.5, north: 1247980.25 });
+    expect(lv95ToLv03(2683250.5, 1247980.25)).toEqual({ east: 683250.5, north: 247980.25 });
+  });
+});
+
+describe("detectSwissGrid", () => {
+  it("tells LV95 from LV03 by magnitude", () => {
+    expect(detectSwissGrid(2683250, 1247980)).toBe("lv95");
+    expect(detectSwissGrid(683250, 247980)).toBe("lv03");
+  });
+
+  it("rejects pairs outside both grids or with the axes swapped", () => {
+    expect(detectSwissGrid(1247980, 2683250)).toBeNull();
+    expect(detectSwissGrid(247980, 683250)).toBeNull();
+    expect(detectSwissGrid(47.37, 8.54)).toBeNull();
+    expect(detectSwissGrid(2683250, 247980)).toBeNull();
+  });
+});
+
+describe("parseSwissGrid", () => {
+  it.each([
+    ["2'683'250 / 1'247'980", { crs: "lv95", east: 2683250, north: 1247980 }],
+    ["2’683’250 / 1’247’980", { crs: "lv95", east: 2683250, north: 1247980 }],
+    ["683250, 247980", { crs: "lv03", east: 683250, north: 247980 }],
+    ["683250;247980", { crs: "lv03", east: 683250, north: 247980 }],
+    ["  2683250.5 1247980.25 ", { crs: "lv95", east: 2683250.5, north: 1247980.25 }],
+  ])("reads %j", (text, expected) => {
+    expect(parseSwissGrid(text)).toEqual(expected);
+  });
+
+  it.each([
+    "-2683250 / 1247980",
+    "2683250 / -1247980",
+    "+683250, 247980",
+    "E 2683250 N 1247980",
+    "2683250 / 1247980 m",
+    "2683250 / 1247980 / 500",
+    "2683250",
+    "47.37, 8.54",
+    "",
+  ])("rejects %j", text => {
+    expect(parseSwissGrid(text)).toBeNull();
+  });
+});
+
+describe("formatSwissGrid", () => {
+  it("rounds to the metre and groups thousands with apostrophes", () => {
+    expect(formatSwissGrid({ east: 2683250.4, north: 1247979.6 })).toBe("2'683'250 / 1'247'980");
+    expect(formatSwissGrid({ east: 683250, north: 47980 })).toBe("683'250 / 47'980");
+  });
+
+  it("formats what parseSwissGrid reads back", () => {
+    const grid = { east: 2600000, north: 1200000 };
+    expect(parseSwissGrid(formatSwissGrid(grid))).toEqual({ crs: "lv95", ...grid });
+  });
+});
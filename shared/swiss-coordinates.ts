@@ -0,0 +1,231 @@
+/**
+ * Transforms between WGS84 and the Swiss grids CH1903+/LV95 and CH1903/LV03.
+ *
+ * WGS84 -> LV95 follows swisstopo's rigorous solution: a geocentric datum shift
+ * from WGS84 to the Bessel 1841 ellipsoid, then the Swiss oblique conformal
+ * cylindrical projection centred on the old observatory in Bern. This is well
+ * inside the ~1 m tolerance of swisstopo's approximate polynomial formulas.
+ * LV03 is treated as LV95 minus the false-origin offset; the remaining frame
+ * distortion (up to ~1.5 m) can only be removed with the FINELTRA grid.
+ */
+
+export type CoordinateSystem = "wgs84" | "lv95" | "lv03";
+
+export const COORDINATE_SYSTEMS: readonly CoordinateSystem[] = ["wgs84", "lv95", "lv03"];
+
+export interface WGS84Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface SwissGridCoordinates {
+  east: number;
+  north: number;
+}
+
+// GRS80 / WGS84 ellipsoid
+const WGS84_A = 6378137;
+const WGS84_E2 = 0.00669438002290;
+
+// Bessel 1841 ellipsoid
+const BESSEL_A = 6377397.155;
+const BESSEL_E2 = 0.006674372230614;
+const BESSEL_E = Math.sqrt(BESSEL_E2);
+
+// Geocentric translation WGS84 -> CH1903+ in metres
+const DATUM_SHIFT = { x: -674.374, y: -15.056, z: -405.346 };
+
+// Projection centre: old observatory in Bern
+const PHI_0 = degrees(46, 57, 8.66);
+const LAMBDA_0 = degrees(7, 26, 22.5);
+
+const LV95_FALSE_EASTING = 2600000;
+const LV95_FALSE_NORTHING = 1200000;
+const LV03_OFFSET_EAST = 2000000;
+const LV03_OFFSET_NORTH = 1000000;
+
+// Projection sphere constants derived from the projection centre
+const R = (BESSEL_A * Math.sqrt(1 - BESSEL_E2)) / (1 - BESSEL_E2 * Math.pow(Math.sin(PHI_0), 2));
+const ALPHA = Math.sqrt(1 + (BESSEL_E2 / (1 - BESSEL_E2)) * Math.pow(Math.cos(PHI_0), 4));
+const B_0 = Math.asin(Math.sin(PHI_0) / ALPHA);
+const K =
+  Math.log(Math.tan(Math.PI / 4 + B_0 / 2)) -
+  ALPHA * Math.log(Math.tan(Math.PI / 4 + PHI_0 / 2)) +
+  ((ALPHA * BESSEL_E) / 2) * Math.log((1 + BESSEL_E * Math.sin(PHI_0)) / (1 - BESSEL_E * Math.sin(PHI_0)));
+
+export function wgs84ToLv95(lat: number, lng: number): SwissGridCoordinates {
+  const geocentric = toGeocentric(toRadians(lat), toRadians(lng), WGS84_A, WGS84_E2);
+  const bessel = fromGeocentric(
+    geocentric.x + DATUM_SHIFT.x,
+    geocentric.y + DATUM_SHIFT.y,
+    geocentric.z + DATUM_SHIFT.z,
+    BESSEL_A,
+    BESSEL_E2,
+  );
+  return project(bessel.phi, bessel.lambda);
+}
+
+export function lv95ToWgs84(east: number, north: number): WGS84Coordinates {
+  const bessel = unproject(east, north);
+  const geocentric = toGeocentric(bessel.phi, bessel.lambda, BESSEL_A, BESSEL_E2);
+  const wgs84 = fromGeocentric(
+    geocentric.x - DATUM_SHIFT.x,
+    geocentric.y - DATUM_SHIFT.y,
+    geocentric.z - DATUM_SHIFT.z,
+    WGS84_A,
+    WGS84_E2,
+  );
+  return { lat: toDegrees(wgs84.phi), lng: toDegrees(wgs84.lambda) };
+}
+
+export function lv03ToLv95(east: number, north: number): SwissGridCoordinates {
+  return { east: east + LV03_OFFSET_EAST, north: north + LV03_OFFSET_NORTH };
+}
+
+export function lv95ToLv03(east: number, north: number): SwissGridCoordinates {
+  return { east: east - LV03_OFFSET_EAST, north: north - LV03_OFFSET_NORTH };
+}
+
+export function wgs84ToLv03(lat: number, lng: number): SwissGridCoordinates {
+  const lv95 = wgs84ToLv95(lat, lng);
+  return lv95ToLv03(lv95.east, lv95.north);
+}
+
+export function lv03ToWgs84(east: number, north: number): WGS84Coordinates {
+  const lv95 = lv03ToLv95(east, north);
+  return lv95ToWgs84(lv95.east, lv95.north);
+}
+
+/**
+ * Convert a coordinate pair in any supported system to WGS84. For the Swiss grids
+ * the pair is (east, north); for WGS84 it is (lat, lng).
+ */
+export function toWgs84(crs: CoordinateSystem, first: number, second: number): WGS84Coordinates {
+  switch (crs) {
+    case "lv95":
+      return lv95ToWgs84(first, second);
+    case "lv03":
+      return lv03ToWgs84(first, second);
+    default:
+      return { lat: first, lng: second };
+  }
+}
+
+/**
+ * Guess which Swiss grid an easting/northing pair belongs to from its magnitude,
+ * e.g. for coordinates pasted from a map or spot list
+ */
+export function detectSwissGrid(east: number, north: number): "lv95" | "lv03" | null {
+  if (east >= 2400000 && east <= 2900000 && north >= 1050000 && north <= 1350000) return "lv95";
+  if (east >= 400000 && east <= 900000 && north >= 50000 && north <= 350000) return "lv03";
+  return null;
+}
+
+// Two unsigned numbers separated by a slash, comma, semicolon or whitespace
+const GRID_PAIR = /^(\d+(?:\.\d+)?)(?:\s*[/,;]\s*|\s+)(\d+(?:\.\d+)?)$/;
+
+/**
+ * Parse typed grid coordinates such as "2'683'250 / 1'247'980" or "683250, 247980",
+ * recognising LV95 or LV03 from the values. Anything besides the two numbers, such
+ * as a sign or a label, makes the input unreadable rather than being skipped.
+ */
+export function parseSwissGrid(text: string): (SwissGridCoordinates & { crs: "lv95" | "lv03" }) | null {
+  const match = GRID_PAIR.exec(text.replace(/['’]/g, "").trim());
+  if (!match) {
+    return null;
+  }
+
+  const east = parseFloat(match[1]);
+  const north = parseFloat(match[2]);
+  const crs = detectSwissGrid(east, north);
+  return crs ? { crs, east, north } : null;
+}
+
+/**
+ * Format grid coordinates the way Swiss maps print them, e.g. 2'683'250 / 1'247'980
+ */
+export function formatSwissGrid({ east, north }: SwissGridCoordinates): string {
+  const group = (value: number) => String(Math.round(value)).replace(/\B(?=(\d{3})+(?!\d))/g, "'");
+  return `${group(east)} / ${group(north)}`;
+}
+
+function project(phi: number, lambda: number): SwissGridCoordinates {
+  const s =
+    ALPHA * Math.log(Math.tan(Math.PI / 4 + phi / 2)) -
+    ((ALPHA * BESSEL_E) / 2) * Math.log((1 + BESSEL_E * Math.sin(phi)) / (1 - BESSEL_E * Math.sin(phi))) +
+    K;
+  const b = 2 * (Math.atan(Math.exp(s)) - Math.PI / 4);
+  const l = ALPHA * (lambda - LAMBDA_0);
+
+  // Rotate onto the oblique sphere whose equator runs through Bern
+  const lBar = Math.atan(Math.sin(l) / (Math.sin(B_0) * Math.tan(b) + Math.cos(B_0) * Math.cos(l)));
+  const bBar = Math.asin(Math.cos(B_0) * Math.sin(b) - Math.sin(B_0) * Math.cos(b) * Math.cos(l));
+
+  return {
+    east: LV95_FALSE_EASTING + R * lBar,
+    north: LV95_FALSE_NORTHING + (R / 2) * Math.log((1 + Math.sin(bBar)) / (1 - Math.sin(bBar))),
+  };
+}
+
+function unproject(east: number, north: number): { phi: number; lambda: number } {
+  const lBar = (east - LV95_FALSE_EASTING) / R;
+  const bBar = 2 * (Math.atan(Math.exp((north - LV95_FALSE_NORTHING) / R)) - Math.PI / 4);
+
+  const b = Math.asin(Math.cos(B_0) * Math.sin(bBar) + Math.sin(B_0) * Math.cos(bBar) * Math.cos(lBar));
+  const l = Math.atan(Math.sin(lBar) / (Math.cos(B_0) * Math.cos(lBar) - Math.sin(B_0) * Math.tan(bBar)));
+
+  // Isometric latitude back to ellipsoidal latitude; converges in a handful of steps
+  const isometric = (Math.log(Math.tan(Math.PI / 4 + b / 2)) - K) / ALPHA;
+  let phi = b;
+  for (let i = 0; i < 10; i++) {
+    const s = isometric + BESSEL_E * Math.log(Math.tan(Math.PI / 4 + Math.asin(BESSEL_E * Math.sin(phi)) / 2));
+    const next = 2 * Math.atan(Math.exp(s)) - Math.PI / 2;
+    if (Math.abs(next - phi) < 1e-12) {
+      phi = next;
+      break;
+    }
+    phi = next;
+  }
+
+  return { phi, lambda: LAMBDA_0 + l / ALPHA };
+}
+
+// Heights are taken as zero on both ellipsoids; at Alpine heights this moves positions by a few centimetres
+function toGeocentric(phi: number, lambda: number, a: number, e2: number) {
+  const n = a / Math.sqrt(1 - e2 * Math.pow(Math.sin(phi), 2));
+  return {
+    x: n * Math.cos(phi) * Math.cos(lambda),
+    y: n * Math.cos(phi) * Math.sin(lambda),
+    z: n * (1 - e2) * Math.sin(phi),
+  };
+}
+
+function fromGeocentric(x: number, y: number, z: number, a: number, e2: number): { phi: number; lambda: number } {
+  const p = Math.sqrt(x * x + y * y);
+  const lambda = Math.atan2(y, x);
+
+  let phi = Math.atan2(z, p * (1 - e2));
+  for (let i = 0; i < 10; i++) {
+    const n = a / Math.sqrt(1 - e2 * Math.pow(Math.sin(phi), 2));
+    const h = p / Math.cos(phi) - n;
+    const next = Math.atan2(z, p * (1 - (e2 * n) / (n + h)));
+    if (Math.abs(next - phi) < 1e-12) {
+      phi = next;
+      break;
+    }
+    phi = next;
+  }
+  return { phi, lambda };
+}
+
+function degrees(d: number, m: number, s: number): number {
+  return toRadians(d + m / 60 + s / 3600);
+}
+
+function toRadians(value: number): number {
+  return (value * Math.PI) / 180;
+}
+
+function toDegrees(value: number): number {
+  return (value * 180) / Math.PI;
+}